@@ -0,0 +1,301 @@
+import * as vscode from 'vscode';
+import { IOpenAIClientService, ISymbolInformationService, IUsageTracker } from '../services/interfaces';
+import { CodeContext, describeCodeContext, getCodeContext } from './codeContext';
+import { InlineEditDecorations, InlineEditSession } from './InlineEditSession';
+
+// Larger edits take too long to stream and review inline; the chat handles them better
+const MAX_EDIT_LINES = 500;
+
+// Lines around the code sent as context
+const CONTEXT_LINES = 30;
+
+const SYSTEM_PROMPT = `You edit code in an editor. Rewrite the code you are given following the instruction.
+Reply with only the complete rewritten code, keeping its indentation, and nothing else: no explanations and no markdown fences.
+The code before and after it is shown for context only; don't repeat it.`;
+
+const INLINE_EDIT_ACTIVE_CONTEXT = 'quest1CodeAssistant.inlineEditActive';
+
+/**
+ * Edits code in the editor by instruction, without the chat
+ * The selected lines, or the function or class around the cursor, are rewritten by the model
+ * and streamed into the editor as an inline diff. Each change gets Accept and Reject lenses.
+ */
+export class InlineEditController implements vscode.CodeLensProvider, vscode.Disposable {
+  private readonly sessions = new Map<string, InlineEditSession>();
+  private readonly decorations: InlineEditDecorations;
+  private readonly onDidChangeCodeLensesEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChangeCodeLenses: vscode.Event<void> = this.onDidChangeCodeLensesEmitter.event;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private readonly openAIClient: IOpenAIClientService,
+    private readonly usageTracker: IUsageTracker,
+    private readonly symbolService: ISymbolInformationService
+  ) {
+    this.decorations = {
+      added: vscode.window.createTextEditorDecorationType({
+        isWholeLine: true,
+        backgroundColor: new vscode.ThemeColor('diffEditor.insertedLineBackground'),
+        overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.addedForeground'),
+        overviewRulerLane: vscode.OverviewRulerLane.Left
+      }),
+      removed: vscode.window.createTextEditorDecorationType({
+        isWholeLine: true,
+        backgroundColor: new vscode.ThemeColor('diffEditor.removedLineBackground'),
+        overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.deletedForeground'),
+        overviewRulerLane: vscode.OverviewRulerLane.Left
+      }),
+      pending: vscode.window.createTextEditorDecorationType({
+        isWholeLine: true,
+        opacity: '0.5'
+      })
+    };
+
+    this.disposables.push(
+      this.decorations.added,
+      this.decorations.removed,
+      this.decorations.pending,
+      vscode.commands.registerCommand('quest1CodeAssistant.inlineEdit', async (uri?: vscode.Uri, range?: vscode.Range) => {
+        console.log('Command executed: quest1CodeAssistant.inlineEdit');
+        try {
+          await this.startFromEditor(uri, range);
+        } catch (error) {
+          console.error('Error starting the inline edit:', error);
+          vscode.window.showErrorMessage(`Quest1: ${error instanceof Error ? error.message : error}`);
+        }
+      }),
+      vscode.commands.registerCommand('quest1CodeAssistant.acceptInlineEditHunk', (uri: vscode.Uri, index: number) =>
+        this.getSession(uri)?.acceptHunk(index)
+      ),
+      vscode.commands.registerCommand('quest1CodeAssistant.rejectInlineEditHunk', (uri: vscode.Uri, index: number) =>
+        this.getSession(uri)?.rejectHunk(index)
+      ),
+      vscode.commands.registerCommand('quest1CodeAssistant.acceptInlineEdit', (uri?: vscode.Uri) =>
+        this.getSession(uri)?.acceptAll()
+      ),
+      vscode.commands.registerCommand('quest1CodeAssistant.rejectInlineEdit', (uri?: vscode.Uri) =>
+        this.getSession(uri)?.rejectAll()
+      ),
+      vscode.languages.registerCodeLensProvider({ scheme: 'file' }, this),
+      vscode.workspace.onDidChangeTextDocument(async event => {
+        const session = this.sessions.get(event.document.uri.toString());
+        if (session && !session.handleDocumentChange(event)) {
+          const restored = await session.restoreAndEnd();
+          vscode.window.showWarningMessage(restored
+            ? 'Quest1 stopped the inline edit because its lines were changed, and removed the changes still under review.'
+            : 'Quest1 stopped the inline edit because its lines were changed. The changes still under review were left in the file.'
+          );
+        }
+      }),
+      vscode.workspace.onWillSaveTextDocument(event => this.sessions.get(event.document.uri.toString())?.willSave()),
+      vscode.workspace.onDidSaveTextDocument(document => this.sessions.get(document.uri.toString())?.didSave()),
+      vscode.workspace.onDidCloseTextDocument(document => this.sessions.get(document.uri.toString())?.end()),
+      vscode.window.onDidChangeVisibleTextEditors(() => this.sessions.forEach(session => session.applyDecorations()))
+    );
+  }
+
+  public provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    const session = this.sessions.get(document.uri.toString());
+    if (!session) {
+      return [];
+    }
+
+    const ranges = session.getHunkRanges();
+    return ranges.flatMap((range, index) => {
+      const position = new vscode.Range(range.start, range.start);
+      const lenses = [
+        new vscode.CodeLens(position, {
+          title: 'Accept',
+          tooltip: 'Keep this change',
+          command: 'quest1CodeAssistant.acceptInlineEditHunk',
+          arguments: [document.uri, index]
+        }),
+        new vscode.CodeLens(position, {
+          title: 'Reject',
+          tooltip: 'Restore the original lines',
+          command: 'quest1CodeAssistant.rejectInlineEditHunk',
+          arguments: [document.uri, index]
+        })
+      ];
+      if (index === 0 && ranges.length > 1) {
+        lenses.push(
+          new vscode.CodeLens(position, { title: 'Accept all', command: 'quest1CodeAssistant.acceptInlineEdit', arguments: [document.uri] }),
+          new vscode.CodeLens(position, { title: 'Reject all', command: 'quest1CodeAssistant.rejectInlineEdit', arguments: [document.uri] })
+        );
+      }
+      return lenses;
+    });
+  }
+
+  public dispose(): void {
+    this.sessions.forEach(session => session.end());
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.onDidChangeCodeLensesEmitter.dispose();
+  }
+
+  /**
+   * Get the session of a document, or of the active editor
+   */
+  private getSession(uri?: vscode.Uri): InlineEditSession | undefined {
+    const target = uri || vscode.window.activeTextEditor?.document.uri;
+    return target ? this.sessions.get(target.toString()) : undefined;
+  }
+
+  private async startFromEditor(uri?: vscode.Uri, range?: vscode.Range): Promise<void> {
+    let document: vscode.TextDocument;
+    if (uri) {
+      document = await vscode.workspace.openTextDocument(uri);
+      await vscode.window.showTextDocument(document);
+    } else {
+      const editor = vscode.window.activeTextEditor;
+      if (!editor) {
+        vscode.window.showInformationMessage('Open a file and select the code to edit first.');
+        return;
+      }
+      document = editor.document;
+      range = editor.selection;
+    }
+
+    const key = document.uri.toString();
+    if (this.sessions.has(key)) {
+      vscode.window.showInformationMessage('Accept or reject the current inline edit in this file first.');
+      return;
+    }
+
+    const validation = this.openAIClient.validateApiKey();
+    if (!validation.valid) {
+      vscode.window.showErrorMessage(`Quest1: ${validation.message}`);
+      return;
+    }
+
+    const code = await getCodeContext(document, range || new vscode.Range(0, 0, 0, 0), this.symbolService);
+    // Whole lines are rewritten; a selection ending at the start of a line doesn't include that line
+    const startLine = code.range.start.line;
+    let endLine = code.range.end.line;
+    if (code.range.end.character === 0 && endLine > startLine) {
+      endLine--;
+    }
+    if (endLine - startLine + 1 > MAX_EDIT_LINES) {
+      vscode.window.showWarningMessage(`Select at most ${MAX_EDIT_LINES} lines to edit inline, or ask in the chat.`);
+      return;
+    }
+
+    const instruction = await vscode.window.showInputBox({
+      title: 'Edit with Quest1',
+      prompt: `Edit ${describeCodeContext(code).replace(/`/g, '')}`,
+      placeHolder: 'Describe the change, e.g. "handle the empty list" or "convert to async/await"'
+    });
+    if (!instruction?.trim() || this.sessions.has(key)) {
+      return;
+    }
+
+    // The document may have changed while the input box was open
+    if (endLine >= document.lineCount) {
+      return;
+    }
+    const original: string[] = [];
+    for (let line = startLine; line <= endLine; line++) {
+      original.push(document.lineAt(line).text);
+    }
+
+    const session = new InlineEditSession(document, startLine, original, this.decorations);
+    this.sessions.set(key, session);
+    session.onDidChange(() => this.onDidChangeCodeLensesEmitter.fire());
+    session.onDidEnd(() => {
+      this.sessions.delete(key);
+      this.updateContext();
+      this.onDidChangeCodeLensesEmitter.fire();
+    });
+    this.updateContext();
+
+    await this.streamEdit(session, code, original, instruction.trim());
+  }
+
+  /**
+   * Stream the model's rewrite of the code into the session
+   */
+  private async streamEdit(session: InlineEditSession, code: CodeContext, original: string[], instruction: string): Promise<void> {
+    const document = session.document;
+    const startLine = code.range.start.line;
+    const endLine = startLine + original.length - 1;
+    const before = document.getText(new vscode.Range(Math.max(0, startLine - CONTEXT_LINES), 0, startLine, 0));
+    const after = document.getText(new vscode.Range(endLine + 1, 0, Math.min(document.lineCount, endLine + 1 + CONTEXT_LINES), 0));
+
+    const parts = [`File: ${code.relativePath} (${code.language})`];
+    if (code.symbolName) {
+      parts.push(`Inside: ${code.symbolName}`);
+    }
+    if (before.trim()) {
+      parts.push(`Code before:\n\`\`\`${code.language}\n${before}\`\`\``);
+    }
+    if (after.trim()) {
+      parts.push(`Code after:\n\`\`\`${code.language}\n${after}\`\`\``);
+    }
+    parts.push(`Instruction: ${instruction}`);
+    parts.push(`Code to rewrite:\n\`\`\`${code.language}\n${original.join('\n')}\n\`\`\``);
+    const messages = [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: parts.join('\n\n') }
+    ];
+
+    const abortController = new AbortController();
+    session.onDidEnd(() => abortController.abort());
+
+    const model = this.openAIClient.getModel();
+    let text = '';
+    let usage: any;
+    try {
+      await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Quest1 is editing...', cancellable: true },
+        async (_progress, token) => {
+          // Cancelling restores the original code
+          token.onCancellationRequested(() => session.rejectAll());
+          await this.openAIClient.createStreamingChatCompletion(messages, [], model, 0.2, chunk => {
+            // Usage arrives with the last chunk, which has no choices
+            if (chunk.usage) {
+              usage = chunk.usage;
+            }
+            const delta = chunk.choices?.[0]?.delta?.content;
+            if (delta) {
+              text += delta;
+              session.setModified(extractCode(text), false);
+            }
+          }, abortController.signal);
+        }
+      );
+      this.usageTracker.recordUsage(model, usage, { run: false });
+
+      if (session.isEnded) {
+        return;
+      }
+      await session.setModified(extractCode(text), true);
+      if (session.isEnded) {
+        vscode.window.showInformationMessage('Quest1 suggested no changes.');
+      }
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        return;
+      }
+      console.error('Inline edit failed:', error);
+      await session.rejectAll();
+      vscode.window.showErrorMessage(`Quest1: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private updateContext(): void {
+    vscode.commands.executeCommand('setContext', INLINE_EDIT_ACTIVE_CONTEXT, this.sessions.size > 0);
+  }
+}
+
+/**
+ * Get the code from a reply that may still be streaming, without the markdown fences models add anyway
+ */
+function extractCode(text: string): string {
+  let code = text;
+  if (code.startsWith('```')) {
+    const lineEnd = code.indexOf('\n');
+    code = lineEnd === -1 ? '' : code.substring(lineEnd + 1);
+  }
+  const fence = code.indexOf('\n```');
+  return fence === -1 ? code : code.substring(0, fence + 1);
+}
@@ -0,0 +1,396 @@
+import * as vscode from 'vscode';
+import { diffLines, LineHunk } from './lineDiff';
+
+/**
+ * Decorations marking the lines of an inline edit
+ */
+export interface InlineEditDecorations {
+  added: vscode.TextEditorDecorationType;
+  removed: vscode.TextEditorDecorationType;
+  // Original lines the model hasn't rewritten yet while it streams
+  pending: vscode.TextEditorDecorationType;
+}
+
+/**
+ * How the lines of an inline edit are shown in the document, relative to its first line
+ */
+interface RenderedView {
+  lines: string[];
+  added: number[];
+  removed: number[];
+  pending: number[];
+  // First and last line of each hunk
+  hunks: [number, number][];
+}
+
+/**
+ * An edit of some lines of a document proposed by the model, reviewed in the editor
+ * The document shows the removed lines followed by the added lines of each change, decorated
+ * as an inline diff, until every change is accepted or rejected. While the model streams, the
+ * original lines it hasn't reached yet are shown dimmed at the end.
+ */
+export class InlineEditSession {
+  private original: string[];
+  private modified: string[] = [];
+  private hunks: LineHunk[] = [];
+  private streaming = true;
+  private view: RenderedView;
+  // Lines the session takes up in the document
+  private lineCount: number;
+  private ended = false;
+  private firstEdit = true;
+  private renderQueued = false;
+  private queue: Promise<void> = Promise.resolve();
+  // Our own edit, to tell it apart from the user's in document change events
+  private expectedChange: { range: vscode.Range; text: string } | undefined;
+  // Set when a change reached past the session's lines, so where they are is no longer known
+  private linesLost = false;
+  private restoring: Promise<boolean> | undefined;
+  // Save participants such as format-on-save may change the session's lines while the document is saved
+  private saving = false;
+  private renderAfterSave = false;
+
+  private readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChange: vscode.Event<void> = this.onDidChangeEmitter.event;
+  private readonly onDidEndEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidEnd: vscode.Event<void> = this.onDidEndEmitter.event;
+
+  constructor(
+    public readonly document: vscode.TextDocument,
+    private start: number,
+    original: string[],
+    private readonly decorations: InlineEditDecorations
+  ) {
+    this.original = original;
+    this.lineCount = original.length;
+    this.view = { lines: original, added: [], removed: [], pending: [], hunks: [] };
+  }
+
+  public get isStreaming(): boolean {
+    return this.streaming;
+  }
+
+  public get isEnded(): boolean {
+    return this.ended;
+  }
+
+  /**
+   * Show the code the model has written so far
+   * @param text The rewritten code streamed so far
+   * @param done Whether the model has finished; until then the last, incomplete line is left out
+   */
+  public setModified(text: string, done: boolean): Promise<void> {
+    if (this.ended || !this.streaming) {
+      return this.queue;
+    }
+
+    const lines = text.replace(/\r/g, '').split('\n');
+    if (!done || lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+    if (!done && lines.length === this.modified.length) {
+      return this.queue;
+    }
+
+    this.modified = lines;
+    this.streaming = !done;
+    // A render already waiting will pick up these lines
+    if (this.renderQueued) {
+      return this.queue;
+    }
+    this.renderQueued = true;
+    return this.enqueue(async () => {
+      this.renderQueued = false;
+      await this.update();
+    });
+  }
+
+  /**
+   * Get the lines of each change in the document, for the accept and reject lenses
+   */
+  public getHunkRanges(): vscode.Range[] {
+    if (this.ended || this.streaming) {
+      return [];
+    }
+    return this.view.hunks.map(([first, last]) => new vscode.Range(this.start + first, 0, this.start + last, 0));
+  }
+
+  public acceptHunk(index: number): Promise<void> {
+    return this.enqueue(async () => {
+      const hunk = this.hunks[index];
+      if (!hunk || this.streaming) {
+        return;
+      }
+      this.original.splice(hunk.originalStart, hunk.removed.length, ...hunk.added);
+      await this.update();
+    });
+  }
+
+  public rejectHunk(index: number): Promise<void> {
+    return this.enqueue(async () => {
+      const hunk = this.hunks[index];
+      if (!hunk || this.streaming) {
+        return;
+      }
+      this.modified.splice(hunk.modifiedStart, hunk.added.length, ...hunk.removed);
+      await this.update();
+    });
+  }
+
+  public acceptAll(): Promise<void> {
+    return this.enqueue(async () => {
+      if (this.streaming) {
+        return;
+      }
+      this.original = [...this.modified];
+      await this.update();
+    });
+  }
+
+  /**
+   * Restore the original lines, also while the model is still streaming
+   */
+  public rejectAll(): Promise<void> {
+    return this.enqueue(async () => {
+      this.streaming = false;
+      this.modified = [...this.original];
+      await this.update();
+    });
+  }
+
+  /**
+   * Follow changes to the document made outside of the session
+   * Changes save participants make to the session's lines are undone once the document is saved.
+   * @returns false if the user's changes touch the session's lines, which then have to be restored
+   */
+  public handleDocumentChange(event: vscode.TextDocumentChangeEvent): boolean {
+    if (this.ended || event.document !== this.document) {
+      return true;
+    }
+
+    let lineDelta = 0;
+    let touched = false;
+    for (const change of event.contentChanges) {
+      if (
+        this.expectedChange &&
+        change.range.isEqual(this.expectedChange.range) &&
+        change.text === this.expectedChange.text
+      ) {
+        this.expectedChange = undefined;
+        continue;
+      }
+      const lastLine = this.start + this.lineCount - 1;
+      if (change.range.start.line > lastLine) {
+        continue;
+      }
+      const addedLines = change.text.split('\n').length - 1 - (change.range.end.line - change.range.start.line);
+      if (change.range.end.line < this.start) {
+        lineDelta += addedLines;
+        continue;
+      }
+      // Changes within the session's lines only change how many there are
+      if (change.range.start.line >= this.start && change.range.end.line <= lastLine) {
+        this.lineCount += addedLines;
+      } else {
+        this.linesLost = true;
+      }
+      touched = true;
+    }
+
+    if (lineDelta !== 0) {
+      this.start += lineDelta;
+      this.onDidChangeEmitter.fire();
+    }
+    if (touched && this.saving && !this.linesLost) {
+      this.renderAfterSave = true;
+      return true;
+    }
+    return !touched;
+  }
+
+  /**
+   * Note that the document is about to be saved
+   */
+  public willSave(): void {
+    this.saving = true;
+  }
+
+  /**
+   * Show the session's lines again if save participants, e.g. a formatter, changed them
+   */
+  public didSave(): Promise<void> {
+    this.saving = false;
+    if (!this.renderAfterSave) {
+      return this.queue;
+    }
+    this.renderAfterSave = false;
+    return this.enqueue(() => this.render());
+  }
+
+  /**
+   * End the session after the user changed its lines, putting back the original lines
+   * with the accepted changes instead of leaving the inline diff in the file
+   * The restore is its own undo step, so undo brings back the user's change.
+   * @returns Whether the lines were restored; they can't be when the change reached past them
+   */
+  public restoreAndEnd(): Promise<boolean> {
+    if (!this.restoring) {
+      this.streaming = false;
+      let restored = false;
+      this.restoring = this.enqueue(async () => {
+        if (this.linesLost) {
+          return;
+        }
+        this.firstEdit = true;
+        await this.replaceLines(this.original);
+        restored = true;
+      }).then(() => {
+        this.end();
+        return restored;
+      });
+    }
+    return this.restoring;
+  }
+
+  /**
+   * Stop tracking the document and remove the decorations, leaving its text as it is
+   */
+  public end(): void {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    this.streaming = false;
+    this.applyDecorations();
+    this.onDidEndEmitter.fire();
+    this.onDidChangeEmitter.dispose();
+    this.onDidEndEmitter.dispose();
+  }
+
+  /**
+   * Decorate the session's lines in the editors showing the document
+   */
+  public applyDecorations(): void {
+    const toRanges = (lines: number[]) => this.ended
+      ? []
+      : lines.map(line => new vscode.Range(this.start + line, 0, this.start + line, 0));
+
+    for (const editor of vscode.window.visibleTextEditors) {
+      if (editor.document !== this.document) {
+        continue;
+      }
+      editor.setDecorations(this.decorations.added, toRanges(this.view.added));
+      editor.setDecorations(this.decorations.removed, toRanges(this.view.removed));
+      editor.setDecorations(this.decorations.pending, toRanges(this.view.pending));
+    }
+  }
+
+  /**
+   * Run session changes one at a time, as each one edits the document
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    this.queue = this.queue.then(() => this.ended ? undefined : task()).catch(error => {
+      console.error('Error updating the inline edit:', error);
+    });
+    return this.queue;
+  }
+
+  /**
+   * Compare the versions again and show them, ending the session once nothing is left to review
+   */
+  private async update(): Promise<void> {
+    this.hunks = diffLines(this.original, this.modified);
+    await this.render();
+    if (!this.streaming && this.hunks.length === 0) {
+      this.end();
+    }
+  }
+
+  private async render(): Promise<void> {
+    this.view = this.buildView();
+    await this.replaceLines(this.view.lines);
+    this.applyDecorations();
+    this.onDidChangeEmitter.fire();
+  }
+
+  private buildView(): RenderedView {
+    const view: RenderedView = { lines: [], added: [], removed: [], pending: [], hunks: [] };
+    const push = (lines: string[], marks?: number[]) => {
+      for (const line of lines) {
+        marks?.push(view.lines.length);
+        view.lines.push(line);
+      }
+    };
+
+    let next = 0;
+    this.hunks.forEach((hunk, index) => {
+      push(this.original.slice(next, hunk.originalStart));
+      const first = view.lines.length;
+      // While streaming, original lines at the end may just not be rewritten yet
+      const reachesEnd = hunk.originalStart + hunk.removed.length === this.original.length;
+      if (this.streaming && reachesEnd && index === this.hunks.length - 1) {
+        push(hunk.added, view.added);
+        push(hunk.removed, view.pending);
+      } else {
+        push(hunk.removed, view.removed);
+        push(hunk.added, view.added);
+      }
+      view.hunks.push([first, view.lines.length - 1]);
+      next = hunk.originalStart + hunk.removed.length;
+    });
+    push(this.original.slice(next));
+    return view;
+  }
+
+  /**
+   * Replace the session's lines in the document
+   */
+  private async replaceLines(lines: string[]): Promise<void> {
+    const eol = this.document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+    let range: vscode.Range;
+    let text = lines.join(eol);
+
+    if (this.lineCount === 0) {
+      if (lines.length === 0) {
+        return;
+      }
+      range = new vscode.Range(this.start, 0, this.start, 0);
+      text += eol;
+    } else {
+      const lastLine = this.start + this.lineCount - 1;
+      range = new vscode.Range(this.start, 0, lastLine, this.document.lineAt(lastLine).text.length);
+      if (this.document.getText(range) === text) {
+        return;
+      }
+      // Remove the line breaks too when no line is left
+      if (lines.length === 0) {
+        if (lastLine + 1 < this.document.lineCount) {
+          range = new vscode.Range(this.start, 0, lastLine + 1, 0);
+        } else if (this.start > 0) {
+          range = new vscode.Range(this.start - 1, this.document.lineAt(this.start - 1).text.length, lastLine, range.end.character);
+        }
+      }
+    }
+
+    this.expectedChange = { range, text };
+    const editor = vscode.window.visibleTextEditors.find(candidate => candidate.document === this.document);
+    let applied: boolean;
+    if (editor) {
+      // Keep the session's edits in one undo step
+      applied = await editor.edit(builder => builder.replace(range, text), {
+        undoStopBefore: this.firstEdit,
+        undoStopAfter: false
+      });
+    } else {
+      const edit = new vscode.WorkspaceEdit();
+      edit.replace(this.document.uri, range, text);
+      applied = await vscode.workspace.applyEdit(edit);
+    }
+
+    if (!applied) {
+      throw new Error(`Could not edit ${this.document.uri.fsPath}`);
+    }
+    this.firstEdit = false;
+    this.lineCount = lines.length;
+  }
+}
@@ -0,0 +1,57 @@
+import * as vscode from 'vscode';
+import { QUEST1_CODE_ACTION_KIND } from '../services/types/CodeActionInfo';
+import { DiagnosticAction, getDiagnosticActionCommand } from './editorCommands';
+
+// Long messages are cut in the titles that tell several diagnostics apart
+const MAX_TITLE_MESSAGE_LENGTH = 60;
+
+/**
+ * Adds "Fix with Quest1" and "Explain this error" to the lightbulb of every diagnostic
+ * Both send the diagnostic with the code around it to the chat; fixes are previewed as a diff before they apply.
+ */
+export class Quest1CodeActionProvider implements vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [QUEST1_CODE_ACTION_KIND];
+
+  public provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    if (context.only && !context.only.contains(QUEST1_CODE_ACTION_KIND)) {
+      return [];
+    }
+
+    const several = context.diagnostics.length > 1;
+    return context.diagnostics.flatMap(diagnostic => {
+      const message = diagnostic.message.split('\n')[0];
+      // Name the diagnostic when the lightbulb lists actions for more than one
+      const suffix = several
+        ? `: ${message.length > MAX_TITLE_MESSAGE_LENGTH ? `${message.substring(0, MAX_TITLE_MESSAGE_LENGTH)}...` : message}`
+        : '';
+      const kind = diagnostic.severity === vscode.DiagnosticSeverity.Error ? 'error'
+        : diagnostic.severity === vscode.DiagnosticSeverity.Warning ? 'warning'
+          : 'problem';
+
+      return [
+        this.createAction(`Fix with Quest1${suffix}`, 'fix', document, diagnostic),
+        this.createAction(`Explain this ${kind} with Quest1${suffix}`, 'explain', document, diagnostic)
+      ];
+    });
+  }
+
+  private createAction(
+    title: string,
+    action: DiagnosticAction,
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic
+  ): vscode.CodeAction {
+    const codeAction = new vscode.CodeAction(title, QUEST1_CODE_ACTION_KIND);
+    codeAction.diagnostics = [diagnostic];
+    codeAction.command = {
+      title,
+      command: getDiagnosticActionCommand(action),
+      arguments: [document.uri, diagnostic]
+    };
+    return codeAction;
+  }
+}
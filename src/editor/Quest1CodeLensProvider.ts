@@ -0,0 +1,75 @@
+import * as vscode from 'vscode';
+import { ISymbolInformationService } from '../services/interfaces';
+import { SymbolInfo } from '../services/types/SymbolInfo';
+import { CodeAction, getCodeActionCommand } from './editorCommands';
+
+// Symbols that get the lenses
+const LENS_SYMBOL_KINDS = [
+  vscode.SymbolKind.Class,
+  vscode.SymbolKind.Function,
+  vscode.SymbolKind.Method,
+  vscode.SymbolKind.Constructor
+];
+
+const LENS_ACTIONS: { action: CodeAction; title: string }[] = [
+  { action: 'explain', title: 'Explain' },
+  { action: 'tests', title: 'Write tests' },
+  { action: 'refactor', title: 'Refactor' }
+];
+
+// Large generated files would otherwise get a wall of lenses
+const MAX_LENSED_SYMBOLS = 200;
+
+/**
+ * Shows Explain, Write tests and Refactor above functions and classes
+ * Enabled with the quest1CodeAssistant.codeLens.enabled setting
+ */
+export class Quest1CodeLensProvider implements vscode.CodeLensProvider {
+  private readonly onDidChangeCodeLensesEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChangeCodeLenses: vscode.Event<void> = this.onDidChangeCodeLensesEmitter.event;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(private readonly symbolService: ISymbolInformationService) {
+    this.disposables.push(
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('quest1CodeAssistant.codeLens.enabled')) {
+          this.onDidChangeCodeLensesEmitter.fire();
+        }
+      })
+    );
+  }
+
+  public async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
+    if (!vscode.workspace.getConfiguration('quest1CodeAssistant').get<boolean>('codeLens.enabled', false)) {
+      return [];
+    }
+
+    const symbols: SymbolInfo[] = [];
+    const collect = (candidates: SymbolInfo[]) => {
+      for (const symbol of candidates) {
+        if (LENS_SYMBOL_KINDS.includes(symbol.kind)) {
+          symbols.push(symbol);
+        }
+        collect(symbol.children || []);
+      }
+    };
+    collect(await this.symbolService.getSymbolsInFile(document.uri.fsPath));
+
+    return symbols.slice(0, MAX_LENSED_SYMBOLS).flatMap(symbol => {
+      const range = new vscode.Range(symbol.range.startLine, symbol.range.startCharacter, symbol.range.endLine, symbol.range.endCharacter);
+      // The lens sits on the symbol's first line and the command gets the whole symbol
+      const lensRange = new vscode.Range(range.start, range.start);
+      return LENS_ACTIONS.map(({ action, title }) => new vscode.CodeLens(lensRange, {
+        title,
+        tooltip: `${title} ${symbol.name} with Quest1`,
+        command: getCodeActionCommand(action),
+        arguments: [document.uri, range]
+      }));
+    });
+  }
+
+  public dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.onDidChangeCodeLensesEmitter.dispose();
+  }
+}
@@ -0,0 +1,222 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { IOpenAIClientService, IUsageTracker } from '../services/interfaces';
+import { LLMError } from '../services/providers/LLMError';
+
+// Code around the cursor sent with each request
+const MAX_PREFIX_CHARS = 4000;
+const MAX_SUFFIX_CHARS = 1500;
+
+// Snippets of other open files that share identifiers with the code before the cursor
+const SNIPPET_WINDOW_LINES = 20;
+const MAX_SNIPPETS = 3;
+const MAX_SNIPPET_CHARS = 1200;
+
+const MAX_COMPLETION_LINES = 12;
+const CACHE_SIZE = 50;
+const CURSOR_MARKER = '<CURSOR>';
+
+const SYSTEM_PROMPT = `You complete code in an editor. You get the code before and after the cursor, marked with ${CURSOR_MARKER}, and snippets of related open files.
+Reply with only the text to insert at the cursor: no explanations, no markdown fences, and don't repeat the code before or after the cursor.
+Complete the current statement or block, at most ${MAX_COMPLETION_LINES} lines. Reply with nothing if no completion fits.`;
+
+/**
+ * Ghost text completions from the configured provider
+ * The code around the cursor is sent as a fill-in-the-middle prompt. Requests wait for typing to
+ * pause, are cancelled when the editor moves on, and recent completions are kept in an LRU cache.
+ * Enabled with the quest1CodeAssistant.inlineCompletions.enabled setting.
+ */
+export class Quest1InlineCompletionProvider implements vscode.InlineCompletionItemProvider {
+  // Map iteration order is insertion order, so the first key is the least recently used
+  private readonly cache = new Map<string, string>();
+
+  constructor(
+    private readonly openAIClient: IOpenAIClientService,
+    private readonly usageTracker: IUsageTracker
+  ) {}
+
+  public async provideInlineCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    _context: vscode.InlineCompletionContext,
+    token: vscode.CancellationToken
+  ): Promise<vscode.InlineCompletionItem[] | undefined> {
+    const config = vscode.workspace.getConfiguration('quest1CodeAssistant');
+    if (!config.get<boolean>('inlineCompletions.enabled', false) || !this.openAIClient.validateApiKey().valid) {
+      return undefined;
+    }
+
+    const prefix = document.getText(new vscode.Range(new vscode.Position(0, 0), position)).slice(-MAX_PREFIX_CHARS);
+    const suffix = document.getText(new vscode.Range(position, document.lineAt(document.lineCount - 1).range.end)).slice(0, MAX_SUFFIX_CHARS);
+    // Nothing to complete in an empty file
+    if (!prefix.trim()) {
+      return undefined;
+    }
+
+    const model = config.get<string>('inlineCompletions.model', '').trim() || this.openAIClient.getModel();
+    const cacheKey = crypto.createHash('sha1').update(`${model}\n${document.languageId}\n${prefix}${CURSOR_MARKER}${suffix}`).digest('hex');
+
+    let completion = this.getCached(cacheKey);
+    if (completion === undefined) {
+      // Wait for typing to pause; the editor cancels the token when the next keystroke asks again
+      await delay(config.get<number>('inlineCompletions.debounceMs', 300), token);
+      if (token.isCancellationRequested) {
+        return undefined;
+      }
+
+      completion = await this.requestCompletion(document, model, prefix, suffix, token);
+      if (completion === undefined) {
+        return undefined;
+      }
+      this.setCached(cacheKey, completion);
+    }
+
+    if (!completion || token.isCancellationRequested) {
+      return undefined;
+    }
+    return [new vscode.InlineCompletionItem(completion, new vscode.Range(position, position))];
+  }
+
+  /**
+   * Ask the model for the text at the cursor
+   * @returns The completion, an empty string if the model has none, or undefined if the request failed or was cancelled
+   */
+  private async requestCompletion(
+    document: vscode.TextDocument,
+    model: string,
+    prefix: string,
+    suffix: string,
+    token: vscode.CancellationToken
+  ): Promise<string | undefined> {
+    const abortController = new AbortController();
+    const cancellationListener = token.onCancellationRequested(() => abortController.abort());
+
+    const snippets = findRelatedSnippets(document, prefix);
+    const snippetText = snippets.length > 0
+      ? `Related code from open files:\n\n${snippets.join('\n\n')}\n\n`
+      : '';
+    const messages = [
+      { role: 'system', content: SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content: `${snippetText}File: ${vscode.workspace.asRelativePath(document.uri)} (${document.languageId})\n\n${prefix}${CURSOR_MARKER}${suffix}`
+      }
+    ];
+
+    try {
+      const response = await this.openAIClient.createChatCompletion(messages, [], model, 0.2, abortController.signal);
+      this.usageTracker.recordUsage(model, response.usage, { run: false });
+      return cleanCompletion(response.choices?.[0]?.message?.content || '', prefix, suffix);
+    } catch (error) {
+      if (!token.isCancellationRequested) {
+        console.error(`Inline completion failed${error instanceof LLMError ? ` (${error.kind})` : ''}:`, error);
+      }
+      return undefined;
+    } finally {
+      cancellationListener.dispose();
+    }
+  }
+
+  private getCached(key: string): string | undefined {
+    const completion = this.cache.get(key);
+    if (completion !== undefined) {
+      // Move it to the end as the most recently used
+      this.cache.delete(key);
+      this.cache.set(key, completion);
+    }
+    return completion;
+  }
+
+  private setCached(key: string, completion: string): void {
+    this.cache.delete(key);
+    this.cache.set(key, completion);
+    if (this.cache.size > CACHE_SIZE) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+  }
+}
+
+/**
+ * Find windows of other open files of the same language that share the most identifiers
+ * with the code just before the cursor
+ */
+function findRelatedSnippets(document: vscode.TextDocument, prefix: string): string[] {
+  const identifiers = new Set(getIdentifiers(prefix.split('\n').slice(-10).join('\n')));
+  if (identifiers.size === 0) {
+    return [];
+  }
+
+  const candidates: { text: string; score: number }[] = [];
+  for (const other of vscode.workspace.textDocuments) {
+    if (other === document || other.uri.scheme !== 'file' || other.languageId !== document.languageId) {
+      continue;
+    }
+
+    const lines = other.getText().split('\n');
+    for (let start = 0; start < lines.length; start += SNIPPET_WINDOW_LINES / 2) {
+      const text = lines.slice(start, start + SNIPPET_WINDOW_LINES).join('\n');
+      const windowIdentifiers = new Set(getIdentifiers(text));
+      let shared = 0;
+      identifiers.forEach(identifier => {
+        if (windowIdentifiers.has(identifier)) {
+          shared++;
+        }
+      });
+      if (shared > 0) {
+        const score = shared / (identifiers.size + windowIdentifiers.size - shared);
+        candidates.push({ text: `// ${vscode.workspace.asRelativePath(other.uri)}\n${text.slice(0, MAX_SNIPPET_CHARS)}`, score });
+      }
+    }
+  }
+
+  return candidates
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SNIPPETS)
+    .map(candidate => candidate.text);
+}
+
+function getIdentifiers(code: string): string[] {
+  // Words under three characters match almost everywhere and say little
+  return code.match(/[A-Za-z_$][\w$]{2,}/g) || [];
+}
+
+/**
+ * Remove what models add around a completion: markdown fences, the code before the
+ * cursor repeated at the start, and the code after the cursor repeated at the end
+ */
+function cleanCompletion(text: string, prefix: string, suffix: string): string {
+  let completion = text.replace(/^```[\w-]*\n/, '').replace(/\n?```\s*$/, '');
+  completion = completion.split(CURSOR_MARKER).join('');
+
+  // Drop a repeated current line
+  const currentLine = prefix.substring(prefix.lastIndexOf('\n') + 1);
+  if (currentLine.trim() && completion.startsWith(currentLine)) {
+    completion = completion.substring(currentLine.length);
+  }
+
+  // Drop the longest end of the completion that the code after the cursor starts with
+  const trimmedSuffix = suffix.trimStart();
+  for (let length = Math.min(completion.length, trimmedSuffix.length); length > 0; length--) {
+    if (completion.endsWith(trimmedSuffix.substring(0, length)) && trimmedSuffix.substring(0, length).trim()) {
+      completion = completion.substring(0, completion.length - length);
+      break;
+    }
+  }
+
+  const lines = completion.split('\n');
+  return lines.slice(0, MAX_COMPLETION_LINES).join('\n').trimEnd();
+}
+
+function delay(ms: number, token: vscode.CancellationToken): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(() => {
+      listener.dispose();
+      resolve();
+    }, ms);
+    const listener = token.onCancellationRequested(() => {
+      clearTimeout(timer);
+      listener.dispose();
+      resolve();
+    });
+  });
+}
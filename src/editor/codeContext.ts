@@ -0,0 +1,112 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ISymbolInformationService } from '../services/interfaces';
+import { SymbolInfo } from '../services/types/SymbolInfo';
+
+// Symbols that enclose code worth sending on their own
+const CODE_SYMBOL_KINDS = [
+  vscode.SymbolKind.Class,
+  vscode.SymbolKind.Interface,
+  vscode.SymbolKind.Enum,
+  vscode.SymbolKind.Function,
+  vscode.SymbolKind.Method,
+  vscode.SymbolKind.Constructor
+];
+
+// Larger code is cut so a request on a big file doesn't fill the context window on its own
+const MAX_CODE_CHARS = 30000;
+
+/**
+ * Code in the editor that an editor command or CodeLens sends to the chat
+ */
+export interface CodeContext {
+  filePath: string;
+  // Path relative to the workspace, for display
+  relativePath: string;
+  language: string;
+  range: vscode.Range;
+  code: string;
+  // Qualified name of the innermost function or class around the code, e.g. "ChatView.dispose"
+  symbolName?: string;
+  symbolKind?: vscode.SymbolKind;
+}
+
+/**
+ * Collect the code of a range with its file, language and surrounding symbol
+ * An empty range stands for the function or class around it, or the whole file outside of one
+ */
+export async function getCodeContext(
+  document: vscode.TextDocument,
+  range: vscode.Range,
+  symbolService: ISymbolInformationService
+): Promise<CodeContext> {
+  let symbols: SymbolInfo[] = [];
+  if (document.uri.scheme === 'file') {
+    try {
+      symbols = await symbolService.getSymbolsInFile(document.uri.fsPath);
+    } catch (error) {
+      console.error(`Error getting the symbols of ${document.uri.fsPath}:`, error);
+    }
+  }
+
+  const enclosingSymbols = findEnclosingSymbols(symbols, range);
+  const symbol = enclosingSymbols[enclosingSymbols.length - 1];
+
+  let codeRange = range;
+  if (range.isEmpty) {
+    codeRange = symbol
+      ? new vscode.Range(symbol.range.startLine, 0, symbol.range.endLine, document.lineAt(symbol.range.endLine).text.length)
+      : document.validateRange(new vscode.Range(0, 0, document.lineCount, 0));
+  }
+
+  let code = document.getText(codeRange);
+  if (code.length > MAX_CODE_CHARS) {
+    code = `${code.substring(0, MAX_CODE_CHARS)}\n[... truncated, ${code.length - MAX_CODE_CHARS} more characters]`;
+  }
+
+  return {
+    filePath: document.uri.fsPath,
+    relativePath: document.uri.scheme === 'file' ? vscode.workspace.asRelativePath(document.uri) : document.fileName,
+    language: document.languageId,
+    range: codeRange,
+    code,
+    symbolName: enclosingSymbols.length > 0 ? enclosingSymbols.map(enclosing => enclosing.name).join('.') : undefined,
+    symbolKind: symbol?.kind
+  };
+}
+
+/**
+ * Describe where code comes from, e.g. "`ChatView.dispose` in src/views/ChatView.ts:120-130"
+ */
+export function describeCodeContext(context: CodeContext): string {
+  const location = `${context.relativePath}:${context.range.start.line + 1}-${context.range.end.line + 1}`;
+  return context.symbolName ? `\`${context.symbolName}\` in ${location}` : location;
+}
+
+/**
+ * Get a short label for the code, used for the attachment chip in the chat
+ */
+export function getCodeLabel(context: CodeContext): string {
+  return `${path.basename(context.filePath)}:${context.range.start.line + 1}-${context.range.end.line + 1}`;
+}
+
+/**
+ * Get the code symbols containing a range, from the outermost to the innermost
+ */
+function findEnclosingSymbols(symbols: SymbolInfo[], range: vscode.Range): SymbolInfo[] {
+  for (const symbol of symbols) {
+    const symbolRange = new vscode.Range(
+      symbol.range.startLine,
+      symbol.range.startCharacter,
+      symbol.range.endLine,
+      symbol.range.endCharacter
+    );
+    if (!symbolRange.contains(range)) {
+      continue;
+    }
+
+    const inner = findEnclosingSymbols(symbol.children || [], range);
+    return CODE_SYMBOL_KINDS.includes(symbol.kind) ? [symbol, ...inner] : inner;
+  }
+  return [];
+}
@@ -0,0 +1,281 @@
+import * as vscode from 'vscode';
+import { OpenAIService } from '../openai-service';
+import { ServiceFactory } from '../services/ServiceFactory';
+import { TokenCounter } from '../services/TokenCounter';
+import { AgentMode } from '../services/types/AgentMode';
+import { PreparedMessage } from '../services/types/Conversation';
+import { ChatView } from '../views/ChatView';
+import { CodeContext, describeCodeContext, getCodeContext, getCodeLabel } from './codeContext';
+
+/**
+ * What an editor command asks the assistant to do with the code
+ */
+export type CodeAction = 'ask' | 'explain' | 'fix' | 'tests' | 'refactor';
+
+const ACTION_COMMANDS: Record<CodeAction, string> = {
+  ask: 'quest1CodeAssistant.askAboutCode',
+  explain: 'quest1CodeAssistant.explainCode',
+  fix: 'quest1CodeAssistant.fixCode',
+  tests: 'quest1CodeAssistant.writeTests',
+  refactor: 'quest1CodeAssistant.refactorCode'
+};
+
+const ACTION_TITLES: Record<CodeAction, string> = {
+  ask: 'Ask',
+  explain: 'Explain',
+  fix: 'Fix',
+  tests: 'Write tests for',
+  refactor: 'Refactor'
+};
+
+const ACTION_PROMPTS: Record<Exclude<CodeAction, 'ask'>, string> = {
+  explain: 'Explain what this code does and how it works.',
+  fix: 'Fix the problems in this code. Check the diagnostics again after the change.',
+  tests: 'Write unit tests for this code. Use the test framework and the conventions the project already uses, and cover edge cases and error paths.',
+  refactor: 'Refactor this code to make it easier to read and maintain, without changing its behavior. Explain the changes you make.'
+};
+
+/**
+ * What a code action on a diagnostic asks the assistant to do
+ */
+export type DiagnosticAction = 'fix' | 'explain';
+
+const DIAGNOSTIC_COMMANDS: Record<DiagnosticAction, string> = {
+  fix: 'quest1CodeAssistant.fixDiagnostic',
+  explain: 'quest1CodeAssistant.explainDiagnostic'
+};
+
+const DIAGNOSTIC_PROMPTS: Record<DiagnosticAction, string> = {
+  fix: 'Fix this problem with the smallest change that solves it. Check the diagnostics of the file again after the change.',
+  explain: 'Explain this problem: what it means, why this code causes it, and how it can be fixed. Don\'t change any files.'
+};
+
+// Fixes are previewed as a diff and approved; explanations only read
+const DIAGNOSTIC_MODES: Record<DiagnosticAction, AgentMode> = {
+  fix: 'edit',
+  explain: 'ask'
+};
+
+// Code sent around a diagnostic outside of a function, or in a long one
+const NEARBY_LINES = 15;
+const MAX_ENCLOSING_LINES = 80;
+const MAX_RELATED_INFORMATION = 5;
+
+/**
+ * Get the id of the command that runs an action, for menus, CodeLens and code actions
+ */
+export function getCodeActionCommand(action: CodeAction): string {
+  return ACTION_COMMANDS[action];
+}
+
+/**
+ * Get the id of the command that runs an action on a diagnostic, taking the document URI and the diagnostic
+ */
+export function getDiagnosticActionCommand(action: DiagnosticAction): string {
+  return DIAGNOSTIC_COMMANDS[action];
+}
+
+/**
+ * Register the commands that send code from the editor to the chat
+ * Each command takes an optional document URI and range, used by CodeLens and code actions;
+ * from the editor context menu it works on the selection, or on the function or class around the cursor
+ */
+export function registerEditorCommands(context: vscode.ExtensionContext, openAIService: OpenAIService): void {
+  for (const action of Object.keys(ACTION_COMMANDS) as CodeAction[]) {
+    context.subscriptions.push(
+      vscode.commands.registerCommand(ACTION_COMMANDS[action], async (uri?: vscode.Uri, range?: vscode.Range) => {
+        console.log(`Command executed: ${ACTION_COMMANDS[action]}`);
+        try {
+          await runCodeAction(context.extensionUri, openAIService, action, uri, range);
+        } catch (error) {
+          console.error(`Error running ${ACTION_COMMANDS[action]}:`, error);
+          vscode.window.showErrorMessage(`Quest1: ${error instanceof Error ? error.message : error}`);
+        }
+      })
+    );
+  }
+
+  for (const action of Object.keys(DIAGNOSTIC_COMMANDS) as DiagnosticAction[]) {
+    context.subscriptions.push(
+      vscode.commands.registerCommand(DIAGNOSTIC_COMMANDS[action], async (uri: vscode.Uri, diagnostic: vscode.Diagnostic) => {
+        console.log(`Command executed: ${DIAGNOSTIC_COMMANDS[action]}`);
+        try {
+          const document = await vscode.workspace.openTextDocument(uri);
+          const message = await prepareDiagnosticMessage(action, document, diagnostic);
+          await sendToChat(context.extensionUri, openAIService, message);
+        } catch (error) {
+          console.error(`Error running ${DIAGNOSTIC_COMMANDS[action]}:`, error);
+          vscode.window.showErrorMessage(`Quest1: ${error instanceof Error ? error.message : error}`);
+        }
+      })
+    );
+  }
+}
+
+async function runCodeAction(
+  extensionUri: vscode.Uri,
+  openAIService: OpenAIService,
+  action: CodeAction,
+  uri?: vscode.Uri,
+  range?: vscode.Range
+): Promise<void> {
+  let document: vscode.TextDocument;
+  if (uri) {
+    document = await vscode.workspace.openTextDocument(uri);
+  } else {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      vscode.window.showInformationMessage('Open a file and select some code first.');
+      return;
+    }
+    document = editor.document;
+    range = editor.selection;
+  }
+
+  const code = await getCodeContext(document, range || new vscode.Range(0, 0, 0, 0), ServiceFactory.getSymbolInformationService());
+
+  let question: string | undefined;
+  if (action === 'ask') {
+    question = await vscode.window.showInputBox({
+      title: 'Ask Quest1',
+      prompt: `Ask about ${describeCodeContext(code).replace(/`/g, '')}`,
+      placeHolder: 'What does this do? Why does it fail when...?'
+    });
+    if (!question?.trim()) {
+      return;
+    }
+  }
+
+  await sendToChat(extensionUri, openAIService, prepareMessage(action, code, question?.trim()));
+}
+
+/**
+ * Send a prepared message to the chat, continuing the conversation or starting one as configured
+ */
+async function sendToChat(extensionUri: vscode.Uri, openAIService: OpenAIService, message: PreparedMessage): Promise<void> {
+  const newConversation = vscode.workspace.getConfiguration('quest1CodeAssistant').get<string>('editorActions.chat', 'current') === 'new';
+
+  ChatView.createOrShow(extensionUri, openAIService);
+  await ChatView.currentPanel?.sendPreparedMessage(message, newConversation);
+}
+
+/**
+ * Build the chat message for an action: a short text for the chat and the prompt with the code
+ */
+function prepareMessage(action: CodeAction, code: CodeContext, question?: string): PreparedMessage {
+  const instruction = action === 'ask' ? question! : ACTION_PROMPTS[action];
+  const text = action === 'ask'
+    ? question!
+    : `${ACTION_TITLES[action]} ${describeCodeContext(code)}`;
+
+  const details = [`File: ${code.relativePath} (lines ${code.range.start.line + 1}-${code.range.end.line + 1})`];
+  if (code.symbolName) {
+    details.push(`Inside: ${code.symbolName} (${vscode.SymbolKind[code.symbolKind!]})`);
+  }
+  if (action === 'fix') {
+    details.push(`Diagnostics:\n${getDiagnostics(code)}`);
+  }
+
+  const block = `\`\`\`${code.language}\n${code.code}\n\`\`\``;
+  return {
+    text,
+    prompt: `${instruction}\n\n${details.join('\n')}\n\n${block}`,
+    attachments: [{
+      kind: 'selection',
+      label: getCodeLabel(code),
+      path: code.filePath,
+      tokens: new TokenCounter(ServiceFactory.getOpenAIClientService().getModel()).count(code.code)
+    }]
+  };
+}
+
+/**
+ * Build the chat message for an action on a diagnostic, with the code around it and its related information
+ */
+export async function prepareDiagnosticMessage(
+  action: DiagnosticAction,
+  document: vscode.TextDocument,
+  diagnostic: vscode.Diagnostic
+): Promise<PreparedMessage> {
+  const start = diagnostic.range.start;
+  let code = await getCodeContext(document, new vscode.Range(start, start), ServiceFactory.getSymbolInformationService());
+  // Outside of a function, or in a long one, the lines around the problem are enough
+  if (!code.symbolName || code.range.end.line - code.range.start.line + 1 > MAX_ENCLOSING_LINES) {
+    const nearby = document.validateRange(new vscode.Range(
+      Math.max(0, start.line - NEARBY_LINES), 0,
+      diagnostic.range.end.line + NEARBY_LINES + 1, 0
+    ));
+    code = { ...code, range: nearby, code: document.getText(nearby) };
+  }
+
+  const severity = vscode.DiagnosticSeverity[diagnostic.severity];
+  const origin = [diagnostic.source, getDiagnosticCode(diagnostic)].filter(Boolean).join(' ');
+  const source = origin ? ` (${origin})` : '';
+  const line = start.line + 1;
+  const text = `${action === 'fix' ? 'Fix' : 'Explain'} the ${severity.toLowerCase()} in ${code.relativePath}:${line}: ${diagnostic.message}`;
+
+  const details = [
+    `${severity}${source} at ${code.relativePath}:${line}:${start.character + 1}: ${diagnostic.message}`,
+    `Problem line: \`${document.lineAt(start.line).text.trim()}\``
+  ];
+  if (code.symbolName) {
+    details.push(`Inside: ${code.symbolName} (${vscode.SymbolKind[code.symbolKind!]})`);
+  }
+  const related = await getRelatedInformation(diagnostic);
+  if (related) {
+    details.push(`Related information:\n${related}`);
+  }
+  details.push(`Code (lines ${code.range.start.line + 1}-${code.range.end.line + 1}):`);
+
+  return {
+    text,
+    prompt: `${DIAGNOSTIC_PROMPTS[action]}\n\n${details.join('\n')}\n\n\`\`\`${code.language}\n${code.code}\n\`\`\``,
+    attachments: [{
+      kind: 'selection',
+      label: getCodeLabel(code),
+      path: code.filePath,
+      tokens: new TokenCounter(ServiceFactory.getOpenAIClientService().getModel()).count(code.code)
+    }],
+    mode: DIAGNOSTIC_MODES[action],
+    // A diagnostic is fixed with a small change, so the run skips the planning phase
+    planFirst: false
+  };
+}
+
+/**
+ * List the locations the language server relates to a diagnostic, with their code
+ */
+async function getRelatedInformation(diagnostic: vscode.Diagnostic): Promise<string> {
+  const lines: string[] = [];
+  for (const information of (diagnostic.relatedInformation || []).slice(0, MAX_RELATED_INFORMATION)) {
+    const location = `${vscode.workspace.asRelativePath(information.location.uri)}:${information.location.range.start.line + 1}`;
+    let codeLine = '';
+    try {
+      const document = await vscode.workspace.openTextDocument(information.location.uri);
+      codeLine = ` \`${document.lineAt(information.location.range.start.line).text.trim()}\``;
+    } catch (error) {
+      console.error(`Error reading ${location}:`, error);
+    }
+    lines.push(`- ${location}: ${information.message}${codeLine}`);
+  }
+  return lines.join('\n');
+}
+
+function getDiagnosticCode(diagnostic: vscode.Diagnostic): string | undefined {
+  const code = diagnostic.code;
+  if (code === undefined) {
+    return undefined;
+  }
+  return typeof code === 'object' ? String(code.value) : String(code);
+}
+
+/**
+ * List the errors and warnings in the code's range
+ */
+function getDiagnostics(code: CodeContext): string {
+  const lines = ServiceFactory.getDiagnosticsService().getDiagnosticsForFile(code.filePath)
+    .filter(diagnostic => diagnostic.range.endLine >= code.range.start.line && diagnostic.range.startLine <= code.range.end.line)
+    .sort((a, b) => a.severity - b.severity || a.range.startLine - b.range.startLine)
+    .map(diagnostic => `- Line ${diagnostic.range.startLine + 1} (${vscode.DiagnosticSeverity[diagnostic.severity]}): ${diagnostic.message}`);
+  return lines.length > 0 ? lines.join('\n') : 'No problems reported.';
+}
@@ -0,0 +1,79 @@
+// Beyond this many compared line pairs the changed lines are reported as a single hunk
+const MAX_DIFF_CELLS = 1000000;
+
+/**
+ * A run of consecutive changed lines between two versions of some text
+ */
+export interface LineHunk {
+  // Index of the first original line the hunk replaces, or that the added lines go before
+  originalStart: number;
+  // Index of the first added line in the modified lines
+  modifiedStart: number;
+  removed: string[];
+  added: string[];
+}
+
+/**
+ * Compare two versions of some text line by line
+ * Uses the longest common subsequence of the lines, so moved lines show as removed and added.
+ * @returns The changed runs of lines, in order
+ */
+export function diffLines(original: string[], modified: string[]): LineHunk[] {
+  // Unchanged lines at both ends are common and don't need the table
+  let prefix = 0;
+  while (prefix < original.length && prefix < modified.length && original[prefix] === modified[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < original.length - prefix &&
+    suffix < modified.length - prefix &&
+    original[original.length - 1 - suffix] === modified[modified.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = original.slice(prefix, original.length - suffix);
+  const b = modified.slice(prefix, modified.length - suffix);
+  if (a.length === 0 && b.length === 0) {
+    return [];
+  }
+  if (a.length === 0 || b.length === 0 || (a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+    return [{ originalStart: prefix, modifiedStart: prefix, removed: a, added: b }];
+  }
+
+  // common[i][j] is the length of the longest common subsequence of a[i..] and b[j..]
+  const width = b.length + 1;
+  const common = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i * width + j] = a[i] === b[j]
+        ? common[(i + 1) * width + j + 1] + 1
+        : Math.max(common[(i + 1) * width + j], common[i * width + j + 1]);
+    }
+  }
+
+  const hunks: LineHunk[] = [];
+  let current: LineHunk | undefined;
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      current = undefined;
+      i++;
+      j++;
+      continue;
+    }
+
+    if (!current) {
+      current = { originalStart: prefix + i, modifiedStart: prefix + j, removed: [], added: [] };
+      hunks.push(current);
+    }
+    if (j >= b.length || (i < a.length && common[(i + 1) * width + j] >= common[i * width + j + 1])) {
+      current.removed.push(a[i++]);
+    } else {
+      current.added.push(b[j++]);
+    }
+  }
+  return hunks;
+}
@@ -1,10 +1,16 @@
 import * as vscode from 'vscode';
 import { ChatViewProvider } from './views/ChatViewProvider';
 import { ChatView } from './views/ChatView';
+import { UsageStatusBar } from './views/UsageStatusBar';
 import { ProjectPathService } from './services/ProjectPathService';
 import { OpenAIService } from './openai-service';
 import { ServiceFactory } from './services/ServiceFactory';
 import { DiagnosticInfo } from './services/DiagnosticsService';
+import { registerEditorCommands } from './editor/editorCommands';
+import { Quest1CodeLensProvider } from './editor/Quest1CodeLensProvider';
+import { Quest1CodeActionProvider } from './editor/Quest1CodeActionProvider';
+import { Quest1InlineCompletionProvider } from './editor/Quest1InlineCompletionProvider';
+import { InlineEditController } from './editor/InlineEditController';
 
 /**
  * Group diagnostics by file path
@@ -63,9 +69,62 @@ function createDiagnosticsReport(errorsByFile: Record<string, DiagnosticInfo[]>)
   return report;
 }
 
+/**
+ * Let the user pick a model from the ones available on the configured provider
+ */
+async function selectModel(): Promise<void> {
+  const config = vscode.workspace.getConfiguration('quest1CodeAssistant');
+  const provider = config.get<string>('provider', 'openai');
+  const clientService = ServiceFactory.getOpenAIClientService();
+  const currentModel = clientService.getModel();
+  
+  let models: string[] = [];
+  try {
+    models = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `Loading models from ${provider}...` },
+      () => clientService.listModels()
+    );
+  } catch (error) {
+    console.error('Error listing models:', error);
+    vscode.window.showWarningMessage(`Could not list models from ${provider}: ${error instanceof Error ? error.message : error}`);
+  }
+  
+  const customModelLabel = '$(edit) Enter a model name...';
+  const items: vscode.QuickPickItem[] = [
+    ...models.map(model => ({ label: model, description: model === currentModel ? 'current' : undefined })),
+    { label: customModelLabel }
+  ];
+  
+  const picked = await vscode.window.showQuickPick(items, {
+    placeHolder: `Select the ${provider} model (current: ${currentModel})`
+  });
+  if (!picked) {
+    return;
+  }
+  
+  let model = picked.label;
+  if (model === customModelLabel) {
+    const input = await vscode.window.showInputBox({ prompt: 'Model name (deployment name for Azure OpenAI)', value: currentModel });
+    if (!input) {
+      return;
+    }
+    model = input.trim();
+  }
+  
+  // Update the workspace value if one is set there, otherwise it would shadow the change
+  const target = config.inspect('model')?.workspaceValue !== undefined
+    ? vscode.ConfigurationTarget.Workspace
+    : vscode.ConfigurationTarget.Global;
+  await config.update('model', model, target);
+  vscode.window.showInformationMessage(`Quest1 will now use ${model}.`);
+}
+
 export function activate(context: vscode.ExtensionContext) {
   console.log('Activating Quest1 Code Assistant extension');
   
+  // Give services access to the extension storage
+  ServiceFactory.initialize(context);
+  
   // Initialize ProjectPathService first
   // This ensures the current project path is available before other services
   const projectPathService = ProjectPathService.getInstance();
@@ -77,8 +136,63 @@ export function activate(context: vscode.ExtensionContext) {
   // Initialize OpenAI service
   const openAIService = new OpenAIService(projectPathService.getCurrentProjectPath() || '');
   
+  // The approval service registers the diff preview content provider for proposed changes
+  const toolApprovalService = ServiceFactory.getToolApprovalService();
+  context.subscriptions.push({
+    dispose: () => toolApprovalService.dispose()
+  });
+  
+  // Saved conversations are listed in the sidebar and restored in the chat panel
+  const conversationStore = ServiceFactory.getConversationStore();
+  context.subscriptions.push({
+    dispose: () => conversationStore.dispose()
+  });
+  
+  // The codebase index is built in the background on startup and kept up to date by file watchers
+  const codeIndexService = ServiceFactory.getCodeIndexService();
+  codeIndexService.start();
+  context.subscriptions.push({
+    dispose: () => codeIndexService.dispose()
+  });
+  
+  // The agent mode is selected in the chat panel and kept in the settings
+  const agentModeService = ServiceFactory.getAgentModeService();
+  context.subscriptions.push({
+    dispose: () => agentModeService.dispose()
+  });
+  
+  // Checkpoints of the files agent runs change, reverted from the chat panel
+  const checkpointService = ServiceFactory.getCheckpointService();
+  context.subscriptions.push({
+    dispose: () => checkpointService.dispose()
+  });
+  
+  // Rules files are merged into the system prompt and reloaded when they change
+  const rulesService = ServiceFactory.getRulesService();
+  rulesService.start();
+  context.subscriptions.push({
+    dispose: () => rulesService.dispose()
+  });
+  
+  // Slash commands of the chat input, including the ones defined in .quest1/commands
+  const slashCommandService = ServiceFactory.getSlashCommandService();
+  slashCommandService.start();
+  context.subscriptions.push({
+    dispose: () => slashCommandService.dispose()
+  });
+  
+  // @-mentions attach files, symbols, the selection, problems and the git diff to chat messages
+  const mentionService = ServiceFactory.getMentionService();
+  mentionService.start();
+  context.subscriptions.push({
+    dispose: () => mentionService.dispose()
+  });
+  
+  // Show today's token cost in the status bar
+  context.subscriptions.push(new UsageStatusBar(ServiceFactory.getUsageTracker()));
+  
   // Register the ChatViewProvider for the sidebar
-  const chatViewProvider = new ChatViewProvider(context.extensionUri, openAIService);
+  const chatViewProvider = new ChatViewProvider(context.extensionUri, openAIService, conversationStore);
   context.subscriptions.push(
     vscode.window.registerWebviewViewProvider('quest1ChatView', chatViewProvider)
   );
@@ -102,6 +216,45 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
   
+  context.subscriptions.push(
+    vscode.commands.registerCommand('quest1CodeAssistant.selectModel', async () => {
+      console.log('Command executed: quest1CodeAssistant.selectModel');
+      await selectModel();
+    })
+  );
+  
+  // Send code from the editor context menu and CodeLens to the chat
+  registerEditorCommands(context, openAIService);
+  const codeLensProvider = new Quest1CodeLensProvider(ServiceFactory.getSymbolInformationService());
+  context.subscriptions.push(
+    codeLensProvider,
+    vscode.languages.registerCodeLensProvider({ scheme: 'file' }, codeLensProvider)
+  );
+  
+  // Fix and explain diagnostics from the lightbulb
+  context.subscriptions.push(
+    vscode.languages.registerCodeActionsProvider({ scheme: 'file' }, new Quest1CodeActionProvider(), {
+      providedCodeActionKinds: Quest1CodeActionProvider.providedCodeActionKinds
+    })
+  );
+  
+  // Edit code in place by instruction, reviewed as an inline diff
+  context.subscriptions.push(
+    new InlineEditController(
+      ServiceFactory.getOpenAIClientService(),
+      ServiceFactory.getUsageTracker(),
+      ServiceFactory.getSymbolInformationService()
+    )
+  );
+  
+  // Ghost text completions while typing
+  context.subscriptions.push(
+    vscode.languages.registerInlineCompletionItemProvider(
+      { scheme: 'file' },
+      new Quest1InlineCompletionProvider(ServiceFactory.getOpenAIClientService(), ServiceFactory.getUsageTracker())
+    )
+  );
+  
   // Register command to analyze diagnostics
   context.subscriptions.push(
     vscode.commands.registerCommand('quest1CodeAssistant.analyzeDiagnostics', async () => {
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import { ServiceFactory } from './services/ServiceFactory';
 import { OpenAIServiceFacade } from './services/OpenAIServiceFacade';
+import { AgentStreamEvent, ConversationMessage } from './services/types';
 
 /**
  * OpenAIService - Facade/Adapter for the modular OpenAI service implementation
@@ -32,12 +33,38 @@ export class OpenAIService {
   
   /**
    * Process a user query and generate a response
+   * @param token Optional token that stops the run
+   * @param checkpointRunId Optional checkpoint run that records the files the run changes
    */
-  public async processQuery(query: string): Promise<string> {
-    return this.serviceImpl.processQuery(query);
+  public async processQuery(query: string, token?: vscode.CancellationToken, checkpointRunId?: string): Promise<string> {
+    return this.serviceImpl.processQuery(query, token, checkpointRunId);
   }
   
-  // Streaming functionality has been removed to avoid issues with tool calls
+  /**
+   * Process a user query, streaming the response as it is generated
+   */
+  public async processQueryStreaming(
+    query: string,
+    onEvent: (event: AgentStreamEvent) => void,
+    token?: vscode.CancellationToken,
+    checkpointRunId?: string
+  ): Promise<string> {
+    return this.serviceImpl.processQueryStreaming(query, onEvent, token, checkpointRunId);
+  }
+  
+  /**
+   * Get the model-side conversation history
+   */
+  public getConversationHistory(): ConversationMessage[] {
+    return this.serviceImpl.getConversationHistory();
+  }
+  
+  /**
+   * Replace the model-side conversation history, e.g. to continue a saved session
+   */
+  public replaceConversationHistory(messages: ConversationMessage[]): void {
+    this.serviceImpl.replaceConversationHistory(messages);
+  }
   
   /**
    * Add a file to the context files list
@@ -1,8 +1,19 @@
 import * as vscode from 'vscode';
-import { IAgentLoopService, IOpenAIClientService, IConversationService, IMessageFormatterService, IToolCallProcessorService, IResponseGeneratorService } from './interfaces';
+import { IAgentLoopService, IOpenAIClientService, IConversationService, IMessageFormatterService, IToolCallProcessorService, IResponseGeneratorService, IPlanService, IContextBudgetService, IUsageTracker, IAgentModeService, IRulesService, IContextFilesService } from './interfaces';
 import { systemPrompt } from './systemPrompt';
 import { getToolDefinitions } from '../tools/getTools';
-import { ConversationMessage } from './types';
+import { AgentStreamEvent, ConversationMessage } from './types';
+import { TokenCounter } from './TokenCounter';
+import { LLMError, toLLMError } from './providers/LLMError';
+import { RuleFile } from './types/Rules';
+
+/**
+ * Instructions added to the system prompt until the user approves a plan
+ */
+const planningPrompt = `## PLANNING PHASE:
+  You can only use read-only tools for now. Explore the codebase as needed, then call submit_plan with the concrete steps you will take.
+  The user reviews the plan, may edit it, and you can make changes once it is approved.
+  If the request is a question that needs no changes, answer it directly without a plan.`;
 
 /**
  * Service responsible for executing the agentic loop
@@ -10,16 +21,10 @@ import { ConversationMessage } from './types';
 export class AgentLoopService implements IAgentLoopService {
   // Define constants for iteration control
   private readonly MAX_ITERATIONS = 10; 
-  private readonly MAX_PAYLOAD_SIZE = 100000; 
-  private readonly MAX_MESSAGES = 12; 
-  
-  // Define the specific tool names that require user confirmation
-  private readonly BREAKING_CHANGE_TOOLS = [
-    'create_file',
-    'update_file',
-    'create_directory',
-    'run_command'
-  ];
+  // Times the history is compacted per run when the provider reports a context overflow
+  private readonly MAX_COMPACTIONS = 3;
+  // Size older tool outputs are cut down to when the history is compacted
+  private readonly COMPACTED_TOOL_RESULT_TOKENS = 500;
 
   constructor(
     private readonly openAIClient: IOpenAIClientService,
@@ -27,16 +32,56 @@ export class AgentLoopService implements IAgentLoopService {
     private readonly messageFormatter: IMessageFormatterService,
     private readonly toolCallProcessor: IToolCallProcessorService,
     private readonly responseGenerator: IResponseGeneratorService,
+    private readonly agentModes: IAgentModeService,
+    private readonly planService: IPlanService,
+    private readonly contextBudget: IContextBudgetService,
+    private readonly usageTracker: IUsageTracker,
+    private readonly rules: IRulesService,
+    private readonly contextFiles: IContextFilesService,
     private readonly projectPath: string
   ) {}
 
   /**
    * Execute the agent loop to process a user query
    * @param query The user query to process
+   * @param token Optional token that stops the run
+   * @param checkpointRunId Optional checkpoint run that records the files the run changes
    * @returns The final response
    */
-  public async executeAgentLoop(query: string): Promise<string> {
-    console.log('Processing query with agentic loop:', query);
+  public async executeAgentLoop(query: string, token?: vscode.CancellationToken, checkpointRunId?: string): Promise<string> {
+    return this.runAgentLoop(query, undefined, token, checkpointRunId);
+  }
+
+  /**
+   * Execute the agent loop with streaming responses
+   * Each turn is streamed, and tools run between the streamed turns
+   * @param query The user query to process
+   * @param onEvent Callback that receives content deltas and tool activity as they happen
+   * @param token Optional token that stops the run
+   * @param checkpointRunId Optional checkpoint run that records the files the run changes
+   * @returns The final complete response
+   */
+  public async executeStreamingAgentLoop(
+    query: string,
+    onEvent: (event: AgentStreamEvent) => void,
+    token?: vscode.CancellationToken,
+    checkpointRunId?: string
+  ): Promise<string> {
+    return this.runAgentLoop(query, onEvent, token, checkpointRunId);
+  }
+
+  /**
+   * Run the agentic loop, streaming each turn when an event callback is given
+   * When the token is cancelled, the in-flight request is aborted, running tools are stopped
+   * and a vscode.CancellationError is thrown once the history is consistent again
+   */
+  private async runAgentLoop(
+    query: string,
+    onEvent?: (event: AgentStreamEvent) => void,
+    token?: vscode.CancellationToken,
+    checkpointRunId?: string
+  ): Promise<string> {
+    console.log(`Processing query with ${onEvent ? 'streaming ' : ''}agentic loop:`, query);
     
     console.log('Project Path in AgentLoopService:', this.projectPath);
 
@@ -47,11 +92,15 @@ export class AgentLoopService implements IAgentLoopService {
 
 
     
+    // Abort the in-flight request when the run is cancelled
+    const abortController = new AbortController();
+    const cancellationListener = token?.onCancellationRequested(() => abortController.abort());
+    
     try {
     
     const validation = this.openAIClient.validateApiKey();
     if (!validation.valid) {
-      throw new Error(`OpenAI API key validation failed: ${validation.message}`);
+      throw new Error(`LLM provider configuration is invalid: ${validation.message}`);
     }
     
     this.conversationService.addToConversationHistory({
@@ -59,7 +108,29 @@ export class AgentLoopService implements IAgentLoopService {
       content: query
     });
     
-    const tools = getToolDefinitions();
+    this.usageTracker.startRun();
+    
+    // The mode when the run starts decides the tools and instructions the model gets
+    const mode = this.agentModes.getRunMode();
+    console.log(`Agent mode: ${mode}`);
+    
+    // In plan-first mode the model can only read until the user approves its plan;
+    // Ask mode makes no changes, so there is nothing to plan. A run can override the setting, e.g. a diagnostic fix
+    const planFirst = mode !== 'ask' && (this.agentModes.getRunPlanFirst() ?? this.isPlanFirstEnabled());
+    let planning = planFirst;
+    if (planFirst) {
+      this.planService.clear();
+    }
+    const planningTools = getToolDefinitions(tool =>
+      tool.sideEffect === 'read' || tool.sideEffect === 'network' || tool.definition.function.name === 'submit_plan'
+    );
+    const executionTools = getToolDefinitions(tool =>
+      this.agentModes.isAvailable(tool.sideEffect, mode) &&
+      tool.definition.function.name !== 'submit_plan' &&
+      (planFirst || tool.definition.function.name !== 'update_plan_step')
+    );
+    const modePrompt = this.agentModes.getPrompt(mode);
+    let appliedRules: RuleFile[] = [];
     
     let loopComplete = false;
     let finalResponse = '';
@@ -68,89 +139,132 @@ export class AgentLoopService implements IAgentLoopService {
     
     let forceExitLoop = false;
     
-    while (!loopComplete && !forceExitLoop && iterations < this.MAX_ITERATIONS) {
+    let compactions = 0;
+    let sanitizedHistory = false;
+    // Notes about compaction, shown before the response when it isn't streamed
+    const notices: string[] = [];
+    
+    while (!loopComplete && !forceExitLoop && !token?.isCancellationRequested && iterations < this.MAX_ITERATIONS) {
+      // Stop before the next request once a cost budget is used up
+      const budgetMessage = this.usageTracker.checkBudget();
+      if (budgetMessage) {
+        console.warn(`Stopping the agentic loop: ${budgetMessage}`);
+        finalResponse = `${budgetMessage} I stopped before making another request. Raise the budget in the settings to continue.`;
+        loopComplete = true;
+        break;
+      }
+      
       iterations++;
       console.log(`Starting agentic iteration #${iterations}`);
       
       try {
+        // Subdirectory rules join in once the run works with files in their directory
+        const rules = await this.getApplicableRules();
+        if (rules.map(rule => rule.path).join('\n') !== appliedRules.map(rule => rule.path).join('\n')) {
+          appliedRules = rules;
+          this.rules.reportApplied(rules);
+        }
+        const rulesPrompt = this.rules.buildPrompt(rules);
+        const modeSystemPrompt = rulesPrompt
+          ? `${withProjectPathSystemPrompt}\n\n${rulesPrompt}\n\n${modePrompt}`
+          : `${withProjectPathSystemPrompt}\n\n${modePrompt}`;
+        
         const conversationHistory = this.conversationService.getConversationHistory();
+        const tools = planning ? planningTools : executionTools;
+        const currentSystemPrompt = planning
+          ? `${modeSystemPrompt}\n\n${planningPrompt}`
+          : modeSystemPrompt;
+        
+        // Fit the history into what the context window leaves after the reply, system prompt and tools
+        const budget = this.contextBudget.createBudget(this.openAIClient.getModel(), currentSystemPrompt, tools);
+        const fittedHistory = this.messageFormatter.fitHistoryToBudget(conversationHistory, budget);
         
         let messages = this.messageFormatter.formatMessages(
-          withProjectPathSystemPrompt, 
-          conversationHistory, 
+          currentSystemPrompt, 
+          fittedHistory.messages, 
           lastError
         );
         
-        const shouldSummarize = this.messageFormatter.shouldSummarizeHistory(
-          conversationHistory,
-          this.MAX_PAYLOAD_SIZE,
-          this.MAX_MESSAGES
-        );
-        
-        if (shouldSummarize && conversationHistory.length > 2) {
-          console.log('Payload size too large, summarizing conversation history');
+        if (fittedHistory.overflowCount > 0) {
+          console.log(`Summarizing ${fittedHistory.overflowCount} messages that don't fit in the context window`);
           
-          // Keep last 4 messages and summarize the rest
-          const latestMessages = conversationHistory.slice(-4);
-          const olderMessages = conversationHistory.slice(0, -4);
+          const summaryMessage = this.createSummaryMessage(
+            await this.summarizeMessages(conversationHistory.slice(0, fittedHistory.overflowCount))
+          );
           
-          if (olderMessages.length > 0) {
-            const originalHistory = [...this.conversationService.getConversationHistory()];
-            
-            this.conversationService.clearConversationHistory();
-            olderMessages.forEach(msg => this.conversationService.addToConversationHistory(msg));
-            
-            const summary = await this.conversationService.summarizeConversationHistory(2000);
-
-            this.conversationService.clearConversationHistory();
-            originalHistory.forEach(msg => this.conversationService.addToConversationHistory(msg));
-            
-            messages = [
-              { role: 'system', content: withProjectPathSystemPrompt },
-              { role: 'assistant', content: typeof summary === 'string' ? summary : (summary as any).content || JSON.stringify(summary) },
-              ...latestMessages
-            ];
-            
-            console.log('Conversation history summarized successfully');
-          }
+          // Keep the summary in the history, so the next iterations reuse it instead of summarizing again
+          this.conversationService.replaceConversationHistory([
+            summaryMessage,
+            ...this.conversationService.getConversationHistory().slice(fittedHistory.overflowCount)
+          ]);
+          
+          messages = this.messageFormatter.formatMessages(
+            currentSystemPrompt,
+            [summaryMessage, ...fittedHistory.messages],
+            lastError
+          );
+          
+          console.log('Conversation history summarized successfully');
         }
         
-        let response;
+        this.contextBudget.reportUsage(budget, new TokenCounter(budget.model).countMessages(messages.slice(1)));
+        
         let assistantMessage;
         
         try {
-          response = await this.openAIClient.createChatCompletion(
-            messages as any,
-            tools,
-            'gpt-4o',
-            0.8
-          );
+          assistantMessage = await this.requestAssistantMessage(messages, tools, onEvent, abortController.signal);
+        } catch (requestError) {
+          if (token?.isCancellationRequested) {
+            throw requestError;
+          }
           
-          assistantMessage = response.choices[0].message;
-        } catch (apiError) {
-          console.error('Critical error in OpenAI API call:', apiError);
+          const error = toLLMError(requestError);
+          console.error(`Model request failed (${error.kind}):`, error);
           
-          if (apiError instanceof Error && (
-            apiError.message.includes('400 Invalid parameter') ||
-            apiError.message.includes('messages with role \'tool\' must be a response') ||
-            apiError.message.includes('invalid_request_error')
-          )) {
-            console.error('Detected OpenAI API validation error, breaking loop immediately');
-            
-            console.log('Sanitizing conversation history to remove invalid tool messages');
-            this.conversationService.sanitizeToolMessages();
-            
-            this.conversationService.clearConversationHistory();
-            console.log('Cleared conversation history due to OpenAI API validation error');
-            
-            forceExitLoop = true;
-            loopComplete = true;
-            finalResponse = `I encountered an API error while processing your request. The conversation has been reset. Please try your question again with simpler instructions.`;
-            
-            break;
+          // Transient errors have already been retried by the client
+          switch (error.kind) {
+            case 'context_overflow': {
+              // The token estimate was too optimistic: compact the history and repeat the iteration
+              const notice = compactions < this.MAX_COMPACTIONS
+                ? await this.compactHistory(this.openAIClient.getModel())
+                : undefined;
+              if (notice) {
+                compactions++;
+                notices.push(notice);
+                onEvent?.({ type: 'notice', message: notice });
+                iterations--;
+                continue;
+              }
+              break;
+            }
+              
+            case 'invalid_request':
+              // Usually a tool call without its result; repair the history once before giving up
+              if (!sanitizedHistory) {
+                sanitizedHistory = true;
+                const removed = this.conversationService.sanitizeToolMessages();
+                if (removed > 0) {
+                  console.log(`Removed ${removed} invalid tool messages, retrying the request`);
+                  iterations--;
+                  continue;
+                }
+              }
+              // Last resort: without a valid history every following request fails too
+              this.conversationService.clearConversationHistory();
+              break;
+              
+            case 'configuration':
+              // The history isn't the problem; keep it for when the settings are fixed
+              break;
+              
+            case 'unknown':
+              throw error;
           }
           
-          throw apiError;
+          forceExitLoop = true;
+          loopComplete = true;
+          finalResponse = this.describeLLMError(error);
+          break;
         }
         
         this.conversationService.addToConversationHistory(assistantMessage as any);
@@ -172,7 +286,7 @@ export class AgentLoopService implements IAgentLoopService {
           console.log('Done tool detected, breaking the agentic loop');
           
           try {
-            const { results } = await this.toolCallProcessor.processToolCalls([doneToolCall], []);
+            const { results } = await this.toolCallProcessor.processToolCalls([doneToolCall]);
             
             results.forEach(result => {
               this.conversationService.addToConversationHistory({
@@ -192,36 +306,55 @@ export class AgentLoopService implements IAgentLoopService {
           continue;
         }
 
-        const { requiresUserConfirmation, results } = await this.toolCallProcessor.processToolCalls(
+        // Tools with side effects are approved by the user before they run
+        const { results } = await this.toolCallProcessor.processToolCalls(
           assistantMessage.tool_calls,
-          this.BREAKING_CHANGE_TOOLS
+          token,
+          checkpointRunId
         );
         
-        if (requiresUserConfirmation) {
-          const response = await vscode.window.showWarningMessage(
-            'The AI assistant is requesting permission to make changes to your workspace. Approve?',
-            'Approve', 'Deny'
-          );
-          
-          if (response !== 'Approve') {
-            throw new Error('User denied permission for the assistant to make changes');
-          }
-        }
-        
         results.forEach(result => {
           this.conversationService.addToConversationHistory({
             role: 'tool',
             tool_call_id: result.tool_call_id,
             content: result.output
           });
+          
+          const toolCall = assistantMessage.tool_calls.find((call: any) => call.id === result.tool_call_id);
+          onEvent?.({
+            type: 'toolResult',
+            name: toolCall?.function.name || 'unknown',
+            success: result.success,
+            rejected: result.rejected
+          });
         });
         
-        const failedToolCall = results.find(result => !result.success);
+        // Execution starts once the user has approved the plan
+        if (planning && assistantMessage.tool_calls.some((call: any) => call.function.name === 'submit_plan')) {
+          const plan = this.planService.getPlan();
+          if (plan?.status === 'approved') {
+            planning = false;
+            // The execution phase gets the full iteration budget
+            iterations = 0;
+          } else if (plan?.status === 'rejected' && !token?.isCancellationRequested) {
+            finalResponse = 'Plan rejected. Tell me what to change and I will propose a new plan.';
+            loopComplete = true;
+            continue;
+          }
+        }
+        
+        // Rejected calls are already explained to the model in their tool results
+        const failedToolCall = results.find(result => !result.success && !result.rejected);
         if (failedToolCall) {
           lastError = new Error(`Tool execution failed: ${failedToolCall.output}`);
         }
         
       } catch (error) {
+        if (token?.isCancellationRequested) {
+          console.log(`Agentic iteration #${iterations} stopped by cancellation`);
+          break;
+        }
+        
         console.error(`Error in agentic iteration #${iterations}:`, error);
         lastError = error instanceof Error ? error : new Error(String(error));
         
@@ -229,6 +362,12 @@ export class AgentLoopService implements IAgentLoopService {
       }
     }
     
+    if (token?.isCancellationRequested) {
+      console.log('Agentic loop cancelled by the user');
+      this.completePendingToolCalls();
+      throw new vscode.CancellationError();
+    }
+    
     if (!loopComplete) {
       console.warn('Agentic loop exceeded maximum iterations without completion');
       finalResponse = `I'm sorry, but I encountered an issue while processing your request. ${
@@ -236,45 +375,186 @@ export class AgentLoopService implements IAgentLoopService {
       }`;
     }
     
+    // Streamed runs have shown the notices as they happened
+    if (!onEvent && notices.length > 0) {
+      finalResponse = `${notices.map(notice => `*${notice}*`).join('\n\n')}\n\n${finalResponse}`;
+    }
+    
     return finalResponse;
     } catch (error) {
       console.error('Critical error in executeAgentLoop:', error);
+      throw error;
+    } finally {
+      cancellationListener?.dispose();
+    }
+  }
+  
+  /**
+   * Make the conversation history smaller after the provider reported a context overflow
+   * Older tool outputs are shortened first; when there are none left to shorten, the older
+   * turns are replaced by a summary, and as a last resort the latest tool outputs are shortened.
+   * @returns A note describing what was compacted, or undefined if nothing could be compacted
+   */
+  private async compactHistory(model: string): Promise<string | undefined> {
+    const history = this.conversationService.getConversationHistory();
+    const counter = new TokenCounter(model);
+    
+    // The results of the latest tool calls are what the model is working on
+    let latestToolCallIndex = history.length;
+    for (let i = history.length - 1; i >= 0; i--) {
+      if (history[i].role === 'assistant' && history[i].tool_calls?.length) {
+        latestToolCallIndex = i;
+        break;
+      }
+    }
+    
+    const olderResults = this.shrinkToolResults(counter, index => index < latestToolCallIndex);
+    if (olderResults) {
+      return `The conversation exceeded the model's context window, so ${olderResults.count} older tool outputs were shortened (${olderResults.savedTokens} tokens saved).`;
+    }
+    
+    // Summarize the older half, keeping whole turns: the kept messages start at a user message
+    let split = Math.floor(history.length / 2);
+    while (split > 0 && history[split].role !== 'user') {
+      split--;
+    }
+    if (split >= 2) {
+      const summary = await this.summarizeMessages(history.slice(0, split));
+      this.conversationService.replaceConversationHistory([
+        this.createSummaryMessage(summary),
+        ...this.conversationService.getConversationHistory().slice(split)
+      ]);
+      return `The conversation exceeded the model's context window, so the ${split} oldest messages were replaced by a summary.`;
+    }
+    
+    const latestResults = this.shrinkToolResults(counter, () => true);
+    if (latestResults) {
+      return `The conversation exceeded the model's context window, so ${latestResults.count} tool outputs were shortened (${latestResults.savedTokens} tokens saved).`;
+    }
+    
+    return undefined;
+  }
+  
+  /**
+   * Shorten the tool outputs in the history that are larger than COMPACTED_TOOL_RESULT_TOKENS
+   * @param include Selects the outputs to shorten by their index in the history
+   * @returns How many outputs were shortened and the tokens saved, or undefined if none were
+   */
+  private shrinkToolResults(counter: TokenCounter, include: (index: number) => boolean): { count: number; savedTokens: number } | undefined {
+    let count = 0;
+    let savedTokens = 0;
+    
+    const history = this.conversationService.getConversationHistory().map((message, index) => {
+      if (message.role !== 'tool' || !include(index)) {
+        return message;
+      }
+      const tokens = counter.count(message.content);
+      if (tokens <= this.COMPACTED_TOOL_RESULT_TOKENS) {
+        return message;
+      }
       
-      const isOpenAIError = error instanceof Error && (
-        error.message.includes('OPENAI_API_ERROR') || 
-        error.message.includes('400 Invalid parameter') ||
-        error.message.includes('messages with role \'tool\' must be a response') ||
-        error.message.includes('invalid_request_error') ||
-        (error.name === 'OpenAIApiValidationError')
-      );
-      
-      if (isOpenAIError) {
-        console.error('Detected OpenAI API validation error, returning friendly error message');
+      const content = counter.truncate(message.content, this.COMPACTED_TOOL_RESULT_TOKENS);
+      count++;
+      savedTokens += tokens - counter.count(content);
+      return { ...message, content };
+    });
+    
+    if (count === 0) {
+      return undefined;
+    }
+    this.conversationService.replaceConversationHistory(history);
+    return { count, savedTokens };
+  }
+  
+  /**
+   * Summarize a part of the conversation history with the model and record the usage of the request
+   * The summary is generated from the given messages only, the history itself is left as it was
+   */
+  private async summarizeMessages(messages: ConversationMessage[]): Promise<string> {
+    const summary = await this.conversationService.summarizeMessages(messages, 2000);
+    this.usageTracker.recordUsage(this.openAIClient.getModel(), summary.usage);
+    return summary.content;
+  }
+  
+  /**
+   * The message that stands in for the summarized part of the history
+   * It's a user message, as the conversation has to start with one
+   */
+  private createSummaryMessage(summary: string): ConversationMessage {
+    return { role: 'user', content: `Summary of the earlier conversation:\n${summary}` };
+  }
+  
+  /**
+   * Explain a model request failure the loop can't recover from
+   */
+  private describeLLMError(error: LLMError): string {
+    switch (error.kind) {
+      case 'rate_limit':
+        return `The model provider's rate limit was exceeded and retrying didn't help (${error.message}). Wait a moment, then send a message to continue.`;
+      case 'server':
+      case 'network':
+        return `The model provider could not be reached (${error.message}). Check your connection or the provider's status, then send a message to continue.`;
+      case 'auth':
+        return `The model provider rejected the credentials (${error.message}). Check the API key, permissions and billing of the provider in the Quest1 settings.`;
+      case 'context_overflow':
+        return `The conversation no longer fits in the model's context window, even after summarizing it (${error.message}). Start a new conversation or set quest1CodeAssistant.contextWindow to the model's real context window.`;
+      case 'invalid_request':
+        return `The model provider rejected the request (${error.message}). The conversation history has been reset so the next message can succeed.`;
+      case 'configuration':
+        return `The model provider rejected the request (${error.message}). Check the model and provider in the Quest1 settings, then send a message to continue.`;
+      default:
+        return `The model request failed: ${error.message}`;
+    }
+  }
+  
+  /**
+   * Check the quest1CodeAssistant.planFirst setting
+   */
+  private isPlanFirstEnabled(): boolean {
+    return vscode.workspace.getConfiguration('quest1CodeAssistant').get<boolean>('planFirst', true);
+  }
 
-        try {
+  /**
+   * Get the rules for the files the run involves: the context files and the file open in the editor
+   * Rules files that fail to load are left out rather than failing the request
+   */
+  private async getApplicableRules(): Promise<RuleFile[]> {
+    const paths = this.contextFiles.getContextFiles();
+    const activeEditor = vscode.window.activeTextEditor;
+    if (activeEditor?.document.uri.scheme === 'file') {
+      paths.push(activeEditor.document.uri.fsPath);
+    }
 
-          const conversationHistory = this.conversationService.getConversationHistory();
-          console.log(`Current conversation history has ${conversationHistory.length} messages`);
-          
-          console.log('Sanitizing conversation history to remove invalid tool messages');
-          const sanitizedCount = this.conversationService.sanitizeToolMessages();
-          console.log(`Sanitized ${sanitizedCount} tool messages from conversation history`);
-          
-          this.conversationService.clearConversationHistory();
-          console.log('Cleared conversation history due to OpenAI API validation error');
-          
-          this.conversationService.addToConversationHistory({
-            role: 'system',
-            content: 'The conversation has been reset due to an API error.'
-          });
-        } catch (clearError) {
-          console.error('Error while trying to clear conversation history:', clearError);
-        }
-        
-        return `I encountered an issue while processing your request. The conversation has been reset to prevent further errors. Please try your question again.`;
+    try {
+      return await this.rules.getApplicableRules(paths);
+    } catch (error) {
+      console.error('Error getting the rules for the request:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Add a cancelled result for every tool call in the history that has no response yet,
+   * so the next request doesn't fail on an orphaned tool call
+   */
+  private completePendingToolCalls(): void {
+    const history = this.conversationService.getConversationHistory();
+    const answeredIds = new Set(
+      history.filter(message => message.role === 'tool').map(message => message.tool_call_id)
+    );
+    
+    const lastToolCallMessage = [...history].reverse().find(
+      message => message.role === 'assistant' && message.tool_calls && message.tool_calls.length > 0
+    );
+    
+    for (const toolCall of lastToolCallMessage?.tool_calls || []) {
+      if (!answeredIds.has(toolCall.id)) {
+        this.conversationService.addToConversationHistory({
+          role: 'tool',
+          tool_call_id: toolCall.id,
+          content: 'The user stopped the run before this tool call was executed.'
+        });
       }
-      
-      throw error;
     }
   }
   
@@ -288,255 +568,85 @@ export class AgentLoopService implements IAgentLoopService {
   }
   
   /**
-   * Execute the agent loop with streaming responses
-   * @param query The user query to process
-   * @param onChunk Callback function that receives each chunk of the streaming response
-   * @returns The final complete response
+   * Request the next assistant message, streaming it when an event callback is given
+   * @returns The assistant message in the OpenAI chat completions format
    */
-  public async executeStreamingAgentLoop(query: string, onChunk: (chunk: string) => void): Promise<string> {
-    console.log('Processing query with streaming agentic loop:', query);
+  private async requestAssistantMessage(
+    messages: any[],
+    tools: any[],
+    onEvent?: (event: AgentStreamEvent) => void,
+    signal?: AbortSignal
+  ): Promise<any> {
+    const model = this.openAIClient.getModel();
     
-    // Validate API key
-    const validation = this.openAIClient.validateApiKey();
-    if (!validation.valid) {
-      throw new Error(`OpenAI API key validation failed: ${validation.message}`);
+    if (!onEvent) {
+      const response = await this.openAIClient.createChatCompletion(
+        messages,
+        tools,
+        model,
+        0.8,
+        signal
+      );
+      this.usageTracker.recordUsage(model, response.usage);
+      return response.choices[0].message;
     }
     
-    // Add user query to conversation history
-    this.conversationService.addToConversationHistory({
-      role: 'user',
-      content: query
-    });
-    
-    // Get tool definitions
-    const tools = getToolDefinitions();
+    const assistantMessageBuffer: any = { role: 'assistant', content: '', tool_calls: [] };
+    let usage: any;
     
-    // Initialize variables
-    let finalResponse = '';
-    let lastError: Error | null = null;
-    let streamedContent = '';
-    let assistantMessageBuffer: any = { content: '', tool_calls: [] };
-    
-    try {
-      const conversationHistory = this.conversationService.validateAndSanitizeConversationHistory();
-      
-      let messages = this.messageFormatter.formatMessages(
-        systemPrompt, 
-        conversationHistory, 
-        lastError
-      );
-      
-      const shouldSummarize = this.messageFormatter.shouldSummarizeHistory(
-        conversationHistory,
-        this.MAX_PAYLOAD_SIZE,
-        this.MAX_MESSAGES
-      );
-      
-      if (shouldSummarize && conversationHistory.length > 2) {
-        console.log('Payload size too large, summarizing conversation history');
-        
-        const latestMessages = conversationHistory.slice(-2);  
-        const olderMessages = conversationHistory.slice(0, -2);
-        
-        if (olderMessages.length > 0) {
-          const originalHistory = [...this.conversationService.getConversationHistory()];
-          
-          this.conversationService.clearConversationHistory();
-          olderMessages.forEach(msg => this.conversationService.addToConversationHistory(msg));
-          
-          const summary = await this.conversationService.summarizeConversationHistory(2000);
-          
-          this.conversationService.clearConversationHistory();
-          originalHistory.forEach((msg: ConversationMessage) => this.conversationService.addToConversationHistory(msg));
-          
-          messages = [
-            { role: 'system', content: systemPrompt },
-            { role: 'assistant', content: typeof summary === 'string' ? summary : (summary as any).content || JSON.stringify(summary) },
-            ...latestMessages
-          ];
-          
-          console.log('Conversation history summarized successfully');
+    await this.openAIClient.createStreamingChatCompletion(
+      messages,
+      tools,
+      model,
+      0.8,
+      (chunk) => {
+        // Usage arrives with the last chunk, which has no choices
+        if (chunk.usage) {
+          usage = chunk.usage;
         }
-      }
-      
-      console.log('Before validation - Messages to be sent to OpenAI:', JSON.stringify(messages, null, 2));
-      
-      messages = messages.map((msg, index) => {
-        let updatedMsg = { ...msg };
         
-        if (!updatedMsg.role) {
-          console.error(`Message at index ${index} is missing the required 'role' property:`, updatedMsg);
-          
-          let inferredRole = 'user';
-          
-          if (updatedMsg.tool_call_id) {
-            inferredRole = 'tool';
-          }
-          else if (updatedMsg.tool_calls) {
-            inferredRole = 'assistant';
-          }
-          else if (updatedMsg.content && typeof updatedMsg.content === 'string' && 
-                  (updatedMsg.content.startsWith('You are') || updatedMsg.content.includes('system instructions'))) {
-            inferredRole = 'system';
-          }
-          
-          console.log(`Fixed missing role for message ${index} - assigned role: '${inferredRole}'`);
-          updatedMsg.role = inferredRole;
+        const delta = chunk.choices?.[0]?.delta;
+        if (!delta) {
+          return;
         }
         
-        if (updatedMsg.tool_calls && Array.isArray(updatedMsg.tool_calls) && updatedMsg.tool_calls.length === 0) {
-          console.log(`Removing empty tool_calls array from message at index ${index}`);
-          delete updatedMsg.tool_calls;
+        if (delta.content) {
+          assistantMessageBuffer.content += delta.content;
+          onEvent({ type: 'content', delta: delta.content });
         }
         
-        return updatedMsg;
-      });
-      
-      console.log('After validation - Messages being sent to OpenAI:', JSON.stringify(messages, null, 2));
-      
-      await this.openAIClient.createStreamingChatCompletion(
-        messages as any,
-        tools,
-        'gpt-4o',
-        0.8,
-        (chunk) => {
-          if (chunk.choices && chunk.choices[0]) {
-            const delta = chunk.choices[0].delta;
-            
-            if (delta.content) {
-              console.log('[AgentLoopService] Received content delta:', delta.content);
-              streamedContent += delta.content;
-              assistantMessageBuffer.content += delta.content;
-
-              console.log('[AgentLoopService] Sending chunk to callback');
-              onChunk(delta.content);
-            } else {
-              console.log('[AgentLoopService] Received delta without content:', JSON.stringify(delta));
-            }
-            
-            if (delta.tool_calls && delta.tool_calls.length > 0) {
-              this.processToolCallChunk(delta.tool_calls, assistantMessageBuffer);
-            }
-          }
+        if (delta.tool_calls && delta.tool_calls.length > 0) {
+          this.processToolCallChunk(delta.tool_calls, assistantMessageBuffer, onEvent);
         }
+      },
+      signal
+    );
+    
+    this.usageTracker.recordUsage(model, usage);
+    
+    if (assistantMessageBuffer.tool_calls.length === 0) {
+      delete assistantMessageBuffer.tool_calls;
+    } else {
+      // The index is only needed to merge deltas, the API rejects it in requests
+      assistantMessageBuffer.tool_calls = assistantMessageBuffer.tool_calls.map(
+        ({ index, ...toolCall }: any) => toolCall
       );
-      
-      // Check if we have complete tool calls before adding to conversation history
-      let hasCompletedToolCalls = assistantMessageBuffer.tool_calls && 
-                               assistantMessageBuffer.tool_calls.length > 0 && 
-                               assistantMessageBuffer.tool_calls.every((tc: any) => 
-                                 tc.function && tc.function.name && tc.function.arguments);
-      
-      console.log(`[AgentLoopService] Tool calls status: ${hasCompletedToolCalls ? 'Complete' : 'Incomplete'}`);
-      if (hasCompletedToolCalls) {
-        console.log('[AgentLoopService] Tool calls detected, buffering response...');
-      } else {
-        console.log('[AgentLoopService] Adding assistant message to conversation history');
-        this.conversationService.addToConversationHistory(assistantMessageBuffer as any);
-      }
-      
-      if (hasCompletedToolCalls) {
-        const doneToolCall = assistantMessageBuffer.tool_calls.find(
-          (toolCall: { function: { name: string } }) => toolCall.function.name === 'done'
-        );
-        
-        if (doneToolCall) {
-          console.log('Done tool detected, completing the streaming loop');
-          
-          try {
-
-            console.log('[AgentLoopService] Adding assistant message with tool_calls to conversation history');
-            this.conversationService.addToConversationHistory(assistantMessageBuffer as any);
-            
-            const { results } = await this.toolCallProcessor.processToolCalls([doneToolCall], []);
-            
-            console.log('[AgentLoopService] Adding tool responses to conversation history');
-            results.forEach(result => {
-              this.conversationService.addToConversationHistory({
-                role: 'tool',
-                tool_call_id: result.tool_call_id,
-                content: result.output
-              });
-            });
-            
-            finalResponse = results[0]?.output || this.responseGenerator.generateFinalResponse(assistantMessageBuffer);
-          } catch (error) {
-            console.error('Error processing done tool:', error);
-            throw error;
-          }
-        } else {
-          const { requiresUserConfirmation, results } = await this.toolCallProcessor.processToolCalls(
-            assistantMessageBuffer.tool_calls,
-            this.BREAKING_CHANGE_TOOLS
-          );
-          
-          if (requiresUserConfirmation) {
-            const response = await vscode.window.showWarningMessage(
-              'The AI assistant is requesting permission to make changes to your workspace. Approve?',
-              'Approve', 'Deny'
-            );
-            
-            if (response !== 'Approve') {
-              throw new Error('User denied permission for the assistant to make changes');
-            }
-          }
-          
-          console.log('[AgentLoopService] Adding assistant message with tool_calls to conversation history');
-          this.conversationService.addToConversationHistory(assistantMessageBuffer as any);
-          
-          console.log('[AgentLoopService] Adding tool responses to conversation history');
-          results.forEach(result => {
-            this.conversationService.addToConversationHistory({
-              role: 'tool',
-              tool_call_id: result.tool_call_id,
-              content: result.output
-            });
-          });
-          
-          finalResponse = streamedContent;
-        }
-      } else {
-        finalResponse = this.responseGenerator.generateFinalResponse(assistantMessageBuffer);
-      }
-      
-      return finalResponse;
-    } catch (error) {
-      console.error('Error in streaming agent loop:', error);
-      
-      if (error instanceof Error && (
-        error.message.includes('400 Invalid parameter') ||
-        error.message.includes('messages with role \'tool\' must be a response to a preceeding message') ||
-        error.message.includes('invalid_request_error')
-      )) {
-        console.error('Detected OpenAI API validation error, aborting agent loop');
-        
-        try {
-          const conversationHistory = this.conversationService.getConversationHistory();
-          console.log(`Current conversation history has ${conversationHistory.length} messages`);
-          
-          this.conversationService.clearConversationHistory();
-          console.log('Cleared conversation history due to OpenAI API validation error');
-        } catch (clearError) {
-          console.error('Error while trying to clear conversation history:', clearError);
-        }
-        
-        return `I encountered an issue while processing your request. The conversation has been reset to prevent further errors. Please try your question again.`;
-      }
-      
-      throw error;
     }
+    
+    return assistantMessageBuffer;
   }
   
   /**
    * Process tool call chunks and merge them into the assistant message buffer
    * @param toolCallChunks The new tool call chunks
    * @param assistantMessageBuffer The buffer to update
+   * @param onEvent Callback notified when a new tool call starts streaming
    */
-  private processToolCallChunk(toolCallChunks: any[], assistantMessageBuffer: any): void {
-    if (!assistantMessageBuffer.tool_calls) {
-      assistantMessageBuffer.tool_calls = [];
-    }
-    
+  private processToolCallChunk(
+    toolCallChunks: any[],
+    assistantMessageBuffer: any,
+    onEvent: (event: AgentStreamEvent) => void
+  ): void {
     for (const chunk of toolCallChunks) {
       let toolCall = assistantMessageBuffer.tool_calls.find(
         (tc: any) => tc.index === chunk.index
@@ -554,7 +664,11 @@ export class AgentLoopService implements IAgentLoopService {
       
       if (chunk.function) {
         if (chunk.function.name) {
+          const isNewCall = !toolCall.function.name;
           toolCall.function.name += chunk.function.name;
+          if (isNewCall) {
+            onEvent({ type: 'toolCall', name: toolCall.function.name });
+          }
         }
         if (chunk.function.arguments) {
           toolCall.function.arguments += chunk.function.arguments;
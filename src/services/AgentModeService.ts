@@ -0,0 +1,174 @@
+import * as vscode from 'vscode';
+import { IAgentModeService } from './interfaces';
+import { AgentMode, AGENT_MODES, ToolCallDecision } from './types/AgentMode';
+import { ToolRegistry, ToolSideEffect } from '../tools/ToolRegistry';
+
+/**
+ * Side effects of the tools each mode offers to the model
+ */
+const MODE_TOOLS: Record<AgentMode, ToolSideEffect[]> = {
+  ask: ['read', 'network'],
+  edit: ['read', 'network', 'plan', 'write'],
+  autonomous: ['read', 'network', 'plan', 'write', 'exec']
+};
+
+const MODE_LABELS: Record<AgentMode, string> = {
+  ask: 'Ask',
+  edit: 'Edit',
+  autonomous: 'Autonomous'
+};
+
+/**
+ * Instructions added to the system prompt in each mode
+ */
+const MODE_PROMPTS: Record<AgentMode, string> = {
+  ask: `## MODE: ASK
+  You are in Ask mode. Answer questions and explain code using the read-only tools available to you.
+  You cannot change files or run commands. If the user asks for changes, describe them and suggest switching to Edit or Autonomous mode.`,
+  edit: `## MODE: EDIT
+  You are in Edit mode. You can read and change files; the user approves each change before it is applied.
+  You cannot run commands. When a build or test run is needed, tell the user which commands to run.`,
+  autonomous: `## MODE: AUTONOMOUS
+  You are in Autonomous mode. File changes are applied without asking the user, so work carefully and verify your changes.
+  Commands are checked against the user's command policy: some run immediately, others need approval and some are blocked.
+  Build and test your changes with run_command.`
+};
+
+// Shell syntax that could chain an allowed command with another one; the shell runs
+// each line as its own command, so newlines and other control characters count too
+const SHELL_OPERATOR_PATTERN = /[;&|`<>\x00-\x1f\x7f]|\$\(/;
+
+/**
+ * Keeps the agent mode selected in the chat panel and decides what tool calls may do in it
+ * The mode is stored in the quest1CodeAssistant.agentMode setting.
+ */
+export class AgentModeService implements IAgentModeService {
+  private readonly onDidChangeModeEmitter = new vscode.EventEmitter<AgentMode>();
+  public readonly onDidChangeMode: vscode.Event<AgentMode> = this.onDidChangeModeEmitter.event;
+  private readonly disposables: vscode.Disposable[] = [];
+  // Mode of the running request when it differs from the selected one
+  private runMode: AgentMode | undefined;
+  // Whether the running request plans first, when it overrides the planFirst setting
+  private runPlanFirst: boolean | undefined;
+
+  constructor(private readonly registry: ToolRegistry) {
+    this.disposables.push(
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('quest1CodeAssistant.agentMode')) {
+          this.onDidChangeModeEmitter.fire(this.getMode());
+        }
+      })
+    );
+  }
+
+  public getMode(): AgentMode {
+    const mode = vscode.workspace.getConfiguration('quest1CodeAssistant').get<AgentMode>('agentMode', 'edit');
+    return AGENT_MODES.includes(mode) ? mode : 'edit';
+  }
+
+  /**
+   * Get the mode the running request uses: the one it was started with, or the selected one
+   */
+  public getRunMode(): AgentMode {
+    return this.runMode || this.getMode();
+  }
+
+  /**
+   * Get whether the running request plans first, or undefined to follow the planFirst setting
+   */
+  public getRunPlanFirst(): boolean | undefined {
+    return this.runPlanFirst;
+  }
+
+  /**
+   * Run the next requests in a mode without changing the selected one, e.g. for code actions
+   * @param mode The mode, or undefined to go back to the selected mode
+   * @param options.planFirst Whether the requests plan first, instead of the planFirst setting
+   */
+  public setRunMode(mode: AgentMode | undefined, options: { planFirst?: boolean } = {}): void {
+    this.runMode = mode;
+    this.runPlanFirst = options.planFirst;
+  }
+
+  public async setMode(mode: AgentMode): Promise<void> {
+    const config = vscode.workspace.getConfiguration('quest1CodeAssistant');
+    // Update the workspace value if one is set there, otherwise it would shadow the change
+    const target = config.inspect('agentMode')?.workspaceValue !== undefined
+      ? vscode.ConfigurationTarget.Workspace
+      : vscode.ConfigurationTarget.Global;
+    await config.update('agentMode', mode, target);
+  }
+
+  public getLabel(mode: AgentMode): string {
+    return MODE_LABELS[mode];
+  }
+
+  public getPrompt(mode: AgentMode): string {
+    return MODE_PROMPTS[mode];
+  }
+
+  /**
+   * Check if the model is offered tools with a side effect in a mode
+   */
+  public isAvailable(sideEffect: ToolSideEffect, mode: AgentMode): boolean {
+    return MODE_TOOLS[mode].includes(sideEffect);
+  }
+
+  /**
+   * Decide whether a tool call runs, needs approval or is blocked in the current mode
+   * Calls are checked against the mode at the time they run, so switching to a more
+   * restrictive mode also applies to the rest of a running turn
+   */
+  public checkToolCall(toolName: string, args: any): ToolCallDecision {
+    const tool = this.registry.get(toolName);
+    if (!tool) {
+      // Unknown tools fail when they are executed
+      return { permission: 'allow' };
+    }
+
+    const mode = this.getRunMode();
+    if (!this.isAvailable(tool.sideEffect, mode)) {
+      const modes = AGENT_MODES.filter(candidate => this.isAvailable(tool.sideEffect, candidate)).map(candidate => MODE_LABELS[candidate]);
+      return {
+        permission: 'deny',
+        reason: `${toolName} is not available in ${MODE_LABELS[mode]} mode. The user can enable it by switching to ${modes.join(' or ')} mode.`
+      };
+    }
+
+    if (mode === 'autonomous' && tool.sideEffect === 'exec') {
+      return this.checkCommand(String(args?.CommandLine || ''));
+    }
+
+    // Outside autonomous mode, changes are approved by the user
+    return { permission: mode !== 'autonomous' && this.registry.requiresApproval(toolName) ? 'ask' : 'allow' };
+  }
+
+  public dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+
+  /**
+   * Check a command line against the quest1CodeAssistant.commandPolicy settings
+   * Denied fragments block the command anywhere in the line; allowed prefixes only apply
+   * to single commands, anything else needs approval
+   */
+  private checkCommand(commandLine: string): ToolCallDecision {
+    const config = vscode.workspace.getConfiguration('quest1CodeAssistant');
+    const denied = config.get<string[]>('commandPolicy.deny', []);
+    const allowed = config.get<string[]>('commandPolicy.allow', []);
+    const command = commandLine.trim().replace(/\s+/g, ' ');
+
+    const deniedFragment = denied.find(fragment => fragment && command.includes(fragment));
+    if (deniedFragment) {
+      return {
+        permission: 'deny',
+        reason: `The command policy blocks commands containing "${deniedFragment}", so this command was not run. Find another way or ask the user to run it.`
+      };
+    }
+
+    // Operators are looked for in the command line as it will run, before its whitespace is normalized
+    const isAllowed = !SHELL_OPERATOR_PATTERN.test(commandLine) &&
+      allowed.some(prefix => prefix && (command === prefix || command.startsWith(`${prefix} `)));
+    return { permission: isAllowed ? 'allow' : 'ask' };
+  }
+}
@@ -0,0 +1,379 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ICheckpointService } from './interfaces';
+import { Checkpoint, FileSnapshot, RevertChange } from './types/Checkpoint';
+
+/**
+ * URI scheme used to serve the content files had at a checkpoint to the diff editor
+ */
+const CHECKPOINT_CONTENT_SCHEME = 'quest1-checkpoint';
+
+// Oldest checkpoints are removed beyond this number
+const MAX_CHECKPOINTS = 50;
+// Larger files are recorded without their content and can't be restored
+const MAX_SNAPSHOT_FILE_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Takes a checkpoint of the workspace before an agent run changes it, and reverts runs
+ * Before each write tool runs, the files and directories it touches are snapshotted, so a
+ * run can be undone even when it created new files and directories. Checkpoints are stored
+ * in the extension's workspace storage and survive restarts.
+ */
+export class CheckpointService implements ICheckpointService {
+  private readonly directory: string;
+  // Runs being recorded by id; chat panels can run at the same time
+  private readonly runs = new Map<string, { id: string; conversationId: string; label: string; checkpoint?: Checkpoint }>();
+  private readonly previewContents = new Map<string, string>();
+  private previewCounter = 0;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(storageUri: vscode.Uri) {
+    this.directory = path.join(storageUri.fsPath, 'checkpoints');
+
+    // Serve the earlier contents as read-only documents for the revert preview
+    this.disposables.push(
+      vscode.workspace.registerTextDocumentContentProvider(CHECKPOINT_CONTENT_SCHEME, {
+        provideTextDocumentContent: (uri: vscode.Uri) => this.previewContents.get(uri.toString()) ?? ''
+      })
+    );
+  }
+
+  /**
+   * Start recording the changes of an agent run
+   * @param conversationId The conversation the run belongs to
+   * @param label The query that started the run
+   * @returns The id of the run, which is also the id of its checkpoint
+   */
+  public startRun(conversationId: string, label: string): string {
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+    this.runs.set(id, { id, conversationId, label });
+    return id;
+  }
+
+  /**
+   * Stop recording a run
+   * @returns The id of the run's checkpoint, or undefined if the run changed nothing
+   */
+  public endRun(runId: string): string | undefined {
+    const checkpoint = this.runs.get(runId)?.checkpoint;
+    this.runs.delete(runId);
+    return checkpoint?.id;
+  }
+
+  /**
+   * Record the current state of the files and directories a tool of a run is about to change
+   * The run's checkpoint is created on its first write. Changes made outside a run aren't recorded.
+   */
+  public async snapshot(runId: string, toolName: string, paths: string[]): Promise<void> {
+    const run = this.runs.get(runId);
+    if (!run) {
+      return;
+    }
+
+    if (!run.checkpoint) {
+      run.checkpoint = {
+        id: run.id,
+        conversationId: run.conversationId,
+        label: run.label,
+        createdAt: Date.now(),
+        snapshots: []
+      };
+      console.log(`Creating checkpoint ${run.id} before the first change of the run`);
+    }
+
+    const files: FileSnapshot[] = [];
+    for (const target of paths.map(filePath => path.resolve(filePath))) {
+      // Directories the tool creates for a new file are removed with it on revert
+      for (const directory of await this.findMissingAncestors(target)) {
+        files.push({ path: directory, kind: 'missing' });
+      }
+      files.push(await this.captureState(target));
+    }
+
+    run.checkpoint.snapshots.push({ toolName, timestamp: Date.now(), files });
+    await this.save(run.checkpoint);
+  }
+
+  /**
+   * Work out what reverting checkpoints changes in the workspace
+   * Each path gets the state it had before the earliest of the checkpoints touched it
+   * @param ids Ids of the checkpoints to revert
+   */
+  public async getRevertChanges(ids: string[]): Promise<RevertChange[]> {
+    const checkpoints = await this.loadAll(ids);
+
+    const earliest = new Map<string, FileSnapshot>();
+    for (const checkpoint of checkpoints.sort((a, b) => a.createdAt - b.createdAt)) {
+      for (const snapshot of checkpoint.snapshots) {
+        for (const file of snapshot.files) {
+          if (!earliest.has(file.path)) {
+            earliest.set(file.path, file);
+          }
+        }
+      }
+    }
+
+    const changes: RevertChange[] = [];
+    for (const snapshot of earliest.values()) {
+      const current = await this.captureState(snapshot.path);
+
+      if (snapshot.kind === 'missing') {
+        if (current.kind !== 'missing') {
+          changes.push({ path: snapshot.path, kind: current.kind, action: 'delete', snapshot });
+        }
+      } else if (current.kind === 'missing') {
+        changes.push({ path: snapshot.path, kind: snapshot.kind, action: 'recreate', snapshot });
+      } else if (snapshot.kind === 'file' && current.kind === 'file' && snapshot.content !== current.content) {
+        changes.push({ path: snapshot.path, kind: 'file', action: 'restore', snapshot });
+      }
+    }
+
+    return changes.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * Show what reverting checkpoints will restore and ask the user to confirm
+   * Picking a file opens a diff of its current content and the content it will get back.
+   * @param title Describes the revert, e.g. "Revert this run"
+   * @returns The changes to make, or undefined if there are none or the user cancelled
+   */
+  public async previewRevert(ids: string[], title: string): Promise<RevertChange[] | undefined> {
+    const changes = await this.getRevertChanges(ids);
+    if (changes.length === 0) {
+      vscode.window.showInformationMessage('There is nothing to revert: the files are already as they were before.');
+      return undefined;
+    }
+
+    const confirmItem: vscode.QuickPickItem = {
+      label: `$(discard) Revert ${changes.length} change${changes.length === 1 ? '' : 's'}`,
+      alwaysShow: true
+    };
+    const changeItems = changes.map(change => ({
+      label: `${change.kind === 'directory' ? '$(folder)' : '$(file)'} ${vscode.workspace.asRelativePath(change.path)}`,
+      description: this.describeChange(change),
+      change
+    }));
+
+    const picker = vscode.window.createQuickPick<vscode.QuickPickItem & { change?: RevertChange }>();
+    picker.title = title;
+    picker.placeholder = 'Pick a file to compare it with the content it gets back, or confirm the revert';
+    picker.items = [confirmItem, { label: '', kind: vscode.QuickPickItemKind.Separator }, ...changeItems];
+    // Keep the picker open while diffs are shown
+    picker.ignoreFocusOut = true;
+
+    const previewUris: vscode.Uri[] = [];
+    const confirmed = await new Promise<boolean>(resolve => {
+      picker.onDidAccept(async () => {
+        const [item] = picker.selectedItems;
+        if (item === confirmItem) {
+          resolve(true);
+          picker.hide();
+        } else if (item?.change) {
+          previewUris.push(...await this.showDiff(item.change));
+        }
+      });
+      picker.onDidHide(() => resolve(false));
+      picker.show();
+    });
+    picker.dispose();
+    previewUris.forEach(uri => this.previewContents.delete(uri.toString()));
+
+    return confirmed ? changes : undefined;
+  }
+
+  /**
+   * Revert checkpoints and remove them, since they no longer describe the workspace
+   * @returns A summary of what was reverted
+   */
+  public async revert(ids: string[], changes: RevertChange[]): Promise<string> {
+    const failures: string[] = [];
+    const attempt = async (change: RevertChange, action: () => Promise<void>) => {
+      try {
+        await action();
+      } catch (error) {
+        console.error(`Error reverting ${change.path}:`, error);
+        failures.push(`${vscode.workspace.asRelativePath(change.path)}: ${error instanceof Error ? error.message : error}`);
+      }
+    };
+
+    // Directories first so restored files have a parent, and shallow directories before deep ones
+    const byDepth = (a: RevertChange, b: RevertChange) => a.path.split(path.sep).length - b.path.split(path.sep).length;
+    for (const change of changes.filter(c => c.action === 'recreate' && c.kind === 'directory').sort(byDepth)) {
+      await attempt(change, () => fs.promises.mkdir(change.path, { recursive: true }).then(() => undefined));
+    }
+
+    for (const change of changes.filter(c => c.kind === 'file' && c.action !== 'delete')) {
+      await attempt(change, async () => {
+        if (change.snapshot.content === undefined) {
+          throw new Error('the file was too large to keep in the checkpoint');
+        }
+        await fs.promises.mkdir(path.dirname(change.path), { recursive: true });
+        await fs.promises.writeFile(change.path, Buffer.from(change.snapshot.content, 'base64'));
+      });
+    }
+
+    for (const change of changes.filter(c => c.action === 'delete' && c.kind === 'file')) {
+      await attempt(change, () => fs.promises.unlink(change.path));
+    }
+
+    // Deepest directories first; directories that still contain other files are kept
+    for (const change of changes.filter(c => c.action === 'delete' && c.kind === 'directory').sort((a, b) => byDepth(b, a))) {
+      await attempt(change, async () => {
+        if ((await fs.promises.readdir(change.path)).length > 0) {
+          throw new Error('the directory is not empty, so it was kept');
+        }
+        await fs.promises.rmdir(change.path);
+      });
+    }
+
+    await Promise.all(ids.map(id => fs.promises.unlink(this.getFilePath(id)).catch(() => undefined)));
+
+    const reverted = changes.length - failures.length;
+    console.log(`Reverted ${reverted} changes of checkpoints ${ids.join(', ')}`);
+    return failures.length === 0
+      ? `Reverted ${reverted} change${reverted === 1 ? '' : 's'}.`
+      : `Reverted ${reverted} of ${changes.length} changes. These could not be reverted:\n${failures.map(failure => `- ${failure}`).join('\n')}`;
+  }
+
+  public dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+
+  private describeChange(change: RevertChange): string {
+    switch (change.action) {
+      case 'restore':
+        return 'restore the earlier content';
+      case 'recreate':
+        return change.kind === 'directory' ? 'create again' : 'restore the deleted file';
+      case 'delete':
+        return change.kind === 'directory' ? 'remove (created by the run, only if empty)' : 'delete (created by the run)';
+    }
+  }
+
+  /**
+   * Open a diff of a file's current content and the content reverting gives it
+   * @returns The preview URIs to release when the preview is closed
+   */
+  private async showDiff(change: RevertChange): Promise<vscode.Uri[]> {
+    if (change.kind !== 'file') {
+      return [];
+    }
+
+    const current = change.action === 'recreate'
+      ? this.registerPreviewContent(change.path, '')
+      : vscode.Uri.file(change.path);
+    const reverted = this.registerPreviewContent(
+      change.path,
+      change.action === 'delete' ? '' : Buffer.from(change.snapshot.content || '', 'base64').toString('utf8')
+    );
+
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      current,
+      reverted,
+      `${path.basename(change.path)} (current ↔ after revert)`,
+      { preview: true, preserveFocus: true }
+    );
+    return [current, reverted];
+  }
+
+  private registerPreviewContent(filePath: string, content: string): vscode.Uri {
+    this.previewCounter++;
+    const uri = vscode.Uri.from({
+      scheme: CHECKPOINT_CONTENT_SCHEME,
+      path: filePath,
+      query: `preview=${this.previewCounter}`
+    });
+    this.previewContents.set(uri.toString(), content);
+    return uri;
+  }
+
+  /**
+   * Read the current state of a path
+   */
+  private async captureState(filePath: string): Promise<FileSnapshot> {
+    try {
+      const stats = await fs.promises.stat(filePath);
+      if (stats.isDirectory()) {
+        return { path: filePath, kind: 'directory' };
+      }
+      if (stats.size > MAX_SNAPSHOT_FILE_SIZE) {
+        return { path: filePath, kind: 'file' };
+      }
+      return { path: filePath, kind: 'file', content: (await fs.promises.readFile(filePath)).toString('base64') };
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+      return { path: filePath, kind: 'missing' };
+    }
+  }
+
+  /**
+   * List the directories above a path that don't exist yet, outermost first
+   */
+  private async findMissingAncestors(filePath: string): Promise<string[]> {
+    const missing: string[] = [];
+    let directory = path.dirname(filePath);
+    while (directory !== path.dirname(directory) && !fs.existsSync(directory)) {
+      missing.unshift(directory);
+      directory = path.dirname(directory);
+    }
+    return missing;
+  }
+
+  private async loadAll(ids: string[]): Promise<Checkpoint[]> {
+    const checkpoints: Checkpoint[] = [];
+    for (const id of ids) {
+      // The checkpoint of a running run may not be saved yet
+      const running = this.runs.get(id)?.checkpoint;
+      if (running) {
+        checkpoints.push(running);
+        continue;
+      }
+      try {
+        checkpoints.push(JSON.parse(await fs.promises.readFile(this.getFilePath(id), 'utf8')) as Checkpoint);
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') {
+          console.error(`Error loading checkpoint ${id}:`, error);
+        }
+      }
+    }
+    return checkpoints;
+  }
+
+  private async save(checkpoint: Checkpoint): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+
+    // Write to a temporary file first so a crash can't leave a half-written checkpoint
+    const filePath = this.getFilePath(checkpoint.id);
+    const tempPath = `${filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(checkpoint), 'utf8');
+    await fs.promises.rename(tempPath, filePath);
+
+    await this.pruneOldCheckpoints();
+  }
+
+  /**
+   * Remove the oldest checkpoints beyond MAX_CHECKPOINTS
+   */
+  private async pruneOldCheckpoints(): Promise<void> {
+    const files = (await fs.promises.readdir(this.directory)).filter(file => file.endsWith('.json'));
+    if (files.length <= MAX_CHECKPOINTS) {
+      return;
+    }
+
+    const withTimes = await Promise.all(files.map(async file => ({
+      file,
+      mtime: (await fs.promises.stat(path.join(this.directory, file))).mtimeMs
+    })));
+    const oldest = withTimes.sort((a, b) => a.mtime - b.mtime).slice(0, files.length - MAX_CHECKPOINTS);
+    await Promise.all(oldest.map(({ file }) => fs.promises.unlink(path.join(this.directory, file)).catch(() => undefined)));
+  }
+
+  private getFilePath(id: string): string {
+    // Ids are generated by startRun, but guard against path traversal from stored messages
+    return path.join(this.directory, `${path.basename(id)}.json`);
+  }
+}
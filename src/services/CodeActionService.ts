@@ -1,7 +1,7 @@
 import * as vscode from 'vscode';
 import { ICodeActionService } from './interfaces';
 import { DiagnosticInfo } from './DiagnosticsService';
-import { CodeActionInfo } from './types/CodeActionInfo';
+import { CodeActionInfo, QUEST1_CODE_ACTION_KIND } from './types/CodeActionInfo';
 
 /**
  * Service for getting and applying code actions from the language server
@@ -111,31 +111,62 @@ export class CodeActionService implements ICodeActionService {
     _filePath: string, 
     codeAction: CodeActionInfo
   ): Promise<boolean> {
-    if (!codeAction.edit || !codeAction.edit.changes) {
-      console.warn('Code action does not have an edit:', codeAction);
+    if ((!codeAction.edit || !codeAction.edit.changes) && !codeAction.command) {
+      console.warn('Code action has neither an edit nor a command:', codeAction);
       return false;
     }
     
+    // Commands edit documents themselves, so the changed documents are collected as they change
+    const changedUris = new Map<string, vscode.Uri>();
+    const changeListener = vscode.workspace.onDidChangeTextDocument(event => {
+      if (event.document.uri.scheme === 'file' && event.contentChanges.length > 0) {
+        changedUris.set(event.document.uri.toString(), event.document.uri);
+      }
+    });
+    
     try {
-      const workspaceEdit = new vscode.WorkspaceEdit();
+      let success = true;
       
-      Object.entries(codeAction.edit.changes).forEach(([fileUri, edits]) => {
-        const uri = vscode.Uri.parse(fileUri);
+      if (codeAction.edit && codeAction.edit.changes) {
+        const workspaceEdit = new vscode.WorkspaceEdit();
         
-        edits.forEach(edit => {
-          const range = new vscode.Range(
-            edit.range.startLine,
-            edit.range.startCharacter,
-            edit.range.endLine,
-            edit.range.endCharacter
-          );
+        Object.entries(codeAction.edit.changes).forEach(([fileUri, edits]) => {
+          const uri = vscode.Uri.parse(fileUri);
+          changedUris.set(uri.toString(), uri);
           
-          workspaceEdit.replace(uri, range, edit.newText);
+          edits.forEach(edit => {
+            const range = new vscode.Range(
+              edit.range.startLine,
+              edit.range.startCharacter,
+              edit.range.endLine,
+              edit.range.endCharacter
+            );
+            
+            workspaceEdit.replace(uri, range, edit.newText);
+          });
         });
-      });
+        
+        // Apply the edit
+        success = await vscode.workspace.applyEdit(workspaceEdit);
+      }
       
-      // Apply the edit
-      const success = await vscode.workspace.applyEdit(workspaceEdit);
+      // Some actions are implemented as commands that run after (or instead of) the edit
+      if (success && codeAction.command) {
+        await vscode.commands.executeCommand(
+          codeAction.command.command,
+          ...(codeAction.command.arguments || [])
+        );
+      }
+      
+      // Save the edited documents so tools reading from disk see the fix
+      if (success) {
+        for (const uri of changedUris.values()) {
+          const document = await vscode.workspace.openTextDocument(uri);
+          if (document.isDirty) {
+            await document.save();
+          }
+        }
+      }
       
       if (success) {
         console.log(`Successfully applied code action: ${codeAction.title}`);
@@ -147,6 +178,8 @@ export class CodeActionService implements ICodeActionService {
     } catch (error) {
       console.error('Error applying code action:', error);
       return false;
+    } finally {
+      changeListener.dispose();
     }
   }
   
@@ -213,7 +246,8 @@ export class CodeActionService implements ICodeActionService {
    * @returns Converted code actions
    */
   private convertCodeActions(codeActions: vscode.CodeAction[]): CodeActionInfo[] {
-    return codeActions.map(action => {
+    const languageActions = codeActions.filter(action => !action.kind || !QUEST1_CODE_ACTION_KIND.contains(action.kind));
+    return languageActions.map(action => {
       const result: CodeActionInfo = {
         title: action.title,
         kind: action.kind?.value || '',
@@ -239,6 +273,14 @@ export class CodeActionService implements ICodeActionService {
         });
       }
       
+      if (action.command) {
+        result.command = {
+          command: action.command.command,
+          title: action.command.title,
+          arguments: action.command.arguments
+        };
+      }
+      
       if (action.diagnostics && action.diagnostics.length > 0) {
         result.source = action.diagnostics[0].source || undefined;
       }
@@ -0,0 +1,458 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ICodeIndexService, IEmbedder, ISymbolInformationService } from './interfaces';
+import { CodeChunk, CodeIndexData, CodeSearchResult, IndexedFile } from './types/CodeIndex';
+import { chunkFile } from './search/CodeChunker';
+import { createEmbedder } from './search/createEmbedder';
+import { countTerms, scoreBm25, TermCounts } from './search/bm25';
+import { dot } from './search/vectors';
+
+// Bump when the chunking or the on-disk format changes to rebuild existing indexes
+const INDEX_VERSION = 1;
+
+const CODE_FILE_GLOB = '**/*.{ts,tsx,js,jsx,mjs,cjs,py,java,c,cpp,h,hpp,cs,go,rs,rb,php,kt,swift,scala,vue,svelte}';
+const EXCLUDED_DIRECTORIES = ['node_modules', '.git', 'out', 'dist', 'build'];
+const EXCLUDE_GLOB = `**/{${EXCLUDED_DIRECTORIES.join(',')}}/**`;
+
+const MAX_FILES = 5000;
+// Larger files are usually generated or minified
+const MAX_FILE_SIZE = 300 * 1024;
+// Text sent to the embedder per chunk
+const MAX_EMBEDDING_CHARS = 8000;
+
+// Chunks sent to the embedder at a time, so a failure keeps the vectors computed so far
+const EMBEDDING_BATCH_SIZE = 256;
+// Time before an embedder that failed is tried again, doubled with each failure in a row
+const EMBEDDER_RETRY_MS = 30 * 1000;
+const MAX_EMBEDDER_RETRY_MS = 30 * 60 * 1000;
+
+const SAVE_DELAY_MS = 2000;
+const REINDEX_DELAY_MS = 1000;
+
+/**
+ * Index of the workspace code used by codebase_search
+ * Files are split into chunks by symbol, embedded with the configured embedder and
+ * stored in the extension's workspace storage. The index is built in the background
+ * when the extension starts, and kept up to date through file system watchers.
+ * Searches are ranked by keywords until the index and its vectors are ready.
+ */
+export class CodeIndexService implements ICodeIndexService {
+  private readonly indexPath: string;
+  private files = new Map<string, IndexedFile>();
+  private embedderId = '';
+  private indexing: Promise<void> | undefined;
+  private indexed = false;
+  private disposed = false;
+
+  // Chunks still missing a vector are embedded in the background
+  private embedding: Promise<void> | undefined;
+  private failedEmbedderId: string | undefined;
+  private embedderFailures = 0;
+  private embedderRetryTime = 0;
+
+  // Files changed on disk since the last update
+  private readonly pendingFiles = new Set<string>();
+  private reindexTimer: NodeJS.Timeout | undefined;
+  private saveTimer: NodeJS.Timeout | undefined;
+
+  // Serializes index updates and searches
+  private queue: Promise<unknown> = Promise.resolve();
+
+  // Keyword statistics are computed on demand and not persisted
+  private readonly termCounts = new WeakMap<CodeChunk, TermCounts>();
+
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(
+    storageUri: vscode.Uri,
+    private readonly symbolService: ISymbolInformationService
+  ) {
+    this.indexPath = path.join(storageUri.fsPath, 'code-index.json');
+  }
+
+  /**
+   * Start building the index in the background and watching the workspace for file changes
+   */
+  public start(): void {
+    const watcher = vscode.workspace.createFileSystemWatcher(CODE_FILE_GLOB);
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate(uri => this.queueFile(uri.fsPath)),
+      watcher.onDidChange(uri => this.queueFile(uri.fsPath)),
+      watcher.onDidDelete(uri => this.queueFile(uri.fsPath))
+    );
+    this.startIndexing();
+  }
+
+  /**
+   * Find the indexed code chunks most relevant to a query
+   * Ranks by embedding similarity, or by BM25 keyword score when no embedder is
+   * configured, the embedder fails or the chunks are still being embedded.
+   * While the index is being built, only the files indexed so far are searched.
+   */
+  public async search(query: string, directories: string[] = [], limit: number = 10): Promise<CodeSearchResult[]> {
+    this.startIndexing();
+    if (!this.indexed) {
+      // Don't wait for the whole workspace to be indexed, which can take longer than the tool may run
+      const candidates = this.getCandidates(directories);
+      return this.rank(candidates, this.scoreByKeywords(query, candidates), limit);
+    }
+
+    return this.runExclusive(async () => {
+      // Apply changes the watchers reported since the last update
+      if (this.pendingFiles.size > 0) {
+        await this.reindexPendingFiles();
+      }
+
+      const candidates = this.getCandidates(directories);
+      if (candidates.length === 0) {
+        return [];
+      }
+
+      const embedder = createEmbedder();
+      const scores = (embedder && await this.scoreByEmbedding(query, candidates, embedder))
+        || this.scoreByKeywords(query, candidates);
+      return this.rank(candidates, scores, limit);
+    });
+  }
+
+  public dispose(): void {
+    this.disposed = true;
+    if (this.reindexTimer) {
+      clearTimeout(this.reindexTimer);
+    }
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      // Don't lose the last changes
+      this.save().catch(error => console.error('Error saving the code index:', error));
+    }
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+
+  private startIndexing(): void {
+    if (!this.indexing) {
+      this.indexing = this.runExclusive(() => this.buildIndex())
+        .catch(error => console.error('Error building the code index:', error));
+    }
+  }
+
+  /**
+   * Load the saved index, bring it up to date with the workspace and start embedding its chunks
+   */
+  private async buildIndex(): Promise<void> {
+    await this.load();
+    await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Window, title: 'Quest1: indexing codebase' },
+      () => this.syncWorkspace()
+    );
+    this.indexed = true;
+
+    const embedder = createEmbedder();
+    if (embedder) {
+      this.embedInBackground(embedder);
+    }
+  }
+
+  private getCandidates(directories: string[]): { file: IndexedFile; chunk: CodeChunk }[] {
+    const roots = directories.map(directory => path.resolve(directory));
+    const candidates: { file: IndexedFile; chunk: CodeChunk }[] = [];
+    for (const file of this.files.values()) {
+      if (roots.length === 0 || roots.some(root => isInside(file.filePath, root))) {
+        candidates.push(...file.chunks.map(chunk => ({ file, chunk })));
+      }
+    }
+    return candidates;
+  }
+
+  /**
+   * Score the candidates by similarity to the query's embedding
+   * @returns The scores, or undefined when keyword ranking has to be used instead
+   */
+  private async scoreByEmbedding(
+    query: string,
+    candidates: { file: IndexedFile; chunk: CodeChunk }[],
+    embedder: IEmbedder
+  ): Promise<number[] | undefined> {
+    if (this.isBackingOff(embedder)) {
+      return undefined;
+    }
+
+    const missing = embedder.id === this.embedderId
+      ? candidates.filter(({ chunk }) => !chunk.vector).length
+      : candidates.length;
+    if (missing > 0) {
+      const embedding = this.embedInBackground(embedder);
+      // A few changed files are embedded right away; a whole workspace is left to the background
+      if (missing > EMBEDDING_BATCH_SIZE) {
+        return undefined;
+      }
+      await embedding;
+      if (embedder.id !== this.embedderId || candidates.some(({ chunk }) => !chunk.vector)) {
+        return undefined;
+      }
+    }
+
+    try {
+      const [queryVector] = await embedder.embed([query]);
+      return candidates.map(({ chunk }) => dot(queryVector, chunk.vector!));
+    } catch (error) {
+      this.recordEmbedderFailure(embedder, error);
+      return undefined;
+    }
+  }
+
+  private scoreByKeywords(query: string, candidates: { file: IndexedFile; chunk: CodeChunk }[]): number[] {
+    return scoreBm25(query, candidates.map(({ file, chunk }) => this.getTermCounts(file, chunk)));
+  }
+
+  private rank(candidates: { file: IndexedFile; chunk: CodeChunk }[], scores: number[], limit: number): CodeSearchResult[] {
+    return candidates
+      .map(({ file, chunk }, index) => ({
+        filePath: file.filePath,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+        symbol: chunk.symbol,
+        text: chunk.text,
+        score: scores[index]
+      }))
+      .filter(result => result.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Index new and modified files and drop deleted ones
+   */
+  private async syncWorkspace(): Promise<void> {
+    const uris = await vscode.workspace.findFiles(CODE_FILE_GLOB, EXCLUDE_GLOB, MAX_FILES);
+    const workspaceFiles = new Set(uris.map(uri => uri.fsPath));
+
+    let changed = false;
+    for (const filePath of Array.from(this.files.keys())) {
+      if (!workspaceFiles.has(filePath)) {
+        this.files.delete(filePath);
+        changed = true;
+      }
+    }
+
+    for (const filePath of workspaceFiles) {
+      if (await this.indexFile(filePath)) {
+        changed = true;
+      }
+    }
+
+    console.log(`Code index contains ${this.files.size} files`);
+    if (changed) {
+      this.scheduleSave();
+    }
+  }
+
+  private async reindexPendingFiles(): Promise<void> {
+    const filePaths = Array.from(this.pendingFiles);
+    this.pendingFiles.clear();
+
+    let changed = false;
+    for (const filePath of filePaths) {
+      if (await this.indexFile(filePath)) {
+        changed = true;
+      }
+    }
+    if (changed) {
+      this.scheduleSave();
+    }
+  }
+
+  /**
+   * Chunk a file if it changed since it was indexed, or remove it if it no longer exists
+   * Vectors are computed later, in one batch, by the next search
+   * @returns Whether the index changed
+   */
+  private async indexFile(filePath: string): Promise<boolean> {
+    let stats: fs.Stats;
+    try {
+      stats = await fs.promises.stat(filePath);
+    } catch {
+      return this.files.delete(filePath);
+    }
+
+    if (!stats.isFile() || stats.size > MAX_FILE_SIZE) {
+      return this.files.delete(filePath);
+    }
+
+    const existing = this.files.get(filePath);
+    if (existing && existing.mtime === stats.mtimeMs) {
+      return false;
+    }
+
+    try {
+      const content = await fs.promises.readFile(filePath, 'utf8');
+      const symbols = await this.symbolService.getSymbolsInFile(filePath).catch(() => []);
+      this.files.set(filePath, {
+        filePath,
+        mtime: stats.mtimeMs,
+        chunks: chunkFile(content, symbols)
+      });
+      return true;
+    } catch (error) {
+      console.error(`Error indexing ${filePath}:`, error);
+      return this.files.delete(filePath);
+    }
+  }
+
+  /**
+   * Embed the chunks that have no vector yet, unless that is already under way
+   * @returns A promise that resolves when the embedding ends, whether or not it succeeded
+   */
+  private embedInBackground(embedder: IEmbedder): Promise<void> {
+    if (!this.embedding && !this.isBackingOff(embedder)) {
+      this.embedding = this.embedMissingChunks(embedder)
+        .then(() => {
+          this.embedderFailures = 0;
+        })
+        .catch(error => this.recordEmbedderFailure(embedder, error))
+        .finally(() => {
+          this.embedding = undefined;
+        });
+    }
+    return this.embedding || Promise.resolve();
+  }
+
+  /**
+   * Whether an embedder failed recently and shouldn't be tried again yet
+   */
+  private isBackingOff(embedder: IEmbedder): boolean {
+    return embedder.id === this.failedEmbedderId && Date.now() < this.embedderRetryTime;
+  }
+
+  private recordEmbedderFailure(embedder: IEmbedder, error: unknown): void {
+    this.embedderFailures = embedder.id === this.failedEmbedderId ? this.embedderFailures + 1 : 1;
+    this.failedEmbedderId = embedder.id;
+    const delay = Math.min(EMBEDDER_RETRY_MS * 2 ** (this.embedderFailures - 1), MAX_EMBEDDER_RETRY_MS);
+    this.embedderRetryTime = Date.now() + delay;
+    console.error(`Embedding with ${embedder.id} failed, using keyword search for the next ${Math.round(delay / 1000)}s:`, error);
+  }
+
+  /**
+   * Embed the chunks that have no vector yet, re-embedding everything if the embedder changed
+   * Vectors are kept batch by batch, so a failure doesn't lose the ones already computed.
+   */
+  private async embedMissingChunks(embedder: IEmbedder): Promise<void> {
+    if (embedder.id !== this.embedderId) {
+      for (const file of this.files.values()) {
+        file.chunks.forEach(chunk => delete chunk.vector);
+      }
+      this.embedderId = embedder.id;
+    }
+
+    const missing: { file: IndexedFile; chunk: CodeChunk }[] = [];
+    for (const file of this.files.values()) {
+      missing.push(...file.chunks.filter(chunk => !chunk.vector).map(chunk => ({ file, chunk })));
+    }
+    if (missing.length === 0) {
+      return;
+    }
+
+    console.log(`Embedding ${missing.length} code chunks with ${embedder.id}`);
+    for (let start = 0; start < missing.length && !this.disposed; start += EMBEDDING_BATCH_SIZE) {
+      const batch = missing.slice(start, start + EMBEDDING_BATCH_SIZE);
+      const vectors = await embedder.embed(batch.map(({ file, chunk }) => this.getEmbeddingText(file, chunk)));
+      batch.forEach(({ chunk }, index) => {
+        chunk.vector = vectors[index];
+      });
+      this.scheduleSave();
+    }
+  }
+
+  private getEmbeddingText(file: IndexedFile, chunk: CodeChunk): string {
+    const header = [vscode.workspace.asRelativePath(file.filePath), chunk.symbol].filter(Boolean).join(' ');
+    return `${header}\n${chunk.text}`.slice(0, MAX_EMBEDDING_CHARS);
+  }
+
+  private getTermCounts(file: IndexedFile, chunk: CodeChunk): TermCounts {
+    let counts = this.termCounts.get(chunk);
+    if (!counts) {
+      counts = countTerms(`${path.basename(file.filePath)} ${chunk.symbol || ''}\n${chunk.text}`);
+      this.termCounts.set(chunk, counts);
+    }
+    return counts;
+  }
+
+  private queueFile(filePath: string): void {
+    // Changes reported while the index is built are applied once it is done
+    if (filePath.split(path.sep).some(segment => EXCLUDED_DIRECTORIES.includes(segment))) {
+      return;
+    }
+
+    this.pendingFiles.add(filePath);
+    if (this.reindexTimer) {
+      clearTimeout(this.reindexTimer);
+    }
+    this.reindexTimer = setTimeout(() => {
+      this.reindexTimer = undefined;
+      this.runExclusive(() => this.reindexPendingFiles())
+        .catch(error => console.error('Error updating the code index:', error));
+    }, REINDEX_DELAY_MS);
+  }
+
+  private runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Read the index saved by a previous session, ignoring it if it is outdated or unreadable
+   */
+  private async load(): Promise<void> {
+    try {
+      const data = JSON.parse(await fs.promises.readFile(this.indexPath, 'utf8')) as CodeIndexData;
+      if (data.version !== INDEX_VERSION) {
+        return;
+      }
+      this.embedderId = data.embedderId;
+      this.files = new Map(data.files.map(file => [file.filePath, file]));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error('Error loading the code index:', error);
+      }
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.disposed) {
+      return;
+    }
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.save().catch(error => console.error('Error saving the code index:', error));
+    }, SAVE_DELAY_MS);
+  }
+
+  private async save(): Promise<void> {
+    const data: CodeIndexData = {
+      version: INDEX_VERSION,
+      embedderId: this.embedderId,
+      files: Array.from(this.files.values())
+    };
+
+    await fs.promises.mkdir(path.dirname(this.indexPath), { recursive: true });
+
+    // Rounding the vectors keeps the file small without noticeably changing the ranking
+    const json = JSON.stringify(data, (key, value) =>
+      key === 'vector' ? (value as number[]).map(component => Math.round(component * 10000) / 10000) : value
+    );
+
+    // Write to a temporary file first so a crash can't leave a half-written index
+    const tempPath = `${this.indexPath}.tmp`;
+    await fs.promises.writeFile(tempPath, json, 'utf8');
+    await fs.promises.rename(tempPath, this.indexPath);
+  }
+}
+
+function isInside(filePath: string, directory: string): boolean {
+  return filePath === directory || filePath.startsWith(directory.endsWith(path.sep) ? directory : directory + path.sep);
+}
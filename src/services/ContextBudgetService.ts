@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+import { IContextBudgetService } from './interfaces';
+import { ContextBudget, ContextUsage } from './types/ContextBudget';
+import { TokenCounter } from './TokenCounter';
+import { readProviderSettings } from './providers/ProviderFactory';
+
+/**
+ * Context window sizes by model name, first match wins
+ */
+const CONTEXT_WINDOWS: [RegExp, number][] = [
+  [/^gpt-4\.1/, 1047576],
+  [/^gpt-5/, 400000],
+  [/^(gpt-4o|chatgpt-4o)/, 128000],
+  [/^o\d/, 200000],
+  [/^gpt-4-turbo/, 128000],
+  [/^gpt-4-32k/, 32768],
+  [/^gpt-4/, 8192],
+  [/^gpt-3\.5-turbo/, 16385],
+  [/^claude/, 200000],
+  [/llama-?3\.[1-3]/, 128000],
+  [/qwen2\.5|qwen3/, 32768],
+  [/mistral|mixtral|codestral/, 32768],
+  [/deepseek/, 64000]
+];
+
+// Used for models that aren't listed, e.g. Azure deployments with custom names
+const DEFAULT_CONTEXT_WINDOW = 16384;
+const DEFAULT_REPLY_RESERVE = 4096;
+
+/**
+ * Works out how much of the model's context window the conversation may use,
+ * and reports how much the last request used
+ */
+export class ContextBudgetService implements IContextBudgetService {
+  private lastUsage: ContextUsage | undefined;
+  private readonly onDidUpdateUsageEmitter = new vscode.EventEmitter<ContextUsage | undefined>();
+  public readonly onDidUpdateUsage: vscode.Event<ContextUsage | undefined> = this.onDidUpdateUsageEmitter.event;
+
+  /**
+   * Get the context window of a model, or the quest1CodeAssistant.contextWindow setting if it is set
+   */
+  public getContextWindow(model: string): number {
+    const configured = vscode.workspace.getConfiguration('quest1CodeAssistant').get<number>('contextWindow', 0);
+    if (configured > 0) {
+      return configured;
+    }
+
+    const name = model.toLowerCase();
+    const match = CONTEXT_WINDOWS.find(([pattern]) => pattern.test(name));
+    return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+  }
+
+  /**
+   * Split the context window of a model between the reply, the system prompt, the tool schemas
+   * and the conversation history
+   */
+  public createBudget(model: string, systemPrompt: string, tools: any[]): ContextBudget {
+    const counter = new TokenCounter(model);
+    const contextWindow = this.getContextWindow(model);
+
+    const settings = readProviderSettings();
+    const replyTokens = settings.provider === 'anthropic' ? settings.anthropic.maxTokens : DEFAULT_REPLY_RESERVE;
+    const reservedForReply = Math.min(replyTokens, Math.floor(contextWindow / 4));
+
+    const systemTokens = counter.countMessages([{ role: 'system', content: systemPrompt }]);
+    const toolTokens = counter.countTools(tools);
+
+    return {
+      model,
+      contextWindow,
+      reservedForReply,
+      systemTokens,
+      toolTokens,
+      historyTokens: Math.max(0, contextWindow - reservedForReply - systemTokens - toolTokens)
+    };
+  }
+
+  /**
+   * Record the usage of a request
+   * @param budget The budget the request was prepared with
+   * @param historyTokens Tokens of the messages sent after the system prompt
+   */
+  public reportUsage(budget: ContextBudget, historyTokens: number): void {
+    this.lastUsage = {
+      model: budget.model,
+      contextWindow: budget.contextWindow,
+      usedTokens: budget.systemTokens + budget.toolTokens + historyTokens,
+      systemTokens: budget.systemTokens,
+      toolTokens: budget.toolTokens,
+      historyTokens,
+      reservedForReply: budget.reservedForReply
+    };
+    this.onDidUpdateUsageEmitter.fire(this.lastUsage);
+  }
+
+  public getLastUsage(): ContextUsage | undefined {
+    return this.lastUsage;
+  }
+
+  /**
+   * Forget the usage, e.g. when a new conversation starts
+   */
+  public clearUsage(): void {
+    this.lastUsage = undefined;
+    this.onDidUpdateUsageEmitter.fire(undefined);
+  }
+}
@@ -1,6 +1,5 @@
 import { ConversationMessage, SummarizedHistoryMessage } from './types';
-import { OpenAIClient } from './OpenAIClient';
-import OpenAI from 'openai';
+import { IOpenAIClientService } from './interfaces';
 
 /**
  * Manages the conversation history with the AI assistant
@@ -9,6 +8,8 @@ export class ConversationManager {
   private conversationHistory: ConversationMessage[] = [];
   private maxHistoryLength = 10; // Keep reasonable number of messages to maintain context
 
+  constructor(private readonly openAIClient: IOpenAIClientService) {}
+
   /**
    * Add a message to the conversation history, maintaining the maximum history length
    */
@@ -30,6 +31,13 @@ export class ConversationManager {
   public clearConversationHistory(): void {
     this.conversationHistory = [];
   }
+
+  /**
+   * Replace the conversation history, e.g. when a saved session is reopened
+   */
+  public replaceConversationHistory(messages: ConversationMessage[]): void {
+    this.conversationHistory = [...messages];
+  }
   
   /**
    * Removes any invalid tool call pairings from the history
@@ -374,12 +382,23 @@ export class ConversationManager {
   }
   
   /**
-   * Summarizes the conversation history using OpenAI
+   * Summarizes the conversation history using the configured LLM provider
    * @param maxTokens Maximum length of summarized content in tokens
    * @returns A summarized history message that can be sent to the AI
    */
   public async summarizeConversationHistory(maxTokens: number = 1000): Promise<SummarizedHistoryMessage> {
-    if (this.conversationHistory.length === 0) {
+    return this.summarizeMessages(this.conversationHistory, maxTokens);
+  }
+  
+  /**
+   * Summarizes the given messages using the configured LLM provider
+   * The conversation history is left as it is, so it can change while the summary is generated
+   * @param messages Messages to summarize
+   * @param maxTokens Maximum length of summarized content in tokens
+   * @returns A summarized history message that can be sent to the AI
+   */
+  public async summarizeMessages(messages: ConversationMessage[], maxTokens: number = 1000): Promise<SummarizedHistoryMessage> {
+    if (messages.length === 0) {
       return {
         role: 'system',
         content: 'No conversation history yet.',
@@ -395,7 +414,7 @@ export class ConversationManager {
     const filePathPattern = /(?:[a-zA-Z]:\[^\s:\*\?"<>|][^:\*\?"<>|]*)|(?:\/[^\s\/\*\?"<>|][^\/\*\?"<>|]*)+/g;
     
     // Scan conversation for file references
-    for (const message of this.conversationHistory) {
+    for (const message of messages) {
       // Extract file paths from message content
       if (typeof message.content === 'string') {
         const matches = message.content.match(filePathPattern);
@@ -433,13 +452,13 @@ export class ConversationManager {
     const skipIndices = new Set<number>();
     
     // Process the conversation history
-    for (let i = 0; i < this.conversationHistory.length; i++) {
+    for (let i = 0; i < messages.length; i++) {
       // Skip this message if it's already been processed as part of a tool call/response pair
       if (skipIndices.has(i)) {
         continue;
       }
       
-      const message = this.conversationHistory[i];
+      const message = messages[i];
       
       // If this is an assistant message with tool calls, find all corresponding tool responses
       if (message.role === 'assistant' && message.tool_calls && message.tool_calls.length > 0) {
@@ -454,8 +473,8 @@ export class ConversationManager {
         
         // Mark all corresponding tool responses to be skipped
         for (const toolCall of message.tool_calls) {
-          for (let j = i + 1; j < this.conversationHistory.length; j++) {
-            const potentialResponse = this.conversationHistory[j];
+          for (let j = i + 1; j < messages.length; j++) {
+            const potentialResponse = messages[j];
             if (potentialResponse.role === 'tool' && potentialResponse.tool_call_id === toolCall.id) {
               skipIndices.add(j); // Mark this tool response to be skipped
               break;
@@ -478,26 +497,27 @@ export class ConversationManager {
     }
     
     try {
-      // Use OpenAI to generate a summary
-      const openAIClient = new OpenAIClient().getClient();
-      
-      const response = await openAIClient.chat.completions.create({
-        model: 'gpt-3.5-turbo',
-        messages: [
+      // Use the configured provider and model to generate a summary
+      const response = await this.openAIClient.createChatCompletion(
+        [
           {
-            role: 'system' as const,
+            role: 'system',
             content: 'Your task is to summarize the following conversation between a user and an AI assistant. ' +
               'Focus on capturing the main topics discussed, key code snippets mentioned, important decisions made, ' +
               'and the overall context of the conversation. Keep the summary concise but informative. ' +
-              'Make sure to preserve references to file paths and important code concepts.'
+              `Make sure to preserve references to file paths and important code concepts. Use at most ${maxTokens} tokens.`
           },
           ...formattedConversation.map(msg => ({
-            role: msg.role as 'user' | 'assistant' | 'system',
+            role: msg.role,
             content: msg.content
           }))
         ],
-        max_tokens: maxTokens
-      });
+        [],
+        this.openAIClient.getModel(),
+        0.3,
+        undefined,
+        { maxTokens }
+      );
       
       const summaryContent = response.choices[0]?.message?.content || 'Failed to generate conversation summary.';
       
@@ -506,13 +526,13 @@ export class ConversationManager {
         content: summaryContent,
         summary_type: 'conversation_history',
         file_references: Array.from(fileReferences),
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        usage: response.usage
       };
     } catch (error) {
-      console.error('Error generating summary with OpenAI:', error);
+      console.error('Error generating conversation summary:', error);
       
-      // Fall back to a basic summary if OpenAI fails
-      const messages = this.conversationHistory;
+      // Fall back to a basic summary if the provider fails
       const userCount = messages.filter(m => m.role === 'user').length;
       const assistantCount = messages.filter(m => m.role === 'assistant').length;
       const toolCount = messages.filter(m => m.role === 'tool').length;
@@ -0,0 +1,144 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { IConversationStore } from './interfaces';
+import { StoredConversation, ConversationSummary } from './types/Conversation';
+
+/**
+ * Saves chat sessions as JSON files in the extension's workspace storage
+ * (or the global storage when no workspace is open)
+ */
+export class ConversationStore implements IConversationStore {
+  private readonly directory: string;
+  private readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChange: vscode.Event<void> = this.onDidChangeEmitter.event;
+
+  constructor(storageUri: vscode.Uri) {
+    this.directory = path.join(storageUri.fsPath, 'conversations');
+  }
+
+  /**
+   * List the saved conversations, most recently updated first
+   */
+  public async list(): Promise<ConversationSummary[]> {
+    const conversations = await this.readAll();
+    return conversations.map(conversation => this.toSummary(conversation));
+  }
+
+  /**
+   * Find conversations whose title or messages contain the query (case-insensitive)
+   */
+  public async search(query: string): Promise<ConversationSummary[]> {
+    const needle = query.trim().toLowerCase();
+    const conversations = await this.readAll();
+
+    return conversations
+      .filter(conversation =>
+        !needle ||
+        conversation.title.toLowerCase().includes(needle) ||
+        conversation.chatMessages.some(message => message.content.toLowerCase().includes(needle))
+      )
+      .map(conversation => this.toSummary(conversation));
+  }
+
+  /**
+   * Load a saved conversation
+   * @returns The conversation, or undefined if it doesn't exist or can't be read
+   */
+  public async load(id: string): Promise<StoredConversation | undefined> {
+    try {
+      const content = await fs.promises.readFile(this.getFilePath(id), 'utf8');
+      return JSON.parse(content) as StoredConversation;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error(`Error loading conversation ${id}:`, error);
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * Save a conversation, replacing any previous version
+   */
+  public async save(conversation: StoredConversation): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+
+    // Write to a temporary file first so a crash can't leave a half-written session
+    const filePath = this.getFilePath(conversation.id);
+    const tempPath = `${filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(conversation), 'utf8');
+    await fs.promises.rename(tempPath, filePath);
+
+    this.onDidChangeEmitter.fire();
+  }
+
+  /**
+   * Rename a saved conversation
+   */
+  public async rename(id: string, title: string): Promise<void> {
+    const conversation = await this.load(id);
+    if (!conversation) {
+      throw new Error(`Conversation ${id} not found`);
+    }
+    conversation.title = title;
+    await this.save(conversation);
+  }
+
+  /**
+   * Delete a saved conversation
+   */
+  public async delete(id: string): Promise<void> {
+    try {
+      await fs.promises.unlink(this.getFilePath(id));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    this.onDidChangeEmitter.fire();
+  }
+
+  /**
+   * Read every saved conversation, skipping files that can't be parsed
+   */
+  private async readAll(): Promise<StoredConversation[]> {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const conversations: StoredConversation[] = [];
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      const conversation = await this.load(path.basename(file, '.json'));
+      if (conversation) {
+        conversations.push(conversation);
+      }
+    }
+
+    return conversations.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  private toSummary(conversation: StoredConversation): ConversationSummary {
+    return {
+      id: conversation.id,
+      title: conversation.title,
+      createdAt: conversation.createdAt,
+      updatedAt: conversation.updatedAt,
+      messageCount: conversation.chatMessages.length
+    };
+  }
+
+  private getFilePath(id: string): string {
+    // Ids are generated by the extension, but never let one escape the directory
+    return path.join(this.directory, `${path.basename(id)}.json`);
+  }
+
+  /**
+   * Dispose of resources
+   */
+  public dispose(): void {
+    this.onDidChangeEmitter.dispose();
+  }
+}
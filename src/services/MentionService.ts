@@ -0,0 +1,467 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as util from 'util';
+import { execFile } from 'child_process';
+import { IContextBudgetService, IDiagnosticsService, IMentionService, IOpenAIClientService } from './interfaces';
+import { Attachment, Mention, MentionKind, MentionSuggestion, MENTION_KINDS, ResolvedMessage } from './types/Mention';
+import { TokenCounter } from './TokenCounter';
+
+const execFileAsync = util.promisify(execFile);
+
+const MENTION_PATTERN = /(^|\s)@(file|folder|symbol|selection|problems|git-diff)(?::("[^"]*"|\S+))?(?=\s|$)/g;
+
+const KIND_DESCRIPTIONS: Record<MentionKind, string> = {
+  file: 'Attach a file',
+  folder: 'Attach the list of files in a folder',
+  symbol: 'Attach the code of a function, class or other symbol',
+  selection: 'Attach the code selected in the editor',
+  problems: 'Attach the errors and warnings in the workspace',
+  'git-diff': 'Attach the uncommitted changes'
+};
+
+const EXCLUDED_DIRECTORIES = ['node_modules', '.git', 'out', 'dist', 'build'];
+const EXCLUDE_GLOB = `**/{${EXCLUDED_DIRECTORIES.join(',')}}/**`;
+const MAX_FILES = 10000;
+// Files are listed again for suggestions after this time
+const FILE_LIST_TTL_MS = 10000;
+const MAX_SUGGESTIONS = 20;
+const MAX_FOLDER_ENTRIES = 300;
+
+// Share of the model's context window the attachments of a message may take
+const ATTACHMENT_BUDGET_RATIO = 0.25;
+// Attachments that would get fewer tokens than this are left out
+const MIN_ATTACHMENT_TOKENS = 200;
+
+/**
+ * Resolved content of a mention, before it is fitted into the budget
+ */
+interface MentionContent {
+  label: string;
+  title: string;
+  path?: string;
+  content: string;
+  language?: string;
+}
+
+/**
+ * Resolves the @-mentions of the chat input into context attached to the message,
+ * and suggests files, folders and symbols while a mention is typed
+ */
+export class MentionService implements IMentionService {
+  private fileList: { files: string[]; loadedAt: number } | undefined;
+  // The chat panel takes the focus from the editor, so remember the last one used
+  private lastEditor: vscode.TextEditor | undefined = vscode.window.activeTextEditor;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private readonly openAIClient: IOpenAIClientService,
+    private readonly contextBudget: IContextBudgetService,
+    private readonly diagnosticsService: IDiagnosticsService
+  ) {}
+
+  /**
+   * Start following the active editor for @selection
+   */
+  public start(): void {
+    this.disposables.push(
+      vscode.window.onDidChangeActiveTextEditor(editor => {
+        if (editor) {
+          this.lastEditor = editor;
+        }
+      })
+    );
+  }
+
+  /**
+   * Find the mentions in a message
+   */
+  public parse(text: string): Mention[] {
+    const mentions: Mention[] = [];
+    for (const match of text.matchAll(MENTION_PATTERN)) {
+      const value = match[3]?.replace(/^"(.*)"$/, '$1');
+      if (!mentions.some(mention => mention.kind === match[2] && mention.value === value)) {
+        mentions.push({ kind: match[2] as MentionKind, value });
+      }
+    }
+    return mentions;
+  }
+
+  /**
+   * Attach the context of the mentions in a message
+   * The attachments together get at most a quarter of the model's context window,
+   * later attachments are truncated or left out when they don't fit
+   */
+  public async resolve(text: string): Promise<ResolvedMessage> {
+    const mentions = this.parse(text);
+    if (mentions.length === 0) {
+      return { prompt: text, attachments: [] };
+    }
+
+    const model = this.openAIClient.getModel();
+    const counter = new TokenCounter(model);
+    let remainingTokens = Math.floor(this.contextBudget.getContextWindow(model) * ATTACHMENT_BUDGET_RATIO);
+
+    const attachments: Attachment[] = [];
+    const blocks: string[] = [];
+    for (const mention of mentions) {
+      let resolved: MentionContent;
+      try {
+        resolved = await this.resolveMention(mention);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const label = `@${mention.kind}${mention.value ? `:${mention.value}` : ''}`;
+        attachments.push({ kind: mention.kind, label, tokens: 0, error: message });
+        blocks.push(`### ${label}\nCould not be attached: ${message}`);
+        continue;
+      }
+
+      let content = resolved.content;
+      let tokens = counter.count(content);
+      let truncated = false;
+      if (tokens > remainingTokens) {
+        truncated = true;
+        if (remainingTokens < MIN_ATTACHMENT_TOKENS) {
+          attachments.push({ kind: mention.kind, label: resolved.label, path: resolved.path, tokens: 0, truncated, error: 'Left out, the attachments exceed the token budget' });
+          blocks.push(`### ${resolved.title}\nLeft out because the attachments exceed the token budget. Use the tools to read it if needed.`);
+          continue;
+        }
+        content = counter.truncate(content, remainingTokens);
+        tokens = counter.count(content);
+      }
+      remainingTokens -= tokens;
+
+      attachments.push({ kind: mention.kind, label: resolved.label, path: resolved.path, tokens, truncated });
+      blocks.push(`### ${resolved.title}${truncated ? ' (truncated)' : ''}\n${fence(content, resolved.language)}`);
+    }
+
+    console.log(`Attached ${attachments.length} mentions to the message`);
+    return {
+      prompt: `${text}\n\n## ATTACHED CONTEXT:\nThe user attached the following with @-mentions in the message above.\n\n${blocks.join('\n\n')}`,
+      attachments
+    };
+  }
+
+  /**
+   * Suggest completions for the mention being typed
+   * @param kind The kind of mention, or undefined while the kind itself is typed
+   * @param query The text typed after "@" or after "@kind:"
+   */
+  public async getSuggestions(kind: MentionKind | undefined, query: string): Promise<MentionSuggestion[]> {
+    if (!kind) {
+      return MENTION_KINDS
+        .filter(candidate => candidate.startsWith(query.toLowerCase()))
+        .map(candidate => ({
+          label: `@${candidate}`,
+          description: KIND_DESCRIPTIONS[candidate],
+          insertText: ['file', 'folder', 'symbol'].includes(candidate) ? `@${candidate}:` : `@${candidate} `
+        }));
+    }
+
+    switch (kind) {
+      case 'file':
+      case 'folder': {
+        const files = await this.getFileList();
+        const candidates = kind === 'file'
+          ? files
+          : Array.from(new Set(files.map(file => path.posix.dirname(file)).filter(directory => directory !== '.')));
+        return rankFuzzy(query, candidates)
+          .map(candidate => ({
+            label: kind === 'folder' ? `${candidate}/` : path.posix.basename(candidate),
+            description: kind === 'file' ? candidate : undefined,
+            insertText: `@${kind}:${quoteValue(candidate)} `
+          }));
+      }
+      case 'symbol': {
+        if (!query) {
+          return [];
+        }
+        const symbols = await vscode.commands.executeCommand<vscode.SymbolInformation[]>('vscode.executeWorkspaceSymbolProvider', query) || [];
+        return symbols
+          .filter(symbol => !EXCLUDED_DIRECTORIES.some(directory => symbol.location.uri.fsPath.split(path.sep).includes(directory)))
+          .slice(0, MAX_SUGGESTIONS)
+          .map(symbol => ({
+            label: symbol.name,
+            description: `${vscode.SymbolKind[symbol.kind]} · ${vscode.workspace.asRelativePath(symbol.location.uri)}`,
+            insertText: `@symbol:${quoteValue(symbol.name)} `
+          }));
+      }
+      default:
+        return [];
+    }
+  }
+
+  public dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+
+  private async resolveMention(mention: Mention): Promise<MentionContent> {
+    switch (mention.kind) {
+      case 'file':
+        return this.resolveFile(this.requireValue(mention));
+      case 'folder':
+        return this.resolveFolder(this.requireValue(mention));
+      case 'symbol':
+        return this.resolveSymbol(this.requireValue(mention));
+      case 'selection':
+        return this.resolveSelection();
+      case 'problems':
+        return this.resolveProblems();
+      case 'git-diff':
+        return this.resolveGitDiff();
+    }
+  }
+
+  private requireValue(mention: Mention): string {
+    if (!mention.value) {
+      throw new Error(`@${mention.kind} needs a ${mention.kind === 'symbol' ? 'name' : 'path'}, e.g. @${mention.kind}:${mention.kind === 'symbol' ? 'MyClass' : 'src/index.ts'}`);
+    }
+    return mention.value;
+  }
+
+  private async resolveFile(value: string): Promise<MentionContent> {
+    const filePath = this.resolvePath(value);
+    const stats = await fs.promises.stat(filePath).catch(() => undefined);
+    if (!stats?.isFile()) {
+      throw new Error(`The file ${value} was not found`);
+    }
+
+    const content = await fs.promises.readFile(filePath, 'utf8');
+    if (content.includes('\0')) {
+      throw new Error(`${value} is a binary file`);
+    }
+
+    const label = vscode.workspace.asRelativePath(filePath);
+    return { label, title: `File: ${label}`, path: filePath, content, language: path.extname(filePath).substring(1) };
+  }
+
+  private async resolveFolder(value: string): Promise<MentionContent> {
+    const folderPath = this.resolvePath(value);
+    const stats = await fs.promises.stat(folderPath).catch(() => undefined);
+    if (!stats?.isDirectory()) {
+      throw new Error(`The folder ${value} was not found`);
+    }
+
+    // List the folder depth-first, as an indented tree
+    const lines: string[] = [];
+    const listDirectory = async (directory: string, depth: number): Promise<void> => {
+      const entries = (await fs.promises.readdir(directory, { withFileTypes: true }))
+        .filter(entry => !EXCLUDED_DIRECTORIES.includes(entry.name))
+        .sort((a, b) => Number(b.isDirectory()) - Number(a.isDirectory()) || a.name.localeCompare(b.name));
+      for (const entry of entries) {
+        if (lines.length >= MAX_FOLDER_ENTRIES) {
+          return;
+        }
+        lines.push(`${'  '.repeat(depth)}${entry.name}${entry.isDirectory() ? '/' : ''}`);
+        if (entry.isDirectory()) {
+          await listDirectory(path.join(directory, entry.name), depth + 1);
+        }
+      }
+    };
+    await listDirectory(folderPath, 0);
+    if (lines.length >= MAX_FOLDER_ENTRIES) {
+      lines.push(`[... listing stopped after ${MAX_FOLDER_ENTRIES} entries]`);
+    }
+
+    const label = `${vscode.workspace.asRelativePath(folderPath)}/`;
+    return { label, title: `Folder: ${label} (files are not included, read them with the tools)`, path: folderPath, content: lines.join('\n') };
+  }
+
+  private async resolveSymbol(name: string): Promise<MentionContent> {
+    const symbols = await vscode.commands.executeCommand<vscode.SymbolInformation[]>('vscode.executeWorkspaceSymbolProvider', name) || [];
+    const symbol = symbols.find(candidate => candidate.name === name) ||
+      symbols.find(candidate => candidate.name.toLowerCase() === name.toLowerCase());
+    if (!symbol) {
+      throw new Error(`No symbol named ${name} was found`);
+    }
+
+    const document = await vscode.workspace.openTextDocument(symbol.location.uri);
+    // Workspace symbols may only cover the name, the document symbols have the whole declaration
+    const documentSymbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>('vscode.executeDocumentSymbolProvider', document.uri) || [];
+    const declaration = findDocumentSymbol(documentSymbols, symbol.name, symbol.location.range.start);
+    const range = declaration?.range || new vscode.Range(symbol.location.range.start.line, 0, symbol.location.range.end.line + 1, 0);
+
+    const file = vscode.workspace.asRelativePath(document.uri);
+    return {
+      label: symbol.name,
+      title: `${vscode.SymbolKind[symbol.kind]} ${symbol.name} (${file}, lines ${range.start.line + 1}-${range.end.line + 1})`,
+      path: document.uri.fsPath,
+      content: document.getText(range),
+      language: document.languageId
+    };
+  }
+
+  private resolveSelection(): MentionContent {
+    const editor = this.lastEditor && !this.lastEditor.document.isClosed ? this.lastEditor : undefined;
+    if (!editor || editor.selection.isEmpty) {
+      throw new Error('No code is selected in the editor');
+    }
+
+    const { document, selection } = editor;
+    const file = vscode.workspace.asRelativePath(document.uri);
+    const lines = `${selection.start.line + 1}-${selection.end.line + 1}`;
+    return {
+      label: `${path.basename(document.fileName)}:${lines}`,
+      title: `Selection: ${file}, lines ${lines}`,
+      path: document.uri.scheme === 'file' ? document.uri.fsPath : undefined,
+      content: document.getText(selection),
+      language: document.languageId
+    };
+  }
+
+  private resolveProblems(): MentionContent {
+    const diagnostics = this.diagnosticsService.getAllDiagnostics()
+      .filter(diagnostic => diagnostic.severity <= vscode.DiagnosticSeverity.Warning)
+      .sort((a, b) => a.filePath.localeCompare(b.filePath) || a.severity - b.severity || a.range.startLine - b.range.startLine);
+
+    const lines = diagnostics.map(diagnostic =>
+      `- ${vscode.workspace.asRelativePath(diagnostic.filePath)}:${diagnostic.range.startLine + 1} (${vscode.DiagnosticSeverity[diagnostic.severity]}): ${diagnostic.message}`
+    );
+    return {
+      label: 'problems',
+      title: `Problems (${diagnostics.length})`,
+      content: lines.length > 0 ? lines.join('\n') : 'No errors or warnings are reported in the workspace.'
+    };
+  }
+
+  private async resolveGitDiff(): Promise<MentionContent> {
+    const folders = vscode.workspace.workspaceFolders || [];
+    if (folders.length === 0) {
+      throw new Error('No workspace folder is open');
+    }
+
+    const git = async (cwd: string, args: string[]) =>
+      (await execFileAsync('git', args, { cwd, timeout: 10000, maxBuffer: 10 * 1024 * 1024 })).stdout;
+
+    const sections: string[] = [];
+    for (const folder of folders) {
+      const cwd = folder.uri.fsPath;
+      let diff: string;
+      try {
+        diff = await git(cwd, ['diff', 'HEAD']);
+      } catch {
+        // Repositories without commits have no HEAD to compare with
+        diff = await git(cwd, ['diff']).catch(() => '');
+      }
+      const untracked = (await git(cwd, ['ls-files', '--others', '--exclude-standard']).catch(() => '')).trim();
+
+      if (diff.trim()) {
+        sections.push(folders.length > 1 ? `# ${folder.name}\n${diff.trim()}` : diff.trim());
+      }
+      if (untracked) {
+        sections.push(`# Untracked files${folders.length > 1 ? ` in ${folder.name}` : ''}\n${untracked}`);
+      }
+    }
+
+    return {
+      label: 'git diff',
+      title: 'Uncommitted changes (git diff HEAD)',
+      content: sections.length > 0 ? sections.join('\n\n') : 'There are no uncommitted changes.',
+      language: 'diff'
+    };
+  }
+
+  /**
+   * Resolve a path typed in a mention against the workspace folders
+   * Paths can be absolute, relative to a workspace folder, or start with the folder name in multi-root workspaces
+   */
+  private resolvePath(value: string): string {
+    if (path.isAbsolute(value)) {
+      return value;
+    }
+
+    const folders = vscode.workspace.workspaceFolders || [];
+    const candidates: string[] = [];
+    for (const folder of folders) {
+      candidates.push(path.join(folder.uri.fsPath, value));
+      if (value.startsWith(`${folder.name}/`)) {
+        candidates.push(path.join(folder.uri.fsPath, value.substring(folder.name.length + 1)));
+      }
+    }
+    return candidates.find(candidate => fs.existsSync(candidate)) || candidates[0] || path.resolve(value);
+  }
+
+  /**
+   * List the workspace files, relative to the workspace, for suggestions
+   */
+  private async getFileList(): Promise<string[]> {
+    if (!this.fileList || Date.now() - this.fileList.loadedAt > FILE_LIST_TTL_MS) {
+      const uris = await vscode.workspace.findFiles('**/*', EXCLUDE_GLOB, MAX_FILES);
+      this.fileList = {
+        files: uris.map(uri => vscode.workspace.asRelativePath(uri).replace(/\\/g, '/')),
+        loadedAt: Date.now()
+      };
+    }
+    return this.fileList.files;
+  }
+}
+
+/**
+ * Rank paths by how well they match a fuzzy query
+ * The query characters must appear in order; consecutive characters, matches at the
+ * start of a path segment and matches in the file name rank higher
+ */
+function rankFuzzy(query: string, candidates: string[]): string[] {
+  const lowerQuery = query.toLowerCase();
+  const scored: { candidate: string; score: number }[] = [];
+
+  for (const candidate of candidates) {
+    const lowerCandidate = candidate.toLowerCase();
+    let score = 0;
+    let position = -1;
+    let streak = 0;
+    let matched = true;
+    for (const char of lowerQuery) {
+      const index = lowerCandidate.indexOf(char, position + 1);
+      if (index < 0) {
+        matched = false;
+        break;
+      }
+      streak = index === position + 1 ? streak + 1 : 0;
+      score += 1 + streak * 2 + (index === 0 || '/._-'.includes(lowerCandidate[index - 1]) ? 3 : 0);
+      position = index;
+    }
+    if (!matched) {
+      continue;
+    }
+    if (lowerQuery && path.posix.basename(lowerCandidate).includes(lowerQuery)) {
+      score += 10;
+    }
+    // Prefer shorter paths among equal matches
+    scored.push({ candidate, score: score - candidate.length * 0.01 });
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Find the document symbol with a name that contains a position, searching nested symbols
+ */
+function findDocumentSymbol(symbols: vscode.DocumentSymbol[], name: string, position: vscode.Position): vscode.DocumentSymbol | undefined {
+  for (const symbol of symbols) {
+    if (symbol.name === name && symbol.range.contains(position)) {
+      return symbol;
+    }
+    const child = findDocumentSymbol(symbol.children || [], name, position);
+    if (child) {
+      return child;
+    }
+  }
+  return undefined;
+}
+
+function quoteValue(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
+
+/**
+ * Put content in a code block whose fence is longer than any backtick run in the content
+ */
+function fence(content: string, language: string = ''): string {
+  const longestRun = Math.max(2, ...(content.match(/`+/g) || []).map(run => run.length));
+  const marker = '`'.repeat(longestRun + 1);
+  return `${marker}${language}\n${content}\n${marker}`;
+}
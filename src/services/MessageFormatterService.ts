@@ -1,10 +1,18 @@
 import { ConversationMessage } from './types';
 import { IMessageFormatterService } from './interfaces';
+import { ContextBudget, FittedHistory } from './types/ContextBudget';
+import { TokenCounter } from './TokenCounter';
 
 /**
  * Service responsible for formatting and preparing messages for OpenAI API
  */
 export class MessageFormatterService implements IMessageFormatterService {
+  // Old tool results are cut down to this size before any history is summarized
+  private readonly MAX_TRUNCATED_TOOL_RESULT_TOKENS = 1000;
+  
+  // Room left for the summary of the messages that don't fit
+  private readonly SUMMARY_RESERVE_TOKENS = 2500;
+  
   /**
    * Format conversation messages with system prompt and error messages
    */
@@ -28,28 +36,54 @@ export class MessageFormatterService implements IMessageFormatterService {
   }
 
   /**
-   * Determine if conversation history should be summarized based on size thresholds
+   * Fit the conversation history into the token budget of a request
+   * Oversized tool results are truncated first, oldest first. If the history still doesn't fit,
+   * the most recent messages that fit are kept and the older ones are left to be summarized.
+   * @param conversationHistory The full conversation history
+   * @param budget The budget of the request
+   * @returns The messages to send and how many leading messages didn't fit
    */
-  public shouldSummarizeHistory(
-    conversationHistory: ConversationMessage[], 
-    maxPayloadSize: number, 
-    maxMessages: number
-  ): boolean {
-    let totalPayloadSize = 0;
-    
-    // Estimate payload size
-    for (const message of conversationHistory) {
-      totalPayloadSize += message.content ? message.content.length : 0;
-      if (message.tool_calls) {
-        // Add rough estimate for tool calls
-        message.tool_calls.forEach(tc => {
-          totalPayloadSize += tc.function.name.length;
-          totalPayloadSize += tc.function.arguments.length;
-        });
+  public fitHistoryToBudget(conversationHistory: ConversationMessage[], budget: ContextBudget): FittedHistory {
+    const counter = new TokenCounter(budget.model);
+    const messages = [...conversationHistory];
+    const counts = messages.map(message => counter.countMessage(message));
+    let total = counts.reduce((sum, count) => sum + count, 0);
+
+    if (total <= budget.historyTokens) {
+      return { messages, tokens: total, overflowCount: 0 };
+    }
+
+    // Tool results are usually the largest messages and the model rarely needs all of an old one
+    for (let i = 0; i < messages.length && total > budget.historyTokens; i++) {
+      if (messages[i].role === 'tool' && counts[i] > this.MAX_TRUNCATED_TOOL_RESULT_TOKENS) {
+        messages[i] = { ...messages[i], content: counter.truncate(messages[i].content, this.MAX_TRUNCATED_TOOL_RESULT_TOKENS) };
+        const count = counter.countMessage(messages[i]);
+        total -= counts[i] - count;
+        counts[i] = count;
       }
     }
-    
-    console.log(`Estimated payload size: ${totalPayloadSize} characters`);
-    return totalPayloadSize > maxPayloadSize || conversationHistory.length > maxMessages;
+
+    if (total <= budget.historyTokens) {
+      console.log(`Truncated tool results to fit ${total} history tokens into ${budget.historyTokens}`);
+      return { messages, tokens: total, overflowCount: 0 };
+    }
+
+    // Keep the most recent messages that fit next to the summary of the older ones
+    const available = budget.historyTokens - this.SUMMARY_RESERVE_TOKENS;
+    let split = messages.length - 1;
+    let kept = counts[split];
+    while (split > 0 && kept + counts[split - 1] <= available) {
+      split--;
+      kept += counts[split];
+    }
+
+    // Tool results can't be separated from the assistant message that called them
+    while (split > 0 && messages[split].role === 'tool') {
+      split--;
+      kept += counts[split];
+    }
+
+    console.log(`History of ${total} tokens exceeds ${budget.historyTokens}, keeping the last ${messages.length - split} messages`);
+    return { messages: messages.slice(split), tokens: kept, overflowCount: split };
   }
 }
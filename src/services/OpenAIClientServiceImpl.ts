@@ -1,134 +1,197 @@
 import * as vscode from 'vscode';
-import OpenAI from 'openai';
-import { IOpenAIClientService } from './interfaces';
+import { IOpenAIClientService, ILLMProvider } from './interfaces';
+import { ChatCompletionOptions } from './types/ProviderSettings';
+import { createProvider, readProviderSettings } from './providers/ProviderFactory';
+import { LLMError, toLLMError } from './providers/LLMError';
+
+const MAX_RETRIES = 3;
+const INITIAL_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
 
 /**
- * Implementation of OpenAI client service that handles API communication
+ * Implementation of the client service that handles API communication.
+ * Requests are delegated to the provider adapter selected in the settings
+ * (OpenAI, Azure OpenAI, Anthropic, Ollama or an OpenAI-compatible endpoint).
  */
 export class OpenAIClientServiceImpl implements IOpenAIClientService {
-  private client: OpenAI | null = null;
-  
+  private provider: ILLMProvider | null = null;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    // Recreate the provider when its settings change
+    this.disposables.push(
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('quest1CodeAssistant')) {
+          console.log('Quest1 settings changed, resetting LLM provider');
+          this.provider = null;
+        }
+      })
+    );
+  }
+
   /**
-   * Initialize the OpenAI client with API key from settings
+   * Initialize the provider from the extension settings
    */
   public initializeClient(): void {
-    const apiKey = vscode.workspace.getConfiguration('quest1CodeAssistant').get<string>('openaiApiKey');
-    
-    if (!apiKey || apiKey.trim() === '') {
-      console.warn('OpenAI API key not configured');
-      return;
-    }
-    
     try {
-      this.client = new OpenAI({
-        apiKey: apiKey.trim()
-      });
-      console.log('OpenAI client initialized successfully');
+      const settings = readProviderSettings();
+      this.provider = createProvider(settings);
+      console.log(`LLM provider initialized: ${settings.provider} (model: ${settings.model})`);
     } catch (error) {
-      console.error('Failed to initialize OpenAI client:', error);
+      console.error('Failed to initialize LLM provider:', error);
     }
   }
-  
+
   /**
-   * Validate that the API key is configured and valid
+   * Validate that the configured provider has the settings it needs
    */
   public validateApiKey(): { valid: boolean; message?: string } {
-    const apiKey = vscode.workspace.getConfiguration('quest1CodeAssistant').get<string>('openaiApiKey');
-    
-    if (!apiKey || apiKey.trim() === '') {
-      return {
-        valid: false,
-        message: 'OpenAI API key not configured. Please set it in the extension settings.'
-      };
-    }
-    
-    if (!this.client) {
-      this.initializeClient();
-    }
-    
-    return {
-      valid: true,
-      message: 'API key is configured'
-    };
+    return this.getProvider().validateConfiguration();
+  }
+
+  /**
+   * Get the model configured in the quest1CodeAssistant.model setting
+   */
+  public getModel(): string {
+    return readProviderSettings().model || 'gpt-4o';
+  }
+
+  /**
+   * List the models available from the configured provider
+   */
+  public async listModels(): Promise<string[]> {
+    return this.getProvider().listModels();
   }
-  
+
   /**
-   * Create a chat completion using the OpenAI API
+   * Create a chat completion using the configured provider
    */
   public async createChatCompletion(
-    messages: any[], 
-    tools: any[], 
-    model: string, 
-    temperature: number
+    messages: any[],
+    tools: any[],
+    model: string,
+    temperature: number,
+    signal?: AbortSignal,
+    options?: ChatCompletionOptions
   ): Promise<any> {
-    if (!this.client) {
-      throw new Error('OpenAI client not initialized');
-    }
-    
-    // Validate key before making the API call
+    // Validate configuration before making the API call
     const validation = this.validateApiKey();
     if (!validation.valid) {
       throw new Error(validation.message);
     }
-    
-    try {
-      return await this.client.chat.completions.create({
-        model,
-        messages,
-        tools,
-        temperature,
-      });
-    } catch (error) {
-      console.error('Error creating chat completion:', error);
-      throw error;
-    }
+
+    return this.withRetries(
+      () => this.getProvider().createChatCompletion(messages, tools, model, temperature, signal, options),
+      () => true,
+      signal
+    );
   }
-  
+
   /**
-   * Create a streaming chat completion using the OpenAI API
+   * Create a streaming chat completion using the configured provider
    * @param messages The conversation messages
    * @param tools The available tools
    * @param model The model to use
    * @param temperature The temperature setting
    * @param onChunk Callback function for processing each chunk
+   * @param signal Optional signal that aborts the request
    */
   public async createStreamingChatCompletion(
     messages: any[],
     tools: any[],
     model: string,
     temperature: number,
-    onChunk: (chunk: any) => void
+    onChunk: (chunk: any) => void,
+    signal?: AbortSignal
   ): Promise<void> {
-    // TypeScript hack: even though we return a string, we declare return type as void to match interface
-    if (!this.client) {
-      throw new Error('OpenAI client not initialized');
-    }
-    
-    // Validate key before making the API call
+    // Validate configuration before making the API call
     const validation = this.validateApiKey();
     if (!validation.valid) {
       throw new Error(validation.message);
     }
+
+    // Once chunks have been passed on, a retry would repeat them
+    let receivedChunk = false;
     
-    try {
-      // Create a streaming completion
-      const stream = await this.client.chat.completions.create({
-        model,
-        messages,
-        tools,
-        temperature,
-        stream: true,
-      });
-      
-      // Process each chunk as it arrives
-      for await (const chunk of stream) {
-        // Pass the raw chunk to the callback as expected by AgentLoopService
+    await this.withRetries(
+      // Chunks are passed through in the OpenAI format expected by AgentLoopService
+      () => this.getProvider().createStreamingChatCompletion(messages, tools, model, temperature, chunk => {
+        receivedChunk = true;
         onChunk(chunk);
+      }, signal),
+      () => !receivedChunk,
+      signal
+    );
+  }
+
+  /**
+   * Run a request, retrying transient failures with exponential backoff
+   * The delay the provider asks for in Retry-After is used when it is longer.
+   * @param request The request to run
+   * @param canRetry Whether the request can still be repeated safely
+   * @param signal Signal that aborts the request, also while waiting to retry
+   * @throws LLMError classifying the last failure
+   */
+  private async withRetries<T>(request: () => Promise<T>, canRetry: () => boolean, signal?: AbortSignal): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await request();
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+
+        const llmError = toLLMError(error);
+        // Don't wait minutes for a quota window to reset, report it instead
+        const waitTooLong = (llmError.retryAfterMs || 0) > MAX_RETRY_DELAY_MS;
+        if (!llmError.retryable || waitTooLong || attempt >= MAX_RETRIES || !canRetry()) {
+          console.error(`Model request failed (${llmError.kind}):`, error);
+          throw llmError;
+        }
+
+        const backoff = Math.min(MAX_RETRY_DELAY_MS, INITIAL_RETRY_DELAY_MS * 2 ** attempt) * (0.8 + Math.random() * 0.4);
+        const delay = Math.max(backoff, llmError.retryAfterMs || 0);
+        console.warn(`Model request failed (${llmError.kind}: ${llmError.message}), retrying in ${Math.round(delay)}ms (attempt ${attempt + 1} of ${MAX_RETRIES})`);
+        await this.delay(delay, signal);
       }
-      // Return void (no return value) to match interface
-    } catch (error) {
-      console.error('Error creating streaming chat completion:', error);
-      throw error;
     }
   }
+
+  /**
+   * Wait before a retry, stopping early when the request is aborted
+   */
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new LLMError('Request aborted', 'unknown'));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Get the provider, creating it from the settings if needed
+   */
+  private getProvider(): ILLMProvider {
+    if (!this.provider) {
+      this.initializeClient();
+    }
+    if (!this.provider) {
+      throw new Error('LLM provider could not be initialized');
+    }
+    return this.provider;
+  }
+
+  /**
+   * Dispose of resources
+   */
+  public dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
+  }
 }
@@ -1,8 +1,10 @@
 import * as vscode from 'vscode';
 import { OpenAIClient } from './OpenAIClient';
 import { ConversationManager } from './ConversationManager';
+import { OpenAIClientServiceImpl } from './OpenAIClientServiceImpl';
 import { ContextFilesManager } from './ContextFilesManager';
 import { ToolExecutor } from './ToolExecutor';
+import { ServiceFactory } from './ServiceFactory';
 import { ConversationMessage, ToolCallResult, SummarizedHistoryMessage } from './types';
 import { systemPrompt } from './systemPrompt';
 import { getToolDefinitions } from '../tools/getTools';
@@ -23,9 +25,9 @@ export class OpenAIService {
   constructor() {
     // Initialize components
     this.openaiClient = new OpenAIClient();
-    this.conversationManager = new ConversationManager();
+    this.conversationManager = new ConversationManager(new OpenAIClientServiceImpl());
     this.contextFilesManager = new ContextFilesManager();
-    this.toolExecutor = new ToolExecutor(this.contextFilesManager);
+    this.toolExecutor = new ToolExecutor(this.contextFilesManager, ServiceFactory.getToolRegistry(), ServiceFactory.getCheckpointService());
     
     // Setup event forwarding
     this.onDidUpdateContextFiles = this.contextFilesManager.onDidUpdateContextFiles;
@@ -78,14 +80,6 @@ export class OpenAIService {
       // Get tool definitions
       const tools = getToolDefinitions();
       
-      // Define the specific tool names that require user confirmation
-      const breakingChangeTools = [
-        'create_file',
-        'update_file',
-        'create_directory',
-        'run_command'
-      ];
-      
       // Initialize agentic loop variables
       let loopComplete = false;
       let finalResponse = '';
@@ -264,7 +258,7 @@ export class OpenAIService {
           let permissionMessage = '';
           
           const breakingTools = assistantMessage.tool_calls.filter(toolCall => {
-            return breakingChangeTools.includes(toolCall.function.name);
+            return this.toolExecutor.requiresUserConfirmation(toolCall.function.name);
           });
 
           if (breakingTools.length > 0) {
@@ -1,10 +1,11 @@
 import * as vscode from 'vscode';
-import { IOpenAIClientService, IConversationService, IContextFilesService, IToolExecutorService, IAgentLoopService } from './interfaces';
+import { IOpenAIClientService, IConversationService, IContextFilesService, IToolExecutorService, IAgentLoopService, IToolApprovalService, IPlanService, IContextBudgetService, IUsageTracker, IAgentModeService, IRulesService } from './interfaces';
 import { OpenAIClientServiceImpl } from './OpenAIClientServiceImpl';
 import { AgentLoopService } from './AgentLoopService';
 import { MessageFormatterService } from './MessageFormatterService';
 import { ToolCallProcessorService } from './ToolCallProcessorService';
 import { ResponseGeneratorService } from './ResponseGeneratorService';
+import { AgentStreamEvent, ConversationMessage } from './types';
 
 /**
  * Facade service that coordinates all OpenAI-related functionality
@@ -21,6 +22,12 @@ export class OpenAIServiceFacade {
     private readonly conversationService: IConversationService,
     private readonly contextFilesService: IContextFilesService,
     private readonly toolExecutorService: IToolExecutorService,
+    private readonly toolApprovalService: IToolApprovalService,
+    private readonly agentModeService: IAgentModeService,
+    private readonly planService: IPlanService,
+    private readonly contextBudget: IContextBudgetService,
+    private readonly usageTracker: IUsageTracker,
+    private readonly rulesService: IRulesService,
     private readonly projectPath: string
   ) {
     // Setup event forwarding
@@ -31,7 +38,7 @@ export class OpenAIServiceFacade {
     
     // Create supporting services
     const messageFormatter = new MessageFormatterService();
-    const toolCallProcessor = new ToolCallProcessorService(this.toolExecutorService);
+    const toolCallProcessor = new ToolCallProcessorService(this.toolExecutorService, this.toolApprovalService, this.agentModeService);
     const responseGenerator = new ResponseGeneratorService();
     
     // Create the agent loop service that coordinates the AI interaction
@@ -41,6 +48,12 @@ export class OpenAIServiceFacade {
       messageFormatter,
       toolCallProcessor,
       responseGenerator,
+      this.agentModeService,
+      this.planService,
+      this.contextBudget,
+      this.usageTracker,
+      this.rulesService,
+      this.contextFilesService,
       this.projectPath
     );
   }
@@ -53,6 +66,12 @@ export class OpenAIServiceFacade {
     conversationService: IConversationService,
     contextFilesService: IContextFilesService,
     toolExecutorService: IToolExecutorService,
+    toolApprovalService: IToolApprovalService,
+    agentModeService: IAgentModeService,
+    planService: IPlanService,
+    contextBudget: IContextBudgetService,
+    usageTracker: IUsageTracker,
+    rulesService: IRulesService,
     projectPath: string
   ): OpenAIServiceFacade {
     return new OpenAIServiceFacade(
@@ -60,6 +79,12 @@ export class OpenAIServiceFacade {
       conversationService,
       contextFilesService,
       toolExecutorService,
+      toolApprovalService,
+      agentModeService,
+      planService,
+      contextBudget,
+      usageTracker,
+      rulesService,
       projectPath
     );
   }
@@ -67,18 +92,40 @@ export class OpenAIServiceFacade {
   /**
    * Process a user query and generate a response
    * @param query The user's query
+   * @param token Optional token that stops the run
+   * @param checkpointRunId Optional checkpoint run that records the files the run changes
    * @returns Promise resolving to the AI's response
    */
-  public async processQuery(query: string): Promise<string> {
+  public async processQuery(query: string, token?: vscode.CancellationToken, checkpointRunId?: string): Promise<string> {
     try {
-      return await this.agentLoopService.executeAgentLoop(query);
+      return await this.agentLoopService.executeAgentLoop(query, token, checkpointRunId);
     } catch (error) {
       console.error('Error processing query:', error);
       throw error;
     }
   }
   
-  // Streaming functionality has been removed to avoid issues with tool calls
+  /**
+   * Process a user query, streaming the response as it is generated
+   * @param query The user's query
+   * @param onEvent Callback that receives content deltas and tool activity
+   * @param token Optional token that stops the run
+   * @param checkpointRunId Optional checkpoint run that records the files the run changes
+   * @returns Promise resolving to the AI's final response
+   */
+  public async processQueryStreaming(
+    query: string,
+    onEvent: (event: AgentStreamEvent) => void,
+    token?: vscode.CancellationToken,
+    checkpointRunId?: string
+  ): Promise<string> {
+    try {
+      return await this.agentLoopService.executeStreamingAgentLoop(query, onEvent, token, checkpointRunId);
+    } catch (error) {
+      console.error('Error processing streaming query:', error);
+      throw error;
+    }
+  }
   
   /**
    * Validates the OpenAI API key
@@ -88,6 +135,22 @@ export class OpenAIServiceFacade {
     return this.openAIClient.validateApiKey();
   }
   
+  /**
+   * Get the model-side conversation history
+   * @returns The messages sent to the model on the next request
+   */
+  public getConversationHistory(): ConversationMessage[] {
+    return [...this.conversationService.getConversationHistory()];
+  }
+  
+  /**
+   * Replace the model-side conversation history, e.g. to continue a saved session
+   * @param messages The messages to continue from (empty to start a new conversation)
+   */
+  public replaceConversationHistory(messages: ConversationMessage[]): void {
+    this.conversationService.replaceConversationHistory(messages);
+  }
+  
   /**
    * Get the list of context files
    * @returns Array of file paths used for context
@@ -0,0 +1,83 @@
+import * as vscode from 'vscode';
+import { IPlanService } from './interfaces';
+import { Plan, PlanReviewer, PlanStep, PlanStepStatus } from './types/Plan';
+
+/**
+ * Keeps the plan of the current agent run and lets the chat panel review it
+ */
+export class PlanService implements IPlanService {
+  private plan: Plan | undefined;
+  private reviewer: PlanReviewer | undefined;
+  private readonly onDidChangePlanEmitter = new vscode.EventEmitter<Plan | undefined>();
+  public readonly onDidChangePlan: vscode.Event<Plan | undefined> = this.onDidChangePlanEmitter.event;
+
+  public getPlan(): Plan | undefined {
+    return this.plan;
+  }
+
+  /**
+   * Register the UI that reviews proposed plans; plans are approved as-is while none is registered
+   */
+  public setReviewer(reviewer: PlanReviewer): vscode.Disposable {
+    this.reviewer = reviewer;
+    return new vscode.Disposable(() => {
+      if (this.reviewer === reviewer) {
+        this.reviewer = undefined;
+      }
+    });
+  }
+
+  /**
+   * Propose a plan and wait for the user to approve, edit or reject it
+   * @returns The plan after review, with status approved or rejected
+   */
+  public async submitPlan(summary: string, steps: string[], token?: vscode.CancellationToken): Promise<Plan> {
+    const proposed: Plan = {
+      summary,
+      steps: steps.map(description => ({ description, status: 'pending' })),
+      status: 'proposed'
+    };
+    this.setPlan(proposed);
+
+    const reviewed = this.reviewer ? await this.reviewer(proposed, token) : proposed;
+
+    // The plan may have been replaced while it was being reviewed
+    if (this.plan !== proposed) {
+      return { ...proposed, status: 'rejected' };
+    }
+
+    // A plan approved without any steps leaves nothing to execute
+    this.setPlan(reviewed && reviewed.steps.length > 0
+      ? { ...reviewed, status: 'approved' }
+      : { ...proposed, status: 'rejected' });
+    return this.plan!;
+  }
+
+  /**
+   * Update the status of a step of the approved plan
+   * @param stepNumber 1-based step number
+   */
+  public updateStep(stepNumber: number, status: PlanStepStatus): PlanStep {
+    if (!this.plan || this.plan.status !== 'approved') {
+      throw new Error('There is no approved plan to update');
+    }
+
+    const step = this.plan.steps[stepNumber - 1];
+    if (!step) {
+      throw new Error(`Step ${stepNumber} does not exist, the plan has ${this.plan.steps.length} steps`);
+    }
+
+    step.status = status;
+    this.onDidChangePlanEmitter.fire(this.plan);
+    return step;
+  }
+
+  public clear(): void {
+    this.setPlan(undefined);
+  }
+
+  private setPlan(plan: Plan | undefined): void {
+    this.plan = plan;
+    this.onDidChangePlanEmitter.fire(plan);
+  }
+}
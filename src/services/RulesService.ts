@@ -0,0 +1,185 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IRulesService } from './interfaces';
+import { RuleFile } from './types/Rules';
+
+const RULES_FILE_GLOB = '**/.quest1/rules.md';
+const EXCLUDE_GLOB = '**/{node_modules,.git}/**';
+
+// Longer rules files are cut, they take space from the conversation in every request
+const MAX_RULES_FILE_CHARS = 20000;
+
+/**
+ * Loads the rules files merged into the system prompt
+ * Rules come from the user's global rules file, .quest1/rules.md in the workspace folders,
+ * and .quest1/rules.md in subdirectories, which only apply to files in that subdirectory.
+ * Files are loaded on first use and kept up to date through file system watchers.
+ */
+export class RulesService implements IRulesService {
+  private readonly onDidApplyRulesEmitter = new vscode.EventEmitter<RuleFile[]>();
+  public readonly onDidApplyRules: vscode.Event<RuleFile[]> = this.onDidApplyRulesEmitter.event;
+
+  private readonly rules = new Map<string, RuleFile>();
+  private loading: Promise<void> | undefined;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private readonly globalRulesPath: string = path.join(os.homedir(), '.quest1', 'rules.md')
+  ) {}
+
+  /**
+   * Start watching the rules files for changes
+   */
+  public start(): void {
+    const workspaceWatcher = vscode.workspace.createFileSystemWatcher(RULES_FILE_GLOB);
+    const globalWatcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(vscode.Uri.file(path.dirname(this.globalRulesPath)), path.basename(this.globalRulesPath))
+    );
+
+    for (const watcher of [workspaceWatcher, globalWatcher]) {
+      this.disposables.push(
+        watcher,
+        watcher.onDidCreate(uri => this.reloadFile(uri.fsPath)),
+        watcher.onDidChange(uri => this.reloadFile(uri.fsPath)),
+        watcher.onDidDelete(uri => {
+          console.log(`Rules file ${uri.fsPath} was deleted`);
+          this.rules.delete(uri.fsPath);
+        })
+      );
+    }
+
+    // Folders added to or removed from the workspace bring their own rules
+    this.disposables.push(
+      vscode.workspace.onDidChangeWorkspaceFolders(() => {
+        this.loading = undefined;
+      })
+    );
+  }
+
+  /**
+   * Get the rules that apply to a request
+   * Global and workspace rules always apply, subdirectory rules when one of the paths is inside the subdirectory
+   * @param paths Files and directories the request involves
+   * @returns The rules from the most general to the most specific
+   */
+  public async getApplicableRules(paths: string[]): Promise<RuleFile[]> {
+    await this.ensureLoaded();
+
+    const resolvedPaths = paths.map(filePath => path.resolve(filePath));
+    const scopeOrder = { global: 0, workspace: 1, directory: 2 };
+    return Array.from(this.rules.values())
+      .filter(rule => rule.scope !== 'directory' || resolvedPaths.some(filePath => isInside(filePath, rule.directory!)))
+      .sort((a, b) =>
+        scopeOrder[a.scope] - scopeOrder[b.scope] ||
+        (a.directory || '').split(path.sep).length - (b.directory || '').split(path.sep).length ||
+        a.path.localeCompare(b.path)
+      );
+  }
+
+  /**
+   * Build the system prompt section with the rules
+   * @returns The section, empty if there are no rules
+   */
+  public buildPrompt(rules: RuleFile[]): string {
+    if (rules.length === 0) {
+      return '';
+    }
+
+    const sections = rules.map(rule => {
+      const heading = rule.scope === 'directory'
+        ? `Rules for ${vscode.workspace.asRelativePath(rule.directory!)}/ (${this.getLabel(rule)})`
+        : `${rule.scope === 'global' ? 'Global' : 'Workspace'} rules (${this.getLabel(rule)})`;
+      return `### ${heading}\n${rule.content}`;
+    });
+
+    return `## PROJECT RULES:
+  Follow these rules set by the user. Rules for a subdirectory only apply to files in it, and take precedence over more general rules there.
+
+${sections.join('\n\n')}`;
+  }
+
+  /**
+   * Report the rules sent with a request, so the chat panel can show them
+   */
+  public reportApplied(rules: RuleFile[]): void {
+    this.onDidApplyRulesEmitter.fire(rules);
+  }
+
+  /**
+   * Get a short name for a rules file, relative to the workspace
+   */
+  public getLabel(rule: RuleFile): string {
+    return rule.scope === 'global'
+      ? path.join('~', path.relative(os.homedir(), rule.path))
+      : vscode.workspace.asRelativePath(rule.path);
+  }
+
+  public dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.onDidApplyRulesEmitter.dispose();
+  }
+
+  /**
+   * Load all rules files on first use, and again after the workspace folders changed
+   */
+  private ensureLoaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.loadAll().catch(error => {
+        console.error('Error loading rules files:', error);
+        this.loading = undefined;
+      });
+    }
+    return this.loading;
+  }
+
+  private async loadAll(): Promise<void> {
+    this.rules.clear();
+
+    const uris = await vscode.workspace.findFiles(RULES_FILE_GLOB, EXCLUDE_GLOB);
+    await Promise.all([this.globalRulesPath, ...uris.map(uri => uri.fsPath)].map(filePath => this.reloadFile(filePath)));
+
+    console.log(`Loaded ${this.rules.size} rules files`);
+  }
+
+  /**
+   * Read a rules file again, removing it when it no longer exists or is empty
+   */
+  private async reloadFile(filePath: string): Promise<void> {
+    let content: string;
+    try {
+      content = (await fs.promises.readFile(filePath, 'utf8')).trim();
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error(`Error reading rules file ${filePath}:`, error);
+      }
+      this.rules.delete(filePath);
+      return;
+    }
+
+    if (!content) {
+      this.rules.delete(filePath);
+      return;
+    }
+    if (content.length > MAX_RULES_FILE_CHARS) {
+      content = `${content.substring(0, MAX_RULES_FILE_CHARS)}\n[... rules truncated, the file is longer than ${MAX_RULES_FILE_CHARS} characters]`;
+    }
+
+    if (filePath === this.globalRulesPath) {
+      this.rules.set(filePath, { scope: 'global', path: filePath, content });
+      return;
+    }
+
+    // .quest1/rules.md applies to the directory containing .quest1
+    const directory = path.dirname(path.dirname(filePath));
+    const isWorkspaceRoot = (vscode.workspace.workspaceFolders || []).some(folder => folder.uri.fsPath === directory);
+    this.rules.set(filePath, { scope: isWorkspaceRoot ? 'workspace' : 'directory', path: filePath, directory, content });
+    console.log(`Loaded rules file ${filePath}`);
+  }
+}
+
+function isInside(filePath: string, directory: string): boolean {
+  const relative = path.relative(directory, filePath);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
@@ -1,3 +1,4 @@
+import * as vscode from 'vscode';
 import { OpenAIServiceFacade } from './OpenAIServiceFacade';
 import { OpenAIClientServiceImpl } from './OpenAIClientServiceImpl';
 import { ConversationManager } from './ConversationManager';
@@ -6,7 +7,20 @@ import { ToolExecutor } from './ToolExecutor';
 import { DiagnosticsService } from './DiagnosticsService';
 import { CodeActionService } from './CodeActionService';
 import { SymbolInformationService } from './SymbolInformationService';
-import { IDiagnosticsService, ICodeActionService, ISymbolInformationService } from './interfaces';
+import { ToolApprovalService } from './ToolApprovalService';
+import { ConversationStore } from './ConversationStore';
+import { CodeIndexService } from './CodeIndexService';
+import { PlanService } from './PlanService';
+import { ContextBudgetService } from './ContextBudgetService';
+import { UsageTracker } from './UsageTracker';
+import { AgentModeService } from './AgentModeService';
+import { CheckpointService } from './CheckpointService';
+import { RulesService } from './RulesService';
+import { SlashCommandService } from './SlashCommandService';
+import { MentionService } from './MentionService';
+import { ToolRegistry } from '../tools/ToolRegistry';
+import { registerBuiltinTools } from '../tools/builtinTools';
+import { IDiagnosticsService, ICodeActionService, ISymbolInformationService, IToolApprovalService, IOpenAIClientService, IConversationStore, ICodeIndexService, IPlanService, IContextBudgetService, IUsageTracker, IAgentModeService, ICheckpointService, IRulesService, ISlashCommandService, IMentionService } from './interfaces';
 
 /**
  * Factory for creating and wiring up all the services
@@ -17,6 +31,28 @@ export class ServiceFactory {
   private static diagnosticsService: IDiagnosticsService;
   private static codeActionService: ICodeActionService;
   private static symbolInformationService: ISymbolInformationService;
+  private static toolApprovalService: IToolApprovalService;
+  private static openAIClientService: OpenAIClientServiceImpl;
+  private static toolRegistry: ToolRegistry;
+  private static conversationStore: IConversationStore;
+  private static codeIndexService: ICodeIndexService;
+  private static planService: IPlanService;
+  private static contextBudgetService: IContextBudgetService;
+  private static usageTracker: IUsageTracker;
+  private static agentModeService: IAgentModeService;
+  private static checkpointService: ICheckpointService;
+  private static rulesService: IRulesService;
+  private static slashCommandService: ISlashCommandService;
+  private static mentionService: IMentionService;
+  private static extensionContext: vscode.ExtensionContext;
+
+  /**
+   * Store the extension context for services that need extension storage
+   * Must be called when the extension activates
+   */
+  public static initialize(context: vscode.ExtensionContext): void {
+    this.extensionContext = context;
+  }
 
   
   /**
@@ -25,10 +61,10 @@ export class ServiceFactory {
    */
   public static createOpenAIService(projectPath: string): OpenAIServiceFacade {
     // Create the core service implementations
-    const openAIClient = new OpenAIClientServiceImpl();
-    const conversationManager = new ConversationManager();
+    const openAIClient = this.getOpenAIClientService();
+    const conversationManager = new ConversationManager(openAIClient);
     const contextFilesManager = new ContextFilesManager();
-    const toolExecutor = new ToolExecutor(contextFilesManager);
+    const toolExecutor = new ToolExecutor(contextFilesManager, this.getToolRegistry(), this.getCheckpointService());
 
     
     // Create and return the facade that coordinates all services
@@ -37,6 +73,12 @@ export class ServiceFactory {
       conversationManager,
       contextFilesManager,
       toolExecutor,
+      this.getToolApprovalService(),
+      this.getAgentModeService(),
+      this.getPlanService(),
+      this.getContextBudgetService(),
+      this.getUsageTracker(),
+      this.getRulesService(),
       projectPath || ''
     );
   }
@@ -73,4 +115,169 @@ export class ServiceFactory {
     }
     return this.symbolInformationService;
   }
+  
+  /**
+   * Get the tool approval service (creates it if it doesn't exist)
+   * @returns The tool approval service instance
+   */
+  public static getToolApprovalService(): IToolApprovalService {
+    if (!this.toolApprovalService) {
+      this.toolApprovalService = new ToolApprovalService();
+    }
+    return this.toolApprovalService;
+  }
+  
+  /**
+   * Get the client service for the configured LLM provider (creates it if it doesn't exist)
+   * @returns The shared client service instance
+   */
+  public static getOpenAIClientService(): IOpenAIClientService {
+    if (!this.openAIClientService) {
+      this.openAIClientService = new OpenAIClientServiceImpl();
+    }
+    return this.openAIClientService;
+  }
+  
+  /**
+   * Get the tool registry with the built-in tools registered (creates it if it doesn't exist)
+   * @returns The tool registry instance
+   */
+  public static getToolRegistry(): ToolRegistry {
+    if (!this.toolRegistry) {
+      this.toolRegistry = new ToolRegistry();
+      registerBuiltinTools(this.toolRegistry);
+    }
+    return this.toolRegistry;
+  }
+  
+  /**
+   * Get the store for saved chat sessions (creates it if it doesn't exist)
+   * Sessions are saved per workspace, or globally when no workspace is open
+   * @returns The conversation store instance
+   */
+  public static getConversationStore(): IConversationStore {
+    if (!this.conversationStore) {
+      if (!this.extensionContext) {
+        throw new Error('ServiceFactory.initialize must be called before using the conversation store');
+      }
+      const storageUri = this.extensionContext.storageUri || this.extensionContext.globalStorageUri;
+      this.conversationStore = new ConversationStore(storageUri);
+    }
+    return this.conversationStore;
+  }
+  
+  /**
+   * Get the codebase index used by codebase_search (creates it if it doesn't exist)
+   * @returns The code index service instance
+   */
+  public static getCodeIndexService(): ICodeIndexService {
+    if (!this.codeIndexService) {
+      if (!this.extensionContext) {
+        throw new Error('ServiceFactory.initialize must be called before using the code index');
+      }
+      const storageUri = this.extensionContext.storageUri || this.extensionContext.globalStorageUri;
+      this.codeIndexService = new CodeIndexService(storageUri, this.getSymbolInformationService());
+    }
+    return this.codeIndexService;
+  }
+  
+  /**
+   * Get the service holding the agent's plan (creates it if it doesn't exist)
+   * @returns The plan service instance
+   */
+  public static getPlanService(): IPlanService {
+    if (!this.planService) {
+      this.planService = new PlanService();
+    }
+    return this.planService;
+  }
+  
+  /**
+   * Get the service that budgets the model's context window (creates it if it doesn't exist)
+   * @returns The context budget service instance
+   */
+  public static getContextBudgetService(): IContextBudgetService {
+    if (!this.contextBudgetService) {
+      this.contextBudgetService = new ContextBudgetService();
+    }
+    return this.contextBudgetService;
+  }
+  
+  /**
+   * Get the tracker for token usage and cost (creates it if it doesn't exist)
+   * Daily totals are kept in the global state, so they are shared by all workspaces
+   * @returns The usage tracker instance
+   */
+  public static getUsageTracker(): IUsageTracker {
+    if (!this.usageTracker) {
+      if (!this.extensionContext) {
+        throw new Error('ServiceFactory.initialize must be called before using the usage tracker');
+      }
+      this.usageTracker = new UsageTracker(this.extensionContext.globalState);
+    }
+    return this.usageTracker;
+  }
+  
+  /**
+   * Get the service holding the agent mode selected in the chat panel (creates it if it doesn't exist)
+   * @returns The agent mode service instance
+   */
+  public static getAgentModeService(): IAgentModeService {
+    if (!this.agentModeService) {
+      this.agentModeService = new AgentModeService(this.getToolRegistry());
+    }
+    return this.agentModeService;
+  }
+  
+  /**
+   * Get the service that takes workspace checkpoints during agent runs (creates it if it doesn't exist)
+   * @returns The checkpoint service instance
+   */
+  public static getCheckpointService(): ICheckpointService {
+    if (!this.checkpointService) {
+      if (!this.extensionContext) {
+        throw new Error('ServiceFactory.initialize must be called before using the checkpoint service');
+      }
+      const storageUri = this.extensionContext.storageUri || this.extensionContext.globalStorageUri;
+      this.checkpointService = new CheckpointService(storageUri);
+    }
+    return this.checkpointService;
+  }
+  
+  /**
+   * Get the service that loads the rules files for the system prompt (creates it if it doesn't exist)
+   * @returns The rules service instance
+   */
+  public static getRulesService(): IRulesService {
+    if (!this.rulesService) {
+      this.rulesService = new RulesService();
+    }
+    return this.rulesService;
+  }
+  
+  /**
+   * Get the service for the slash commands of the chat input (creates it if it doesn't exist)
+   * @returns The slash command service instance
+   */
+  public static getSlashCommandService(): ISlashCommandService {
+    if (!this.slashCommandService) {
+      this.slashCommandService = new SlashCommandService(this.getDiagnosticsService());
+    }
+    return this.slashCommandService;
+  }
+  
+  /**
+   * Get the service that resolves the @-mentions of the chat input (creates it if it doesn't exist)
+   * @returns The mention service instance
+   */
+  public static getMentionService(): IMentionService {
+    if (!this.mentionService) {
+      this.mentionService = new MentionService(
+        this.getOpenAIClientService(),
+        this.getContextBudgetService(),
+        this.getDiagnosticsService()
+      );
+    }
+    return this.mentionService;
+  }
 }
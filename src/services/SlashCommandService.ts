@@ -0,0 +1,227 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { IDiagnosticsService, ISlashCommandService } from './interfaces';
+import { SlashCommand } from './types/SlashCommand';
+
+// Found in the root of every workspace folder
+const COMMANDS_GLOB = '.quest1/commands/*.md';
+const COMMAND_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+// Larger code is cut so a command on a big file doesn't fill the context window on its own
+const MAX_CODE_CHARS = 30000;
+
+const EDITOR_VARIABLES = ['code', 'selection', 'file', 'fileContent', 'language', 'diagnostics'];
+
+const CODE_BLOCK = '```{{language}}\n{{code}}\n```';
+
+const BUILTIN_COMMANDS: SlashCommand[] = [
+  {
+    name: 'explain',
+    description: 'Explain the selected code or the current file',
+    template: `Explain what this code from {{file}} does and how it works.\n\n${CODE_BLOCK}`,
+    source: 'builtin'
+  },
+  {
+    name: 'fix',
+    description: 'Fix the problems in the selected code or the current file',
+    template: `Fix the problems in this code from {{file}}. Check the diagnostics again after the change.\n\nDiagnostics:\n{{diagnostics}}\n\n${CODE_BLOCK}`,
+    source: 'builtin'
+  },
+  {
+    name: 'tests',
+    description: 'Write unit tests for the selected code or the current file',
+    template: `Write unit tests for this code from {{file}}. Use the test framework and the conventions the project already uses, and cover edge cases and error paths.\n\n${CODE_BLOCK}`,
+    source: 'builtin'
+  },
+  {
+    name: 'review',
+    description: 'Review the selected code or the current file',
+    template: `Review this code from {{file}} for bugs, unhandled edge cases, security issues and readability. List the issues from the most to the least important, with a concrete suggestion for each. Don't change any files.\n\n${CODE_BLOCK}`,
+    source: 'builtin'
+  },
+  {
+    name: 'doc',
+    description: 'Add documentation comments to the selected code or the current file',
+    template: `Add documentation comments to this code from {{file}}, in the style the project already uses. Don't change its behavior.\n\n${CODE_BLOCK}`,
+    source: 'builtin'
+  }
+];
+
+/**
+ * Slash commands of the chat input: the built-in commands and the ones a team defines in
+ * .quest1/commands/<name>.md, with an optional "description:" in a front matter block.
+ * A workspace command replaces a built-in command with the same name.
+ */
+export class SlashCommandService implements ISlashCommandService {
+  private readonly onDidChangeCommandsEmitter = new vscode.EventEmitter<SlashCommand[]>();
+  public readonly onDidChangeCommands: vscode.Event<SlashCommand[]> = this.onDidChangeCommandsEmitter.event;
+
+  private workspaceCommands: SlashCommand[] | undefined;
+  // The chat panel takes the focus from the editor, so remember the last one used
+  private lastEditor: vscode.TextEditor | undefined = vscode.window.activeTextEditor;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(private readonly diagnosticsService: IDiagnosticsService) {}
+
+  /**
+   * Start watching the workspace commands and the active editor
+   */
+  public start(): void {
+    const watcher = vscode.workspace.createFileSystemWatcher(COMMANDS_GLOB);
+    const reload = () => {
+      this.workspaceCommands = undefined;
+      this.getCommands()
+        .then(commands => this.onDidChangeCommandsEmitter.fire(commands))
+        .catch(error => console.error('Error reloading slash commands:', error));
+    };
+
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate(reload),
+      watcher.onDidChange(reload),
+      watcher.onDidDelete(reload),
+      vscode.workspace.onDidChangeWorkspaceFolders(reload),
+      vscode.window.onDidChangeActiveTextEditor(editor => {
+        if (editor) {
+          this.lastEditor = editor;
+        }
+      })
+    );
+  }
+
+  /**
+   * Get the available commands, sorted by name
+   */
+  public async getCommands(): Promise<SlashCommand[]> {
+    if (!this.workspaceCommands) {
+      this.workspaceCommands = await this.loadWorkspaceCommands();
+    }
+
+    const commands = new Map<string, SlashCommand>();
+    for (const command of [...BUILTIN_COMMANDS, ...this.workspaceCommands]) {
+      commands.set(command.name, command);
+    }
+    return Array.from(commands.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Expand a message starting with a slash command to the command's prompt
+   * @param text The message typed in the chat input
+   * @returns The prompt, or undefined if the message doesn't start with a known command
+   * @throws Error when the command needs an open file and there is none
+   */
+  public async expand(text: string): Promise<string | undefined> {
+    const match = text.match(/^\/([^\s]+)(?:\s+([\s\S]*))?$/);
+    if (!match) {
+      return undefined;
+    }
+
+    const command = (await this.getCommands()).find(candidate => candidate.name === match[1]);
+    if (!command) {
+      return undefined;
+    }
+
+    const input = (match[2] || '').trim();
+    const variables: Record<string, string> = { input };
+
+    const usedVariables = Array.from(command.template.matchAll(/\{\{(\w+)\}\}/g), variable => variable[1]);
+    if (usedVariables.some(variable => EDITOR_VARIABLES.includes(variable))) {
+      Object.assign(variables, this.getEditorVariables(command.name));
+    }
+
+    let prompt = command.template.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) => variables[name] ?? placeholder);
+    if (input && !usedVariables.includes('input')) {
+      prompt += `\n\n${input}`;
+    }
+
+    console.log(`Expanded slash command /${command.name}`);
+    return prompt;
+  }
+
+  public dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.onDidChangeCommandsEmitter.dispose();
+  }
+
+  /**
+   * Read the values of the variables about the file open in the editor
+   */
+  private getEditorVariables(commandName: string): Record<string, string> {
+    const editor = this.lastEditor && !this.lastEditor.document.isClosed
+      ? this.lastEditor
+      : vscode.window.visibleTextEditors[0];
+    if (!editor) {
+      throw new Error(`/${commandName} works on the file open in the editor. Open a file or select some code first.`);
+    }
+
+    const { document, selection } = editor;
+    const selectedText = selection.isEmpty ? '' : document.getText(selection);
+    const fileContent = document.getText();
+
+    // Only report the problems in the selected lines when there is a selection
+    const diagnostics = this.diagnosticsService.getDiagnosticsForFile(document.uri.fsPath)
+      .filter(diagnostic => selection.isEmpty || (diagnostic.range.endLine >= selection.start.line && diagnostic.range.startLine <= selection.end.line))
+      .sort((a, b) => a.severity - b.severity || a.range.startLine - b.range.startLine)
+      .map(diagnostic => `- Line ${diagnostic.range.startLine + 1} (${vscode.DiagnosticSeverity[diagnostic.severity]}): ${diagnostic.message}`);
+
+    const file = document.uri.scheme === 'file'
+      ? vscode.workspace.asRelativePath(document.uri)
+      : document.fileName;
+
+    return {
+      code: truncateCode(selectedText || fileContent),
+      selection: truncateCode(selectedText),
+      file: selection.isEmpty ? file : `${file} (lines ${selection.start.line + 1}-${selection.end.line + 1})`,
+      fileContent: truncateCode(fileContent),
+      language: document.languageId,
+      diagnostics: diagnostics.length > 0 ? diagnostics.join('\n') : 'No problems reported.'
+    };
+  }
+
+  /**
+   * Load the commands defined in .quest1/commands of the workspace folders
+   */
+  private async loadWorkspaceCommands(): Promise<SlashCommand[]> {
+    const uris = await vscode.workspace.findFiles(COMMANDS_GLOB);
+    const commands: SlashCommand[] = [];
+
+    for (const uri of uris) {
+      const name = path.basename(uri.fsPath, '.md');
+      if (!COMMAND_NAME_PATTERN.test(name)) {
+        console.warn(`Skipping slash command ${uri.fsPath}: the name can only contain letters, digits, - and _`);
+        continue;
+      }
+
+      try {
+        const content = await fs.promises.readFile(uri.fsPath, 'utf8');
+        const frontMatter = content.match(FRONT_MATTER_PATTERN);
+        const description = frontMatter?.[1].match(/^description:\s*(.+)$/m)?.[1].trim();
+        const template = (frontMatter ? content.substring(frontMatter[0].length) : content).trim();
+        if (!template) {
+          continue;
+        }
+
+        commands.push({
+          name,
+          description: description || `Custom command from ${vscode.workspace.asRelativePath(uri)}`,
+          template,
+          source: 'workspace',
+          path: uri.fsPath
+        });
+      } catch (error) {
+        console.error(`Error loading slash command ${uri.fsPath}:`, error);
+      }
+    }
+
+    console.log(`Loaded ${commands.length} workspace slash commands`);
+    return commands;
+  }
+}
+
+function truncateCode(code: string): string {
+  return code.length > MAX_CODE_CHARS
+    ? `${code.substring(0, MAX_CODE_CHARS)}\n[... truncated, ${code.length - MAX_CODE_CHARS} more characters]`
+    : code;
+}
@@ -0,0 +1,88 @@
+import { getEncoding, Tiktoken } from 'js-tiktoken';
+import { ConversationMessage } from './types';
+
+type EncodingName = 'o200k_base' | 'cl100k_base';
+
+// Tokens the chat format adds around each message and before the reply
+const TOKENS_PER_MESSAGE = 4;
+const TOKENS_PER_REPLY = 3;
+
+/**
+ * Counts tokens with the tokenizer of the configured model
+ * Models without a public tokenizer (Claude, local models) are counted with cl100k_base,
+ * which is close enough for budgeting
+ */
+export class TokenCounter {
+  // Encoders are large, so they are loaded on first use and shared
+  private static encoders = new Map<EncodingName, Tiktoken>();
+  private readonly encoder: Tiktoken;
+
+  constructor(model: string) {
+    this.encoder = TokenCounter.getEncoder(TokenCounter.getEncodingName(model));
+  }
+
+  /**
+   * Count the tokens of a text
+   */
+  public count(text: string): number {
+    return text ? this.encoder.encode(text, [], []).length : 0;
+  }
+
+  /**
+   * Count the tokens a message takes in a request, including its tool calls
+   */
+  public countMessage(message: ConversationMessage | { role: string; content: string; tool_calls?: any[] }): number {
+    let tokens = TOKENS_PER_MESSAGE + this.count(typeof message.content === 'string' ? message.content : JSON.stringify(message.content ?? ''));
+    for (const toolCall of message.tool_calls || []) {
+      tokens += this.count(toolCall.function.name) + this.count(toolCall.function.arguments);
+    }
+    return tokens;
+  }
+
+  /**
+   * Count the tokens of the messages of a request, including the reply priming
+   */
+  public countMessages(messages: any[]): number {
+    return messages.reduce((sum, message) => sum + this.countMessage(message), TOKENS_PER_REPLY);
+  }
+
+  /**
+   * Count the tokens the tool schemas take in a request
+   */
+  public countTools(tools: any[]): number {
+    return tools.length > 0 ? this.count(JSON.stringify(tools)) : 0;
+  }
+
+  /**
+   * Shorten a text to at most maxTokens, keeping its beginning and end
+   */
+  public truncate(text: string, maxTokens: number): string {
+    const tokens = this.encoder.encode(text, [], []);
+    if (tokens.length <= maxTokens) {
+      return text;
+    }
+
+    const headTokens = Math.floor(maxTokens * 0.7);
+    const tailTokens = maxTokens - headTokens;
+    const head = this.encoder.decode(tokens.slice(0, headTokens));
+    const tail = this.encoder.decode(tokens.slice(tokens.length - tailTokens));
+    return `${head}\n\n[... ${tokens.length - maxTokens} tokens truncated ...]\n\n${tail}`;
+  }
+
+  private static getEncodingName(model: string): EncodingName {
+    const name = model.toLowerCase();
+    if (/^(gpt-4o|gpt-4\.1|gpt-5|o\d|chatgpt-4o)/.test(name)) {
+      return 'o200k_base';
+    }
+    return 'cl100k_base';
+  }
+
+  private static getEncoder(name: EncodingName): Tiktoken {
+    let encoder = this.encoders.get(name);
+    if (!encoder) {
+      encoder = getEncoding(name);
+      this.encoders.set(name, encoder);
+    }
+    return encoder;
+  }
+}
@@ -0,0 +1,326 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { IToolApprovalService } from './interfaces';
+import { ToolApprovalResult } from './types';
+import { computeUpdatedContent } from '../tools/updateFile';
+import { computeEditedContent, findUnsavedDocument, readCurrentContent } from '../tools/editFile';
+import { computeCodeActionChanges, findCodeAction } from '../tools/applyCodeAction';
+
+/**
+ * URI scheme used to serve proposed file contents to the diff editor
+ */
+const PROPOSED_CONTENT_SCHEME = 'quest1-proposed';
+
+/**
+ * Service that asks the user to approve tool calls with side effects before they run.
+ * File writes are previewed in a diff editor (current content vs proposed content).
+ */
+export class ToolApprovalService implements IToolApprovalService {
+  private disposables: vscode.Disposable[] = [];
+  private proposedContents = new Map<string, string>();
+  private previewCounter = 0;
+
+  constructor() {
+    // Serve proposed contents as read-only documents for the diff editor
+    this.disposables.push(
+      vscode.workspace.registerTextDocumentContentProvider(PROPOSED_CONTENT_SCHEME, {
+        provideTextDocumentContent: (uri: vscode.Uri) => this.proposedContents.get(uri.toString()) ?? ''
+      })
+    );
+  }
+
+  /**
+   * Preview the change a tool call would make and ask the user to approve, reject or edit it
+   * @param toolName The name of the tool about to run
+   * @param args The parsed arguments of the tool call
+   * @returns The user's decision and the arguments to run the tool with
+   */
+  public async requestApproval(toolName: string, args: any): Promise<ToolApprovalResult> {
+    try {
+      switch (toolName) {
+        case 'create_file':
+          return await this.reviewFileChange(toolName, args, args.FilePath, '', args.Content, false);
+
+        case 'update_file': {
+          if (!args.FilePath || !fs.existsSync(args.FilePath)) {
+            // Nothing to diff against, the tool will report the missing file
+            return this.askSimpleApproval(`Quest1 wants to update ${args.FilePath}.`, args);
+          }
+          const existingContent = fs.readFileSync(args.FilePath, 'utf8');
+          const update = computeUpdatedContent(existingContent, args.Content, args.InsertAtLine, args.InsertAtColumn);
+          if (update.content === undefined) {
+            // Invalid position, the tool will report the error back to the model
+            return { approved: true, args };
+          }
+          return await this.reviewFileChange(toolName, args, args.FilePath, existingContent, update.content, true);
+        }
+
+        case 'edit_file': {
+          if (!args.FilePath || !fs.existsSync(args.FilePath)) {
+            return this.askSimpleApproval(`Quest1 wants to edit ${args.FilePath}.`, args);
+          }
+          const existingContent = await readCurrentContent(args.FilePath);
+          const edit = computeEditedContent(existingContent, args.Edits, args.Diff);
+          if (edit.content === undefined || findUnsavedDocument(args.FilePath)) {
+            // The edit can't be applied, the tool will report why to the model
+            return { approved: true, args };
+          }
+          return await this.reviewFileChange(toolName, args, args.FilePath, existingContent, edit.content, true);
+        }
+
+        case 'create_directory':
+          return this.askSimpleApproval(`Quest1 wants to create the directory ${args.DirectoryPath}.`, args);
+
+        case 'run_command':
+          return await this.reviewCommand(args);
+
+        case 'apply_code_action':
+          return await this.reviewCodeAction(args);
+
+        default:
+          return this.askSimpleApproval(
+            `Quest1 wants to run ${toolName} with arguments: ${JSON.stringify(args)}`,
+            args
+          );
+      }
+    } catch (error) {
+      console.error(`Error requesting approval for ${toolName}:`, error);
+      return { approved: false, args };
+    }
+  }
+
+  /**
+   * Show a diff of the proposed file content and ask for a decision
+   */
+  private async reviewFileChange(
+    toolName: string,
+    args: any,
+    filePath: string,
+    originalContent: string,
+    proposedContent: string,
+    fileExists: boolean
+  ): Promise<ToolApprovalResult> {
+    const fileName = path.basename(filePath);
+    const proposedUri = this.registerProposedContent(filePath, proposedContent);
+    const originalUri = fileExists
+      ? vscode.Uri.file(filePath)
+      : this.registerProposedContent(filePath, originalContent);
+
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      originalUri,
+      proposedUri,
+      `${fileName} (proposed by Quest1)`,
+      { preview: true }
+    );
+
+    const action = fileExists ? 'update' : 'create';
+    const choice = await vscode.window.showInformationMessage(
+      `Quest1 wants to ${action} ${fileName}. Review the diff and choose an action.`,
+      'Approve', 'Reject', 'Edit'
+    );
+
+    await this.closePreview(proposedUri);
+    this.proposedContents.delete(proposedUri.toString());
+    this.proposedContents.delete(originalUri.toString());
+
+    if (choice === 'Approve') {
+      return { approved: true, args };
+    }
+
+    if (choice === 'Edit') {
+      const editedContent = await this.editContent(filePath, proposedContent);
+      if (editedContent === undefined) {
+        return { approved: false, args };
+      }
+
+      // Edited content always replaces the whole file
+      let editedArgs: any;
+      if (toolName === 'update_file') {
+        editedArgs = { ...args, Content: editedContent, InsertAtLine: undefined, InsertAtColumn: undefined };
+      } else if (toolName === 'edit_file') {
+        editedArgs = { FilePath: args.FilePath, Edits: [{ Search: originalContent, Replace: editedContent }] };
+      } else {
+        editedArgs = { ...args, Content: editedContent };
+      }
+      return { approved: true, args: editedArgs, edited: true };
+    }
+
+    return { approved: false, args };
+  }
+
+  /**
+   * Let the user edit the proposed content in a scratch document
+   * @returns The edited content, or undefined if the user rejected the change
+   */
+  private async editContent(filePath: string, proposedContent: string): Promise<string | undefined> {
+    const document = await vscode.workspace.openTextDocument({
+      content: proposedContent,
+      language: this.getLanguageId(filePath)
+    });
+    await vscode.window.showTextDocument(document, { preview: false });
+
+    const choice = await vscode.window.showInformationMessage(
+      `Edit the proposed content for ${path.basename(filePath)}, then apply it.`,
+      'Apply Edited', 'Reject'
+    );
+
+    const editedContent = document.getText();
+
+    // Discard the scratch document without prompting to save it
+    await vscode.window.showTextDocument(document);
+    await vscode.commands.executeCommand('workbench.action.revertAndCloseActiveEditor');
+
+    return choice === 'Apply Edited' ? editedContent : undefined;
+  }
+
+  /**
+   * Show a diff of each file a code action's edit changes and ask for a decision
+   * Actions implemented as a command can only be described, since their changes are known after they run
+   */
+  private async reviewCodeAction(args: any): Promise<ToolApprovalResult> {
+    const { codeAction } = await findCodeAction(args);
+    if (!codeAction) {
+      // The tool will report the missing action to the model
+      return { approved: true, args };
+    }
+
+    const description = `the code action "${codeAction.title}" in ${path.basename(args.FilePath || '')}`;
+    const changes = (await computeCodeActionChanges(codeAction))
+      .filter(change => change.proposedContent !== change.originalContent);
+    if (changes.length === 0) {
+      return this.askSimpleApproval(
+        `Quest1 wants to apply ${description}. It runs a command of the language server, so its changes can't be previewed.`,
+        args
+      );
+    }
+
+    // The documents may have unsaved changes, so the diff starts from their current content
+    const previewUris: vscode.Uri[] = [];
+    for (const change of changes) {
+      const originalUri = this.registerProposedContent(change.uri.fsPath, change.originalContent);
+      const proposedUri = this.registerProposedContent(change.uri.fsPath, change.proposedContent);
+      previewUris.push(originalUri, proposedUri);
+      await vscode.commands.executeCommand(
+        'vscode.diff',
+        originalUri,
+        proposedUri,
+        `${path.basename(change.uri.fsPath)} (proposed by Quest1)`,
+        { preview: false }
+      );
+    }
+
+    const files = changes.map(change => path.basename(change.uri.fsPath)).join(', ');
+    const commandNote = codeAction.command ? ' It also runs a command of the language server, which may change more.' : '';
+    const choice = await vscode.window.showInformationMessage(
+      `Quest1 wants to apply ${description}, changing ${files}. Review the diff and choose an action.${commandNote}`,
+      'Approve', 'Reject'
+    );
+
+    for (let i = 1; i < previewUris.length; i += 2) {
+      await this.closePreview(previewUris[i]);
+    }
+    previewUris.forEach(uri => this.proposedContents.delete(uri.toString()));
+
+    return { approved: choice === 'Approve', args };
+  }
+
+  /**
+   * Ask for approval of a shell command, allowing the user to edit it first
+   */
+  private async reviewCommand(args: any): Promise<ToolApprovalResult> {
+    const choice = await vscode.window.showWarningMessage(
+      `Quest1 wants to run "${args.CommandLine}" in ${args.Cwd}.`,
+      'Approve', 'Reject', 'Edit'
+    );
+
+    if (choice === 'Approve') {
+      return { approved: true, args };
+    }
+
+    if (choice === 'Edit') {
+      const commandLine = await vscode.window.showInputBox({
+        prompt: `Edit the command to run in ${args.Cwd}`,
+        value: args.CommandLine
+      });
+      if (!commandLine) {
+        return { approved: false, args };
+      }
+      return { approved: true, args: { ...args, CommandLine: commandLine }, edited: commandLine !== args.CommandLine };
+    }
+
+    return { approved: false, args };
+  }
+
+  /**
+   * Ask a plain approve/reject question for changes that can't be previewed
+   */
+  private async askSimpleApproval(message: string, args: any): Promise<ToolApprovalResult> {
+    const choice = await vscode.window.showWarningMessage(message, 'Approve', 'Reject');
+    return { approved: choice === 'Approve', args };
+  }
+
+  /**
+   * Store proposed content and return the URI the diff editor can load it from
+   */
+  private registerProposedContent(filePath: string, content: string): vscode.Uri {
+    this.previewCounter++;
+    const uri = vscode.Uri.from({
+      scheme: PROPOSED_CONTENT_SCHEME,
+      path: filePath,
+      query: `preview=${this.previewCounter}`
+    });
+    this.proposedContents.set(uri.toString(), content);
+    return uri;
+  }
+
+  /**
+   * Close any diff editor tabs showing the given proposed content
+   */
+  private async closePreview(proposedUri: vscode.Uri): Promise<void> {
+    const tabs = vscode.window.tabGroups.all
+      .flatMap(group => group.tabs)
+      .filter(tab =>
+        tab.input instanceof vscode.TabInputTextDiff &&
+        tab.input.modified.toString() === proposedUri.toString()
+      );
+
+    if (tabs.length > 0) {
+      await vscode.window.tabGroups.close(tabs);
+    }
+  }
+
+  /**
+   * Guess the language of a file from its extension for the scratch editor
+   */
+  private getLanguageId(filePath: string): string {
+    const languages: Record<string, string> = {
+      '.ts': 'typescript',
+      '.tsx': 'typescriptreact',
+      '.js': 'javascript',
+      '.jsx': 'javascriptreact',
+      '.json': 'json',
+      '.py': 'python',
+      '.java': 'java',
+      '.go': 'go',
+      '.rb': 'ruby',
+      '.cs': 'csharp',
+      '.c': 'c',
+      '.cpp': 'cpp',
+      '.md': 'markdown',
+      '.html': 'html',
+      '.css': 'css'
+    };
+    return languages[path.extname(filePath).toLowerCase()] || 'plaintext';
+  }
+
+  /**
+   * Dispose of resources
+   */
+  public dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
+    this.proposedContents.clear();
+  }
+}
@@ -1,70 +1,217 @@
-import { IToolCallProcessorService, IToolExecutorService } from './interfaces';
+import * as vscode from 'vscode';
+import { IAgentModeService, IToolApprovalService, IToolCallProcessorService, IToolExecutorService } from './interfaces';
 import { ToolCallResult } from './types';
+import { formatValidationErrors } from '../tools/validateToolArguments';
 
 /**
  * Service responsible for processing tool calls from the OpenAI API
  */
 export class ToolCallProcessorService implements IToolCallProcessorService {
+  // Read-only tool calls of one turn that may run at the same time
+  private readonly MAX_CONCURRENT_TOOL_CALLS = 4;
+  
   constructor(
-    private readonly toolExecutor: IToolExecutorService
+    private readonly toolExecutor: IToolExecutorService,
+    private readonly toolApproval: IToolApprovalService,
+    private readonly agentModes: IAgentModeService
   ) {}
 
   /**
    * Process a list of tool calls and execute them
+   * Arguments are validated against the tool's schema, and the agent mode decides whether a call
+   * runs, is blocked, or is previewed and approved by the user first; invalid and rejected calls are returned as
+   * tool results so the model can adjust its approach. After cancellation, the remaining calls
+   * get a cancelled result so every tool call in the history has a response.
+   * Consecutive read-only calls run concurrently; calls with side effects run one at a time,
+   * in order. Results are returned in the order of the tool calls.
    * @param toolCalls The tool calls to process
-   * @param breakingChangeTools List of tool names that require user confirmation
-   * @returns Object containing results and whether user confirmation is required
+   * @param token Optional token that cancels the remaining tool calls
+   * @param checkpointRunId Optional checkpoint run that records the files the tool calls change
+   * @returns Object containing the results of the tool calls
    */
   public async processToolCalls(
-    toolCalls: any[], 
-    breakingChangeTools: string[]
-  ): Promise<{ requiresUserConfirmation: boolean; results: ToolCallResult[] }> {
+    toolCalls: any[],
+    token?: vscode.CancellationToken,
+    checkpointRunId?: string
+  ): Promise<{ results: ToolCallResult[] }> {
     const results: ToolCallResult[] = [];
-    let requiresUserConfirmation = false;
+    let readOnlyBatch: any[] = [];
+    
+    const runReadOnlyBatch = async () => {
+      if (readOnlyBatch.length > 0) {
+        results.push(...await this.processConcurrently(readOnlyBatch, token, checkpointRunId));
+        readOnlyBatch = [];
+      }
+    };
     
-    // Process each tool call
     for (const toolCall of toolCalls) {
-      const toolName = toolCall.function.name;
-      
       // Skip the 'done' tool as it's handled separately
-      if (toolName === 'done') {
+      if (toolCall.function.name === 'done') {
+        continue;
+      }
+      
+      if (this.toolExecutor.canRunConcurrently(toolCall.function.name)) {
+        readOnlyBatch.push(toolCall);
         continue;
       }
       
-      try {
-        // Parse function arguments
-        const functionArgs = JSON.parse(toolCall.function.arguments);
+      // Reads requested before a change must see the workspace as it was
+      await runReadOnlyBatch();
+      results.push(await this.processToolCall(toolCall, token, checkpointRunId));
+    }
+    await runReadOnlyBatch();
+    
+    return { results };
+  }
+  
+  /**
+   * Process read-only tool calls with at most MAX_CONCURRENT_TOOL_CALLS running at once
+   * @returns The results, in the order of the tool calls
+   */
+  private async processConcurrently(
+    toolCalls: any[],
+    token?: vscode.CancellationToken,
+    checkpointRunId?: string
+  ): Promise<ToolCallResult[]> {
+    const results: ToolCallResult[] = new Array(toolCalls.length);
+    let next = 0;
+    
+    const worker = async () => {
+      while (next < toolCalls.length) {
+        const index = next++;
+        results[index] = await this.processToolCall(toolCalls[index], token, checkpointRunId);
+      }
+    };
+    
+    const workerCount = Math.min(this.MAX_CONCURRENT_TOOL_CALLS, toolCalls.length);
+    await Promise.all(Array.from({ length: workerCount }, () => worker()));
+    
+    return results;
+  }
+  
+  /**
+   * Validate, approve if needed, and execute a single tool call
+   */
+  private async processToolCall(
+    toolCall: any,
+    token?: vscode.CancellationToken,
+    checkpointRunId?: string
+  ): Promise<ToolCallResult> {
+    const toolName = toolCall.function.name;
+    
+    if (token?.isCancellationRequested) {
+      return this.createCancelledResult(toolCall);
+    }
+    
+    try {
+      // Parse function arguments
+      let functionArgs = JSON.parse(toolCall.function.arguments);
+      let edited = false;
+      
+      // Don't ask the user to approve a call that can't run
+      const validationErrors = this.toolExecutor.validateToolArguments(toolName, functionArgs);
+      if (validationErrors.length > 0) {
+        return {
+          tool_call_id: toolCall.id,
+          output: formatValidationErrors(toolName, validationErrors),
+          success: false
+        };
+      }
+      
+      // The agent mode decides which calls run on their own and which the user approves
+      const decision = this.agentModes.checkToolCall(toolName, functionArgs);
+      if (decision.permission === 'deny') {
+        console.log(`Tool call ${toolName} blocked: ${decision.reason}`);
+        return {
+          tool_call_id: toolCall.id,
+          output: decision.reason || `${toolName} is not available.`,
+          success: false,
+          rejected: true
+        };
+      }
+      
+      if (decision.permission === 'ask') {
+        const approval = await this.waitUnlessCancelled(
+          this.toolApproval.requestApproval(toolName, functionArgs),
+          token
+        );
         
-        // Check if this tool requires user confirmation
-        if (breakingChangeTools.includes(toolName) || this.toolExecutor.requiresUserConfirmation(toolName)) {
-          requiresUserConfirmation = true;
+        if (!approval) {
+          return this.createCancelledResult(toolCall);
         }
         
-        // Execute the tool with a timeout
-        const output = await this.toolExecutor.executeToolWithTimeout(
-          toolName,
-          functionArgs,
-          30000 // 30 second timeout for regular tools
-        );
-        
-        // Record the result
-        results.push({
-          tool_call_id: toolCall.id,
-          output,
-          success: true
-        });
-      } catch (error) {
-        console.error(`Error executing tool ${toolName}:`, error);
+        if (!approval.approved) {
+          console.log(`User rejected tool call ${toolName}`);
+          return {
+            tool_call_id: toolCall.id,
+            output: `The user rejected this ${toolName} call, so it was not executed. Do not repeat the same call; adjust your approach or ask the user how to proceed.`,
+            success: false,
+            rejected: true
+          };
+        }
         
-        // Record the failure
-        results.push({
-          tool_call_id: toolCall.id,
-          output: `Error: ${error instanceof Error ? error.message : String(error)}`,
-          success: false
-        });
+        functionArgs = approval.args;
+        edited = !!approval.edited;
       }
+      
+      // Execute the tool with the timeout it was registered with
+      const output = await this.toolExecutor.executeToolWithTimeout(toolName, functionArgs, undefined, token, checkpointRunId);
+      
+      // Record the result
+      return {
+        tool_call_id: toolCall.id,
+        output: edited
+          ? `${output}\n\nNote: the user edited your proposed change before it was applied.`
+          : output,
+        success: true
+      };
+    } catch (error) {
+      console.error(`Error executing tool ${toolName}:`, error);
+      
+      // Record the failure
+      return {
+        tool_call_id: toolCall.id,
+        output: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        success: false
+      };
+    }
+  }
+  
+  /**
+   * Create the result for a tool call that was cancelled before it ran
+   */
+  private createCancelledResult(toolCall: any): ToolCallResult {
+    return {
+      tool_call_id: toolCall.id,
+      output: 'The user stopped the run before this tool call was executed.',
+      success: false,
+      cancelled: true
+    };
+  }
+  
+  /**
+   * Wait for a promise, or resolve to undefined as soon as the token is cancelled
+   */
+  private waitUnlessCancelled<T>(promise: Promise<T>, token?: vscode.CancellationToken): Promise<T | undefined> {
+    if (!token) {
+      return promise;
     }
     
-    return { requiresUserConfirmation, results };
+    return new Promise<T | undefined>((resolve, reject) => {
+      const listener = token.onCancellationRequested(() => {
+        listener.dispose();
+        resolve(undefined);
+      });
+      promise.then(
+        value => {
+          listener.dispose();
+          resolve(value);
+        },
+        error => {
+          listener.dispose();
+          reject(error);
+        }
+      );
+    });
   }
 }
@@ -0,0 +1,198 @@
+import * as vscode from 'vscode';
+import { IUsageTracker } from './interfaces';
+import { ModelPrice, RecordUsageOptions, UsageRecord, UsageSummary, UsageTotals } from './types/Usage';
+import { readProviderSettings } from './providers/ProviderFactory';
+
+/**
+ * Default prices in US dollars per million tokens by model name, first match wins
+ * Override or extend them with the quest1CodeAssistant.pricing setting
+ */
+const DEFAULT_PRICES: [RegExp, ModelPrice][] = [
+  [/^gpt-4\.1-nano/, { input: 0.1, output: 0.4, cachedInput: 0.025 }],
+  [/^gpt-4\.1-mini/, { input: 0.4, output: 1.6, cachedInput: 0.1 }],
+  [/^gpt-4\.1/, { input: 2, output: 8, cachedInput: 0.5 }],
+  [/^gpt-5-nano/, { input: 0.05, output: 0.4, cachedInput: 0.005 }],
+  [/^gpt-5-mini/, { input: 0.25, output: 2, cachedInput: 0.025 }],
+  [/^gpt-5/, { input: 1.25, output: 10, cachedInput: 0.125 }],
+  [/^(gpt-4o-mini|chatgpt-4o-mini)/, { input: 0.15, output: 0.6, cachedInput: 0.075 }],
+  [/^(gpt-4o|chatgpt-4o)/, { input: 2.5, output: 10, cachedInput: 1.25 }],
+  [/^o[34]-mini/, { input: 1.1, output: 4.4, cachedInput: 0.275 }],
+  [/^o3/, { input: 2, output: 8, cachedInput: 0.5 }],
+  [/^o1-mini/, { input: 1.1, output: 4.4, cachedInput: 0.55 }],
+  [/^o1/, { input: 15, output: 60, cachedInput: 7.5 }],
+  [/^gpt-4-turbo/, { input: 10, output: 30 }],
+  [/^gpt-4/, { input: 30, output: 60 }],
+  [/^gpt-3\.5-turbo/, { input: 0.5, output: 1.5 }],
+  [/^claude.*opus/, { input: 15, output: 75, cachedInput: 1.5 }],
+  [/^claude.*sonnet/, { input: 3, output: 15, cachedInput: 0.3 }],
+  [/^claude-3-5-haiku|^claude-haiku/, { input: 0.8, output: 4, cachedInput: 0.08 }],
+  [/^claude-3-haiku/, { input: 0.25, output: 1.25, cachedInput: 0.03 }]
+];
+
+// Local models cost nothing per token
+const FREE: ModelPrice = { input: 0, output: 0 };
+
+const DAILY_USAGE_KEY = 'quest1CodeAssistant.dailyUsage';
+
+/**
+ * Records the token usage of model requests and what it costs, per agent run,
+ * per VS Code session and per day, and enforces the configured cost budgets
+ * Daily totals are kept in the extension's global state so they survive restarts.
+ */
+export class UsageTracker implements IUsageTracker {
+  private runRecords: UsageRecord[] = [];
+  private run = createTotals();
+  private session = createTotals();
+  private today: { date: string; totals: UsageTotals };
+
+  private readonly onDidUpdateUsageEmitter = new vscode.EventEmitter<UsageSummary>();
+  public readonly onDidUpdateUsage: vscode.Event<UsageSummary> = this.onDidUpdateUsageEmitter.event;
+
+  constructor(private readonly globalState: vscode.Memento) {
+    const saved = globalState.get<{ date: string; totals: UsageTotals }>(DAILY_USAGE_KEY);
+    this.today = saved && saved.date === getDate() ? saved : { date: getDate(), totals: createTotals() };
+  }
+
+  /**
+   * Start counting a new agent run
+   */
+  public startRun(): void {
+    this.runRecords = [];
+    this.run = createTotals();
+    this.onDidUpdateUsageEmitter.fire(this.getSummary());
+  }
+
+  /**
+   * Record the usage reported with a model response
+   * @param model The model the request was sent to
+   * @param usage The usage object of the response in the OpenAI format
+   * @param options Whether the request counts toward the current agent run
+   * @returns The recorded usage, or undefined if the response didn't report any
+   */
+  public recordUsage(model: string, usage: any, options: RecordUsageOptions = {}): UsageRecord | undefined {
+    if (!usage) {
+      return undefined;
+    }
+
+    const promptTokens = usage.prompt_tokens || 0;
+    const completionTokens = usage.completion_tokens || 0;
+    // Cached tokens are a part of the prompt tokens that is billed at a lower price
+    const cachedTokens = Math.min(usage.prompt_tokens_details?.cached_tokens || 0, promptTokens);
+
+    const price = this.getPrice(model);
+    const record: UsageRecord = {
+      model,
+      promptTokens,
+      completionTokens,
+      cachedTokens,
+      cost: price
+        ? ((promptTokens - cachedTokens) * price.input +
+          cachedTokens * (price.cachedInput ?? price.input) +
+          completionTokens * price.output) / 1000000
+        : undefined,
+      timestamp: Date.now()
+    };
+
+    if (this.today.date !== getDate()) {
+      this.today = { date: getDate(), totals: createTotals() };
+    }
+
+    if (options.run !== false) {
+      this.runRecords.push(record);
+      addRecord(this.run, record);
+    }
+    [this.session, this.today.totals].forEach(totals => addRecord(totals, record));
+    this.globalState.update(DAILY_USAGE_KEY, this.today)
+      .then(undefined, error => console.error('Error saving the daily usage:', error));
+
+    console.log(`Usage of ${model}: ${promptTokens} prompt (${cachedTokens} cached) and ${completionTokens} completion tokens, cost ${record.cost !== undefined ? formatCost(record.cost) : 'unknown'}`);
+    this.onDidUpdateUsageEmitter.fire(this.getSummary());
+    return record;
+  }
+
+  public getSummary(): UsageSummary {
+    if (this.today.date !== getDate()) {
+      this.today = { date: getDate(), totals: createTotals() };
+    }
+
+    return {
+      runRecords: [...this.runRecords],
+      run: { ...this.run },
+      session: { ...this.session },
+      today: { ...this.today.totals }
+    };
+  }
+
+  /**
+   * Check the quest1CodeAssistant.maxCostPerRun and maxCostPerDay budgets
+   * @returns A message explaining which budget was reached, or undefined while within budget
+   */
+  public checkBudget(): string | undefined {
+    const config = vscode.workspace.getConfiguration('quest1CodeAssistant');
+    const maxCostPerRun = config.get<number>('maxCostPerRun', 0);
+    const maxCostPerDay = config.get<number>('maxCostPerDay', 0);
+    const summary = this.getSummary();
+
+    if (maxCostPerRun > 0 && summary.run.cost >= maxCostPerRun) {
+      return `This run has cost ${formatCost(summary.run.cost)}, which reaches the per-run budget of ${formatCost(maxCostPerRun)} (quest1CodeAssistant.maxCostPerRun).`;
+    }
+    if (maxCostPerDay > 0 && summary.today.cost >= maxCostPerDay) {
+      return `Today's requests have cost ${formatCost(summary.today.cost)}, which reaches the daily budget of ${formatCost(maxCostPerDay)} (quest1CodeAssistant.maxCostPerDay).`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Get the price of a model from the quest1CodeAssistant.pricing setting or the default prices
+   * Setting keys match the model name exactly or as a prefix, the longest key wins
+   */
+  private getPrice(model: string): ModelPrice | undefined {
+    const configured = vscode.workspace.getConfiguration('quest1CodeAssistant').get<Record<string, ModelPrice>>('pricing', {});
+    const name = model.toLowerCase();
+    const key = Object.keys(configured)
+      .filter(candidate => name.startsWith(candidate.toLowerCase()))
+      .sort((a, b) => b.length - a.length)[0];
+    if (key) {
+      return configured[key];
+    }
+
+    if (readProviderSettings().provider === 'ollama') {
+      return FREE;
+    }
+
+    const match = DEFAULT_PRICES.find(([pattern]) => pattern.test(name));
+    return match?.[1];
+  }
+}
+
+/**
+ * Format a cost in US dollars, with more digits for amounts below a cent
+ */
+export function formatCost(cost: number): string {
+  return `$${cost > 0 && cost < 0.01 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+function createTotals(): UsageTotals {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, cachedTokens: 0, cost: 0, unpricedRequests: 0 };
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord): void {
+  totals.requests++;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.cachedTokens += record.cachedTokens;
+  if (record.cost !== undefined) {
+    totals.cost += record.cost;
+  } else {
+    totals.unpricedRequests++;
+  }
+}
+
+/**
+ * Get the local date as YYYY-MM-DD, days start at local midnight
+ */
+function getDate(): string {
+  const now = new Date();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
@@ -1,31 +1,97 @@
 import * as vscode from 'vscode';
-import { ConversationMessage, ToolCallResult, SummarizedHistoryMessage } from './types';
+import { ConversationMessage, ToolCallResult, SummarizedHistoryMessage, ToolApprovalResult, AgentStreamEvent } from './types';
 import { DiagnosticInfo } from './DiagnosticsService';
 import { SymbolInfo } from './types/SymbolInfo';
 import { CodeActionInfo } from './types/CodeActionInfo';
+import { ChatCompletionOptions, ProviderId } from './types/ProviderSettings';
+import { StoredConversation, ConversationSummary } from './types/Conversation';
+import { CodeSearchResult } from './types/CodeIndex';
+import { ContextBudget, ContextUsage, FittedHistory } from './types/ContextBudget';
+import { Plan, PlanReviewer, PlanStep, PlanStepStatus } from './types/Plan';
+import { RecordUsageOptions, UsageRecord, UsageSummary } from './types/Usage';
+import { AgentMode, ToolCallDecision } from './types/AgentMode';
+import { RevertChange } from './types/Checkpoint';
+import { RuleFile } from './types/Rules';
+import { SlashCommand } from './types/SlashCommand';
+import { Mention, MentionKind, MentionSuggestion, ResolvedMessage } from './types/Mention';
+import { ToolSideEffect } from '../tools/ToolRegistry';
+
+/**
+ * Interface for an LLM provider adapter
+ * Messages, tools, responses and stream chunks use the OpenAI chat completions format;
+ * each adapter translates them to and from its provider's tool-calling format
+ */
+export interface ILLMProvider {
+  readonly id: ProviderId;
+  validateConfiguration(): { valid: boolean; message?: string };
+  createChatCompletion(
+    messages: any[],
+    tools: any[],
+    model: string,
+    temperature: number,
+    signal?: AbortSignal,
+    options?: ChatCompletionOptions
+  ): Promise<any>;
+  createStreamingChatCompletion(
+    messages: any[],
+    tools: any[],
+    model: string,
+    temperature: number,
+    onChunk: (chunk: any) => void,
+    signal?: AbortSignal
+  ): Promise<void>;
+  listModels(): Promise<string[]>;
+}
 
 /**
  * Interface for the OpenAI client service
+ * Requests are routed to the LLM provider selected in the extension settings
  */
 export interface IOpenAIClientService {
   initializeClient(): void;
   validateApiKey(): { valid: boolean; message?: string };
-  createChatCompletion(messages: any[], tools: any[], model: string, temperature: number): Promise<any>;
+  
+  /**
+   * Get the model configured in the quest1CodeAssistant.model setting
+   */
+  getModel(): string;
+  
+  /**
+   * List the models available from the configured provider
+   */
+  listModels(): Promise<string[]>;
+  
+  /**
+   * Create a chat completion, retrying rate limits and server and network errors
+   * @param options Request options, e.g. a cap on the reply's tokens
+   * @throws LLMError classifying the failure
+   */
+  createChatCompletion(
+    messages: any[],
+    tools: any[],
+    model: string,
+    temperature: number,
+    signal?: AbortSignal,
+    options?: ChatCompletionOptions
+  ): Promise<any>;
   
   /**
    * Create a streaming chat completion using the OpenAI API
+   * Failures before the first chunk are retried like createChatCompletion; errors are thrown as LLMError
    * @param messages The conversation messages
    * @param tools The available tools
    * @param model The model to use (e.g., 'gpt-4o')
    * @param temperature The temperature setting
    * @param onChunk Callback function to process each chunk of the streaming response
+   * @param signal Optional signal that aborts the request
    */
   createStreamingChatCompletion(
     messages: any[],
     tools: any[],
     model: string,
     temperature: number,
-    onChunk: (chunk: any) => void
+    onChunk: (chunk: any) => void,
+    signal?: AbortSignal
   ): Promise<void>;
 }
 
@@ -36,9 +102,11 @@ export interface IConversationService {
   getConversationHistory(): ConversationMessage[];
   addToConversationHistory(message: ConversationMessage): void;
   clearConversationHistory(): void;
+  replaceConversationHistory(messages: ConversationMessage[]): void;
   validateAndSanitizeConversationHistory(): ConversationMessage[];
   validateConversationHistory(): void;
   summarizeConversationHistory(maxTokens: number): Promise<SummarizedHistoryMessage>;
+  summarizeMessages(messages: ConversationMessage[], maxTokens: number): Promise<SummarizedHistoryMessage>;
   /**
    * Removes any invalid tool call pairings from the history
    * This should be used when OpenAI API errors are encountered to ensure both
@@ -62,8 +130,20 @@ export interface IContextFilesService {
  * Interface for tool execution
  */
 export interface IToolExecutorService {
-  executeToolWithTimeout(toolName: string, args: any, timeoutMs: number): Promise<string>;
+  /**
+   * Execute a tool with the timeout it was registered with, unless another is given
+   * @param checkpointRunId The checkpoint run that records the files the tool changes, if any
+   */
+  executeToolWithTimeout(
+    toolName: string,
+    args: any,
+    timeoutMs?: number,
+    token?: vscode.CancellationToken,
+    checkpointRunId?: string
+  ): Promise<string>;
   requiresUserConfirmation(toolName: string): boolean;
+  canRunConcurrently(toolName: string): boolean;
+  validateToolArguments(toolName: string, args: any): string[];
 }
 
 /**
@@ -71,29 +151,287 @@ export interface IToolExecutorService {
  */
 export interface IMessageFormatterService {
   formatMessages(systemPrompt: string, conversationHistory: ConversationMessage[], lastError: Error | null): any[];
-  shouldSummarizeHistory(conversationHistory: ConversationMessage[], maxPayloadSize: number, maxMessages: number): boolean;
+  fitHistoryToBudget(conversationHistory: ConversationMessage[], budget: ContextBudget): FittedHistory;
+}
+
+/**
+ * Interface for budgeting the model's context window
+ */
+export interface IContextBudgetService {
+  readonly onDidUpdateUsage: vscode.Event<ContextUsage | undefined>;
+  getContextWindow(model: string): number;
+  createBudget(model: string, systemPrompt: string, tools: any[]): ContextBudget;
+  reportUsage(budget: ContextBudget, historyTokens: number): void;
+  getLastUsage(): ContextUsage | undefined;
+  clearUsage(): void;
+}
+
+/**
+ * Interface for tracking token usage, cost and cost budgets
+ */
+export interface IUsageTracker {
+  readonly onDidUpdateUsage: vscode.Event<UsageSummary>;
+
+  /**
+   * Start counting a new agent run
+   */
+  startRun(): void;
+
+  /**
+   * Record the usage reported with a model response
+   * @param model The model the request was sent to
+   * @param usage The usage object of the response in the OpenAI format
+   * @param options Whether the request counts toward the current agent run
+   */
+  recordUsage(model: string, usage: any, options?: RecordUsageOptions): UsageRecord | undefined;
+  getSummary(): UsageSummary;
+
+  /**
+   * Check the per-run and per-day cost budgets
+   * @returns A message explaining which budget was reached, or undefined while within budget
+   */
+  checkBudget(): string | undefined;
 }
 
 /**
  * Interface for the agent loop handler
  */
 export interface IAgentLoopService {
-  executeAgentLoop(query: string): Promise<string>;
+  executeAgentLoop(query: string, token?: vscode.CancellationToken, checkpointRunId?: string): Promise<string>;
   
   /**
    * Execute the agent loop with streaming responses
    * @param query The user query to process
-   * @param onChunk Callback function that receives each chunk of the streaming response
+   * @param onEvent Callback that receives content deltas and tool activity as they happen
+   * @param token Optional token that stops the run
+   * @param checkpointRunId Optional checkpoint run that records the files the run changes
    * @returns The final complete response
    */
-  executeStreamingAgentLoop(query: string, onChunk: (chunk: string) => void): Promise<string>;
+  executeStreamingAgentLoop(
+    query: string,
+    onEvent: (event: AgentStreamEvent) => void,
+    token?: vscode.CancellationToken,
+    checkpointRunId?: string
+  ): Promise<string>;
+}
+
+/**
+ * Interface for saving chat sessions across restarts
+ */
+export interface IConversationStore {
+  readonly onDidChange: vscode.Event<void>;
+  list(): Promise<ConversationSummary[]>;
+  search(query: string): Promise<ConversationSummary[]>;
+  load(id: string): Promise<StoredConversation | undefined>;
+  save(conversation: StoredConversation): Promise<void>;
+  rename(id: string, title: string): Promise<void>;
+  delete(id: string): Promise<void>;
+  dispose(): void;
+}
+
+/**
+ * Interface for turning text into vectors for semantic code search
+ */
+export interface IEmbedder {
+  // Identifies the embedder and model, so the index is rebuilt when it changes
+  readonly id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Interface for the codebase index used by codebase_search
+ */
+export interface ICodeIndexService {
+  /**
+   * Start building the index in the background and watching the workspace for file changes
+   */
+  start(): void;
+
+  /**
+   * Find the indexed code chunks most relevant to a query
+   * Ranked by keywords until the index is built and embedded
+   * @param query Natural language or keyword query
+   * @param directories Only return results from these directories (all when empty)
+   * @param limit Maximum number of results
+   */
+  search(query: string, directories?: string[], limit?: number): Promise<CodeSearchResult[]>;
+  dispose(): void;
+}
+
+/**
+ * Interface for the plan the agent proposes before making changes
+ */
+export interface IPlanService {
+  readonly onDidChangePlan: vscode.Event<Plan | undefined>;
+  getPlan(): Plan | undefined;
+
+  /**
+   * Register the UI that reviews proposed plans; plans are approved as-is while none is registered
+   */
+  setReviewer(reviewer: PlanReviewer): vscode.Disposable;
+
+  /**
+   * Propose a plan and wait for the user to approve, edit or reject it
+   * @returns The plan after review, with status approved or rejected
+   */
+  submitPlan(summary: string, steps: string[], token?: vscode.CancellationToken): Promise<Plan>;
+
+  /**
+   * Update the status of a step of the approved plan
+   * @param stepNumber 1-based step number
+   */
+  updateStep(stepNumber: number, status: PlanStepStatus): PlanStep;
+  clear(): void;
+}
+
+/**
+ * Interface for the agent mode (Ask, Edit or Autonomous) and the tool calls it permits
+ */
+export interface IAgentModeService {
+  readonly onDidChangeMode: vscode.Event<AgentMode>;
+  getMode(): AgentMode;
+
+  /**
+   * Get the mode the running request uses, which a code action can set for its run
+   */
+  getRunMode(): AgentMode;
+
+  /**
+   * Get whether the running request plans first, or undefined when it follows the planFirst setting
+   */
+  getRunPlanFirst(): boolean | undefined;
+  setRunMode(mode: AgentMode | undefined, options?: { planFirst?: boolean }): void;
+  setMode(mode: AgentMode): Promise<void>;
+  getLabel(mode: AgentMode): string;
+
+  /**
+   * Get the instructions added to the system prompt in a mode
+   */
+  getPrompt(mode: AgentMode): string;
+
+  /**
+   * Check if the model is offered tools with a side effect in a mode
+   */
+  isAvailable(sideEffect: ToolSideEffect, mode: AgentMode): boolean;
+
+  /**
+   * Decide whether a tool call runs, needs approval or is blocked in the current mode
+   */
+  checkToolCall(toolName: string, args: any): ToolCallDecision;
+  dispose(): void;
+}
+
+/**
+ * Interface for the rules files merged into the system prompt
+ */
+export interface IRulesService {
+  readonly onDidApplyRules: vscode.Event<RuleFile[]>;
+  start(): void;
+
+  /**
+   * Get the rules that apply to a request involving the given files and directories
+   */
+  getApplicableRules(paths: string[]): Promise<RuleFile[]>;
+  buildPrompt(rules: RuleFile[]): string;
+
+  /**
+   * Report the rules sent with a request, so the chat panel can show them
+   */
+  reportApplied(rules: RuleFile[]): void;
+  getLabel(rule: RuleFile): string;
+  dispose(): void;
+}
+
+/**
+ * Interface for the slash commands of the chat input
+ */
+export interface ISlashCommandService {
+  readonly onDidChangeCommands: vscode.Event<SlashCommand[]>;
+  start(): void;
+  getCommands(): Promise<SlashCommand[]>;
+
+  /**
+   * Expand a message starting with a slash command to the command's prompt
+   * @returns The prompt, or undefined if the message doesn't start with a known command
+   */
+  expand(text: string): Promise<string | undefined>;
+  dispose(): void;
+}
+
+/**
+ * Interface for the @-mentions that attach context to a chat message
+ */
+export interface IMentionService {
+  start(): void;
+  parse(text: string): Mention[];
+
+  /**
+   * Attach the context of the mentions in a message, within the token budget of the attachments
+   */
+  resolve(text: string): Promise<ResolvedMessage>;
+
+  /**
+   * Suggest completions for the mention being typed
+   * @param kind The kind of mention, or undefined while the kind itself is typed
+   */
+  getSuggestions(kind: MentionKind | undefined, query: string): Promise<MentionSuggestion[]>;
+  dispose(): void;
+}
+
+/**
+ * Interface for workspace checkpoints taken during agent runs, and reverting them
+ */
+export interface ICheckpointService {
+  /**
+   * Start recording the changes of an agent run
+   * @returns The id of the run, which is also the id of its checkpoint
+   */
+  startRun(conversationId: string, label: string): string;
+
+  /**
+   * Stop recording a run
+   * @returns The id of the run's checkpoint, or undefined if the run changed nothing
+   */
+  endRun(runId: string): string | undefined;
+
+  /**
+   * Record the state of the files and directories a tool of a run is about to change
+   */
+  snapshot(runId: string, toolName: string, paths: string[]): Promise<void>;
+  getRevertChanges(ids: string[]): Promise<RevertChange[]>;
+
+  /**
+   * Show what reverting checkpoints will restore and ask the user to confirm
+   * @returns The changes to make, or undefined if there are none or the user cancelled
+   */
+  previewRevert(ids: string[], title: string): Promise<RevertChange[] | undefined>;
+  revert(ids: string[], changes: RevertChange[]): Promise<string>;
+  dispose(): void;
+}
+
+/**
+ * Interface for approving tool calls before they are executed
+ */
+export interface IToolApprovalService {
+  /**
+   * Preview the change a tool call would make and ask the user to approve, reject or edit it
+   * @param toolName The name of the tool about to run
+   * @param args The parsed arguments of the tool call
+   * @returns The user's decision and the arguments to run the tool with
+   */
+  requestApproval(toolName: string, args: any): Promise<ToolApprovalResult>;
+  dispose(): void;
 }
 
 /**
  * Interface for tool call processing
  */
 export interface IToolCallProcessorService {
-  processToolCalls(toolCalls: any[], breakingChangeTools: string[]): Promise<{ requiresUserConfirmation: boolean; results: ToolCallResult[] }>;
+  processToolCalls(
+    toolCalls: any[],
+    token?: vscode.CancellationToken,
+    checkpointRunId?: string
+  ): Promise<{ results: ToolCallResult[] }>;
 }
 
 /**
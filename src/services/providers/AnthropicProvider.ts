@@ -0,0 +1,318 @@
+import axios from 'axios';
+import { ILLMProvider } from '../interfaces';
+import { ChatCompletionOptions, ProviderId } from '../types/ProviderSettings';
+import { readLines, parseToolArguments, readErrorResponse } from './streamUtils';
+import { toLLMError } from './LLMError';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Options for the Anthropic Messages API provider
+ */
+export interface AnthropicProviderOptions {
+  apiKey: string;
+  baseUrl: string;
+  maxTokens: number;
+}
+
+/**
+ * Provider for the Anthropic Messages API.
+ * Translates OpenAI-format messages and tools to Anthropic content blocks
+ * (tool_use / tool_result) and converts responses back.
+ */
+export class AnthropicProvider implements ILLMProvider {
+  public readonly id: ProviderId = 'anthropic';
+
+  constructor(private readonly options: AnthropicProviderOptions) {}
+
+  /**
+   * Validate that the API key is configured
+   */
+  public validateConfiguration(): { valid: boolean; message?: string } {
+    if (!this.options.apiKey) {
+      return { valid: false, message: 'Anthropic API key not configured. Please set quest1CodeAssistant.anthropic.apiKey.' };
+    }
+    return { valid: true, message: 'Provider is configured' };
+  }
+
+  /**
+   * Create a chat completion and return it in the OpenAI response format
+   */
+  public async createChatCompletion(
+    messages: any[],
+    tools: any[],
+    model: string,
+    temperature: number,
+    signal?: AbortSignal,
+    options?: ChatCompletionOptions
+  ): Promise<any> {
+    const response = await axios.post(
+      `${this.options.baseUrl}/v1/messages`,
+      this.buildRequest(messages, tools, model, temperature, false, options?.maxTokens),
+      { headers: this.getHeaders(), signal }
+    );
+
+    return this.convertResponse(response.data);
+  }
+
+  /**
+   * Create a streaming chat completion, emitting OpenAI-format chunks
+   */
+  public async createStreamingChatCompletion(
+    messages: any[],
+    tools: any[],
+    model: string,
+    temperature: number,
+    onChunk: (chunk: any) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const response = await axios.post(
+      `${this.options.baseUrl}/v1/messages`,
+      this.buildRequest(messages, tools, model, temperature, true),
+      { headers: this.getHeaders(), responseType: 'stream', signal }
+    ).catch(async error => {
+      // Read the error body so the failure can be classified, e.g. as a context overflow
+      throw await readErrorResponse(error);
+    });
+
+    // Map Anthropic content block indices to OpenAI tool call indices
+    const toolCallIndices = new Map<number, number>();
+    // Input usage is sent when the message starts, output usage when it ends
+    let inputUsage: any;
+
+    for await (const line of readLines(response.data)) {
+      if (!line.startsWith('data:')) {
+        continue;
+      }
+
+      const event = JSON.parse(line.substring(5).trim());
+
+      switch (event.type) {
+        case 'message_start':
+          inputUsage = event.message?.usage;
+          break;
+
+        case 'content_block_start':
+          if (event.content_block?.type === 'tool_use') {
+            const toolIndex = toolCallIndices.size;
+            toolCallIndices.set(event.index, toolIndex);
+            onChunk(this.createChunk({
+              tool_calls: [{
+                index: toolIndex,
+                id: event.content_block.id,
+                type: 'function',
+                function: { name: event.content_block.name, arguments: '' }
+              }]
+            }));
+          }
+          break;
+
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta') {
+            onChunk(this.createChunk({ content: event.delta.text }));
+          } else if (event.delta?.type === 'input_json_delta') {
+            onChunk(this.createChunk({
+              tool_calls: [{
+                index: toolCallIndices.get(event.index) ?? 0,
+                function: { arguments: event.delta.partial_json }
+              }]
+            }));
+          }
+          break;
+
+        case 'message_delta':
+          if (event.delta?.stop_reason) {
+            onChunk(this.createChunk({}, this.convertStopReason(event.delta.stop_reason)));
+          }
+          if (event.usage) {
+            onChunk({ choices: [], usage: this.convertUsage(inputUsage || {}, event.usage.output_tokens) });
+          }
+          break;
+
+        case 'error':
+          throw toLLMError({ error: event.error, message: `Anthropic API error: ${event.error?.message || JSON.stringify(event.error)}` });
+      }
+    }
+  }
+
+  /**
+   * List the models available to the API key
+   */
+  public async listModels(): Promise<string[]> {
+    const response = await axios.get(`${this.options.baseUrl}/v1/models`, { headers: this.getHeaders() });
+    return (response.data?.data || []).map((model: any) => model.id);
+  }
+
+  /**
+   * Build the Messages API request body from OpenAI-format messages and tools
+   */
+  private buildRequest(messages: any[], tools: any[], model: string, temperature: number, stream: boolean, maxTokens?: number): any {
+    const systemParts: string[] = [];
+    const anthropicMessages: any[] = [];
+
+    for (const message of messages) {
+      if (message.role === 'system') {
+        systemParts.push(message.content);
+        continue;
+      }
+
+      const converted = this.convertMessage(message);
+      // The Messages API rejects empty text blocks, so messages without content are left out
+      if (converted.content.length === 0) {
+        continue;
+      }
+      const previous = anthropicMessages[anthropicMessages.length - 1];
+
+      // The Messages API requires alternating roles, so merge consecutive messages
+      if (previous && previous.role === converted.role) {
+        previous.content.push(...converted.content);
+      } else {
+        anthropicMessages.push(converted);
+      }
+    }
+
+    return {
+      model,
+      max_tokens: maxTokens ? Math.min(maxTokens, this.options.maxTokens) : this.options.maxTokens,
+      // Anthropic accepts temperatures between 0 and 1
+      temperature: Math.min(1, temperature),
+      ...(systemParts.length > 0 ? { system: systemParts.join('\n\n') } : {}),
+      messages: anthropicMessages,
+      ...(tools && tools.length > 0
+        ? {
+          tools: tools.map(tool => ({
+            name: tool.function.name,
+            description: tool.function.description,
+            input_schema: tool.function.parameters || { type: 'object', properties: {} }
+          }))
+        }
+        : {}),
+      stream
+    };
+  }
+
+  /**
+   * Convert a single OpenAI-format message to an Anthropic message with content blocks
+   * @returns The message, with no content blocks if the message has neither text nor tool calls
+   */
+  private convertMessage(message: any): { role: 'user' | 'assistant'; content: any[] } {
+    if (message.role === 'tool') {
+      return {
+        role: 'user',
+        content: [{
+          type: 'tool_result',
+          tool_use_id: message.tool_call_id,
+          content: message.content || ''
+        }]
+      };
+    }
+
+    const content: any[] = [];
+    // Whitespace-only text is rejected like empty text
+    if (typeof message.content === 'string' && message.content.trim()) {
+      content.push({ type: 'text', text: message.content });
+    }
+
+    if (message.role === 'assistant' && message.tool_calls) {
+      for (const toolCall of message.tool_calls) {
+        content.push({
+          type: 'tool_use',
+          id: toolCall.id,
+          name: toolCall.function.name,
+          input: parseToolArguments(toolCall.function.arguments)
+        });
+      }
+    }
+
+    return {
+      role: message.role === 'assistant' ? 'assistant' : 'user',
+      content
+    };
+  }
+
+  /**
+   * Convert a Messages API response to the OpenAI chat completion format
+   */
+  private convertResponse(data: any): any {
+    const text = (data.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+
+    const toolCalls = (data.content || [])
+      .filter((block: any) => block.type === 'tool_use')
+      .map((block: any) => ({
+        id: block.id,
+        type: 'function',
+        function: {
+          name: block.name,
+          arguments: JSON.stringify(block.input || {})
+        }
+      }));
+
+    return {
+      id: data.id,
+      model: data.model,
+      choices: [{
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: text || null,
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+        },
+        finish_reason: this.convertStopReason(data.stop_reason)
+      }],
+      usage: data.usage ? this.convertUsage(data.usage, data.usage.output_tokens) : undefined
+    };
+  }
+
+  /**
+   * Convert Anthropic usage to the OpenAI format
+   * Anthropic counts cache reads and writes separately from the input tokens, while
+   * OpenAI includes cached tokens in the prompt tokens
+   */
+  private convertUsage(usage: any, outputTokens: number = 0): any {
+    const cachedTokens = usage.cache_read_input_tokens || 0;
+    const promptTokens = (usage.input_tokens || 0) + cachedTokens + (usage.cache_creation_input_tokens || 0);
+    return {
+      prompt_tokens: promptTokens,
+      completion_tokens: outputTokens,
+      total_tokens: promptTokens + outputTokens,
+      prompt_tokens_details: { cached_tokens: cachedTokens }
+    };
+  }
+
+  /**
+   * Map an Anthropic stop reason to an OpenAI finish reason
+   */
+  private convertStopReason(stopReason: string | undefined): string | null {
+    switch (stopReason) {
+      case 'tool_use':
+        return 'tool_calls';
+      case 'max_tokens':
+        return 'length';
+      case 'end_turn':
+      case 'stop_sequence':
+        return 'stop';
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Create an OpenAI-format stream chunk
+   */
+  private createChunk(delta: any, finishReason: string | null = null): any {
+    return {
+      choices: [{ index: 0, delta, finish_reason: finishReason }]
+    };
+  }
+
+  private getHeaders(): Record<string, string> {
+    return {
+      'x-api-key': this.options.apiKey,
+      'anthropic-version': ANTHROPIC_VERSION,
+      'content-type': 'application/json'
+    };
+  }
+}
@@ -0,0 +1,113 @@
+import { APIConnectionError } from 'openai';
+
+/**
+ * Kinds of failures of a model request, each with its own recovery
+ * - rate_limit, server and network are transient and retried with backoff
+ * - context_overflow means the request has more tokens than the model accepts
+ * - auth covers invalid keys, missing permissions and exhausted quota
+ * - invalid_request means the provider rejected the messages, e.g. a tool call without its result
+ * - configuration means the provider rejected the request for another reason, e.g. an unknown model
+ */
+export type LLMErrorKind = 'rate_limit' | 'server' | 'network' | 'context_overflow' | 'auth' | 'invalid_request' | 'configuration' | 'unknown';
+
+/**
+ * Error of a model request, classified so callers can decide how to recover
+ */
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: LLMErrorKind,
+    public readonly status?: number,
+    // Delay requested by the provider through the Retry-After header
+    public readonly retryAfterMs?: number,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'LLMError';
+  }
+
+  /**
+   * Whether sending the same request again may succeed
+   */
+  public get retryable(): boolean {
+    return this.kind === 'rate_limit' || this.kind === 'server' || this.kind === 'network';
+  }
+}
+
+const NETWORK_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'EPIPE', 'EAI_AGAIN', 'ENOTFOUND'];
+
+const CONTEXT_OVERFLOW_PATTERN = /context[_ ]length|context window|maximum context|too many tokens|prompt is too long|input is too long|reduce the length/i;
+
+// Rejections of the conversation itself, e.g. "messages with role 'tool' must be a response to a preceding message with 'tool_calls'"
+const INVALID_MESSAGES_PATTERN = /\bmessages?\b|tool_calls?|tool_call_id|tool_use|tool_result|\broles?\b/i;
+
+/**
+ * Classify an error thrown by the OpenAI SDK, axios or a provider adapter
+ * Errors that are already classified are returned as they are
+ */
+export function toLLMError(error: unknown): LLMError {
+  if (error instanceof LLMError) {
+    return error;
+  }
+
+  const err = error as any;
+  // The OpenAI SDK puts the status and headers on the error, axios on the response
+  const status: number | undefined = err?.status ?? err?.response?.status;
+  const headers = err?.headers ?? err?.response?.headers;
+  const body = err?.error ?? err?.response?.data?.error ?? err?.response?.data;
+  // Prefer the provider's error code over transport codes like axios' ERR_BAD_REQUEST
+  const code: string | undefined = body?.code ?? body?.type ?? err?.code;
+  const providerMessage: string | undefined = typeof body === 'string' ? body : body?.message;
+  const message = providerMessage || err?.message || String(error);
+
+  let kind: LLMErrorKind = 'unknown';
+  if (CONTEXT_OVERFLOW_PATTERN.test(message) || code === 'context_length_exceeded') {
+    kind = 'context_overflow';
+  } else if (code === 'insufficient_quota' || status === 401 || status === 403 || code === 'authentication_error' || code === 'permission_error') {
+    kind = 'auth';
+  } else if (status === 429 || code === 'rate_limit_error' || code === 'rate_limit_exceeded') {
+    kind = 'rate_limit';
+  } else if ((status !== undefined && status >= 500) || status === 408 || code === 'overloaded_error' || code === 'api_error') {
+    kind = 'server';
+  } else if (status === 413) {
+    // The request body is too large, which only a shorter history fixes
+    kind = 'context_overflow';
+  } else if (status === 400 || status === 422 || code === 'invalid_request_error') {
+    kind = body?.param === 'messages' || INVALID_MESSAGES_PATTERN.test(message) ? 'invalid_request' : 'configuration';
+  } else if (status === 404) {
+    kind = 'configuration';
+  } else if (status === undefined && (
+    error instanceof APIConnectionError ||
+    NETWORK_ERROR_CODES.includes(code || '') ||
+    NETWORK_ERROR_CODES.includes(err?.cause?.code)
+  )) {
+    // APIConnectionTimeoutError extends APIConnectionError
+    kind = 'network';
+  }
+
+  return new LLMError(message, kind, status, parseRetryAfter(headers), error);
+}
+
+/**
+ * Read the delay from retry-after-ms or Retry-After (seconds or an HTTP date)
+ */
+function parseRetryAfter(headers: any): number | undefined {
+  const getHeader = (name: string): string | undefined =>
+    typeof headers?.get === 'function' ? headers.get(name) ?? undefined : headers?.[name];
+
+  const milliseconds = Number(getHeader('retry-after-ms'));
+  if (milliseconds > 0) {
+    return milliseconds;
+  }
+
+  const retryAfter = getHeader('retry-after');
+  if (!retryAfter) {
+    return undefined;
+  }
+  const seconds = Number(retryAfter);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(retryAfter);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
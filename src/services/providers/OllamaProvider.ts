@@ -0,0 +1,187 @@
+import axios from 'axios';
+import { ILLMProvider } from '../interfaces';
+import { ChatCompletionOptions, ProviderId } from '../types/ProviderSettings';
+import { readLines, parseToolArguments, readErrorResponse } from './streamUtils';
+
+/**
+ * Options for the Ollama provider
+ */
+export interface OllamaProviderOptions {
+  baseUrl: string;
+}
+
+/**
+ * Provider for a local Ollama server using its native /api/chat endpoint.
+ * Ollama tool calls carry arguments as objects and have no IDs, so IDs are generated
+ * and arguments are serialized to match the OpenAI format.
+ */
+export class OllamaProvider implements ILLMProvider {
+  public readonly id: ProviderId = 'ollama';
+  private toolCallCounter = 0;
+
+  constructor(private readonly options: OllamaProviderOptions) {}
+
+  /**
+   * Validate that the server URL is configured (Ollama needs no API key)
+   */
+  public validateConfiguration(): { valid: boolean; message?: string } {
+    if (!this.options.baseUrl) {
+      return { valid: false, message: 'Ollama base URL not configured. Please set quest1CodeAssistant.ollama.baseUrl.' };
+    }
+    return { valid: true, message: 'Provider is configured' };
+  }
+
+  /**
+   * Create a chat completion and return it in the OpenAI response format
+   */
+  public async createChatCompletion(
+    messages: any[],
+    tools: any[],
+    model: string,
+    temperature: number,
+    signal?: AbortSignal,
+    options?: ChatCompletionOptions
+  ): Promise<any> {
+    const response = await axios.post(
+      `${this.options.baseUrl}/api/chat`,
+      this.buildRequest(messages, tools, model, temperature, false, options?.maxTokens),
+      { signal }
+    );
+
+    const data = response.data;
+    const toolCalls = this.convertToolCalls(data.message?.tool_calls);
+
+    return {
+      model: data.model,
+      choices: [{
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: data.message?.content || null,
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+        },
+        finish_reason: toolCalls.length > 0 ? 'tool_calls' : 'stop'
+      }],
+      usage: this.convertUsage(data)
+    };
+  }
+
+  /**
+   * Convert Ollama's token counts to the OpenAI usage format
+   */
+  private convertUsage(data: any): any {
+    return {
+      prompt_tokens: data.prompt_eval_count || 0,
+      completion_tokens: data.eval_count || 0,
+      total_tokens: (data.prompt_eval_count || 0) + (data.eval_count || 0)
+    };
+  }
+
+  /**
+   * Create a streaming chat completion, emitting OpenAI-format chunks
+   */
+  public async createStreamingChatCompletion(
+    messages: any[],
+    tools: any[],
+    model: string,
+    temperature: number,
+    onChunk: (chunk: any) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const response = await axios.post(
+      `${this.options.baseUrl}/api/chat`,
+      this.buildRequest(messages, tools, model, temperature, true),
+      { responseType: 'stream', signal }
+    ).catch(async error => {
+      // Read the error body so the failure can be classified, e.g. as a context overflow
+      throw await readErrorResponse(error);
+    });
+
+    let toolCallIndex = 0;
+
+    // Ollama streams newline-delimited JSON objects
+    for await (const line of readLines(response.data)) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      const data = JSON.parse(line);
+      if (data.error) {
+        throw new Error(`Ollama error: ${data.error}`);
+      }
+
+      const delta: any = {};
+      if (data.message?.content) {
+        delta.content = data.message.content;
+      }
+
+      // Tool calls arrive complete rather than as partial deltas
+      const toolCalls = this.convertToolCalls(data.message?.tool_calls);
+      if (toolCalls.length > 0) {
+        delta.tool_calls = toolCalls.map(toolCall => ({ index: toolCallIndex++, ...toolCall }));
+      }
+
+      onChunk({
+        choices: [{
+          index: 0,
+          delta,
+          finish_reason: data.done ? (toolCallIndex > 0 ? 'tool_calls' : 'stop') : null
+        }],
+        // The final object carries the token counts
+        ...(data.done ? { usage: this.convertUsage(data) } : {})
+      });
+    }
+  }
+
+  /**
+   * List the models pulled on the Ollama server
+   */
+  public async listModels(): Promise<string[]> {
+    const response = await axios.get(`${this.options.baseUrl}/api/tags`);
+    return (response.data?.models || []).map((model: any) => model.name);
+  }
+
+  /**
+   * Build the /api/chat request body from OpenAI-format messages and tools
+   */
+  private buildRequest(messages: any[], tools: any[], model: string, temperature: number, stream: boolean, maxTokens?: number): any {
+    return {
+      model,
+      messages: messages.map(message => {
+        if (message.role === 'assistant' && message.tool_calls) {
+          return {
+            role: 'assistant',
+            content: message.content || '',
+            tool_calls: message.tool_calls.map((toolCall: any) => ({
+              function: {
+                name: toolCall.function.name,
+                arguments: parseToolArguments(toolCall.function.arguments)
+              }
+            }))
+          };
+        }
+        return { role: message.role, content: message.content || '' };
+      }),
+      ...(tools && tools.length > 0 ? { tools } : {}),
+      // num_predict caps the generated tokens
+      options: { temperature, ...(maxTokens ? { num_predict: maxTokens } : {}) },
+      stream
+    };
+  }
+
+  /**
+   * Convert Ollama tool calls to OpenAI-format tool calls with generated IDs
+   */
+  private convertToolCalls(toolCalls: any[] | undefined): any[] {
+    return (toolCalls || []).map(toolCall => ({
+      id: `call_ollama_${Date.now()}_${this.toolCallCounter++}`,
+      type: 'function',
+      function: {
+        name: toolCall.function.name,
+        arguments: typeof toolCall.function.arguments === 'string'
+          ? toolCall.function.arguments
+          : JSON.stringify(toolCall.function.arguments || {})
+      }
+    }));
+  }
+}
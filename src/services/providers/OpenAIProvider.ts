@@ -0,0 +1,150 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import { ILLMProvider } from '../interfaces';
+import { ChatCompletionOptions, ProviderId } from '../types/ProviderSettings';
+
+/**
+ * Options for the OpenAI SDK based provider
+ */
+export interface OpenAIProviderOptions {
+  id: ProviderId;
+  apiKey: string;
+  // Custom endpoint for OpenAI-compatible servers (vLLM, LM Studio, ...)
+  baseURL?: string;
+  // Azure OpenAI resource settings; the model name is used as the deployment name
+  azure?: {
+    endpoint: string;
+    apiVersion: string;
+  };
+}
+
+/**
+ * Provider for OpenAI, Azure OpenAI and OpenAI-compatible endpoints.
+ * These all speak the chat completions format natively, so no translation is needed.
+ */
+export class OpenAIProvider implements ILLMProvider {
+  public readonly id: ProviderId;
+  private client: OpenAI | null = null;
+
+  constructor(private readonly options: OpenAIProviderOptions) {
+    this.id = options.id;
+  }
+
+  /**
+   * Validate that the provider has the settings it needs
+   */
+  public validateConfiguration(): { valid: boolean; message?: string } {
+    switch (this.id) {
+      case 'azure':
+        if (!this.options.azure?.endpoint) {
+          return { valid: false, message: 'Azure OpenAI endpoint not configured. Please set quest1CodeAssistant.azure.endpoint.' };
+        }
+        if (!this.options.apiKey) {
+          return { valid: false, message: 'Azure OpenAI API key not configured. Please set quest1CodeAssistant.azure.apiKey.' };
+        }
+        break;
+
+      case 'openai-compatible':
+        // Local servers usually don't need an API key
+        if (!this.options.baseURL) {
+          return { valid: false, message: 'OpenAI-compatible base URL not configured. Please set quest1CodeAssistant.openaiCompatible.baseUrl.' };
+        }
+        break;
+
+      default:
+        if (!this.options.apiKey || this.options.apiKey === '<your-api-key>') {
+          return { valid: false, message: 'OpenAI API key not configured. Please set it in the extension settings.' };
+        }
+    }
+
+    return { valid: true, message: 'Provider is configured' };
+  }
+
+  /**
+   * Create a chat completion
+   */
+  public async createChatCompletion(
+    messages: any[],
+    tools: any[],
+    model: string,
+    temperature: number,
+    signal?: AbortSignal,
+    options?: ChatCompletionOptions
+  ): Promise<any> {
+    return this.getClient().chat.completions.create({
+      model,
+      messages,
+      ...(tools && tools.length > 0 ? { tools } : {}),
+      temperature,
+      ...(options?.maxTokens ? { max_tokens: options.maxTokens } : {})
+    }, { signal });
+  }
+
+  /**
+   * Create a streaming chat completion, passing each raw chunk to the callback
+   */
+  public async createStreamingChatCompletion(
+    messages: any[],
+    tools: any[],
+    model: string,
+    temperature: number,
+    onChunk: (chunk: any) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const stream = await this.getClient().chat.completions.create({
+      model,
+      messages,
+      ...(tools && tools.length > 0 ? { tools } : {}),
+      temperature,
+      stream: true,
+      // Not every OpenAI-compatible server accepts stream_options
+      ...(this.id !== 'openai-compatible' ? { stream_options: { include_usage: true } } : {})
+    }, { signal });
+
+    for await (const chunk of stream) {
+      onChunk(chunk);
+    }
+  }
+
+  /**
+   * List the models available to the configured key or server
+   */
+  public async listModels(): Promise<string[]> {
+    // Azure deployments can't be listed with the data plane API key
+    if (this.id === 'azure') {
+      return [];
+    }
+
+    const models: string[] = [];
+    for await (const model of this.getClient().models.list()) {
+      models.push(model.id);
+    }
+
+    // Only chat-capable models are useful for the OpenAI API itself
+    return this.id === 'openai'
+      ? models.filter(id => id.startsWith('gpt-') || /^o\d/.test(id)).sort()
+      : models.sort();
+  }
+
+  /**
+   * Get the SDK client, creating it on first use
+   */
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = this.options.azure
+        ? new AzureOpenAI({
+          endpoint: this.options.azure.endpoint,
+          apiKey: this.options.apiKey,
+          apiVersion: this.options.azure.apiVersion,
+          // Retries are handled by the client service for all providers
+          maxRetries: 0
+        })
+        : new OpenAI({
+          // The SDK requires a key even for local servers that ignore it
+          apiKey: this.options.apiKey || 'not-needed',
+          baseURL: this.options.baseURL || undefined,
+          maxRetries: 0
+        });
+    }
+    return this.client;
+  }
+}
@@ -0,0 +1,79 @@
+import * as vscode from 'vscode';
+import { ILLMProvider } from '../interfaces';
+import { ProviderId, ProviderSettings } from '../types/ProviderSettings';
+import { OpenAIProvider } from './OpenAIProvider';
+import { AnthropicProvider } from './AnthropicProvider';
+import { OllamaProvider } from './OllamaProvider';
+
+/**
+ * Read the provider settings from the extension configuration
+ */
+export function readProviderSettings(): ProviderSettings {
+  const config = vscode.workspace.getConfiguration('quest1CodeAssistant');
+
+  return {
+    provider: config.get<ProviderId>('provider', 'openai'),
+    model: config.get<string>('model', 'gpt-4o').trim(),
+    openai: {
+      apiKey: (config.get<string>('openaiApiKey') || '').trim()
+    },
+    azure: {
+      endpoint: (config.get<string>('azure.endpoint') || '').trim(),
+      apiKey: (config.get<string>('azure.apiKey') || '').trim(),
+      apiVersion: config.get<string>('azure.apiVersion', '2024-06-01')
+    },
+    anthropic: {
+      apiKey: (config.get<string>('anthropic.apiKey') || '').trim(),
+      baseUrl: stripTrailingSlash(config.get<string>('anthropic.baseUrl', 'https://api.anthropic.com')),
+      maxTokens: config.get<number>('anthropic.maxTokens', 8192)
+    },
+    ollama: {
+      baseUrl: stripTrailingSlash(config.get<string>('ollama.baseUrl', 'http://localhost:11434'))
+    },
+    openaiCompatible: {
+      baseUrl: stripTrailingSlash(config.get<string>('openaiCompatible.baseUrl', '')),
+      apiKey: (config.get<string>('openaiCompatible.apiKey') || '').trim()
+    }
+  };
+}
+
+/**
+ * Create the provider adapter for the given settings
+ */
+export function createProvider(settings: ProviderSettings): ILLMProvider {
+  switch (settings.provider) {
+    case 'azure':
+      return new OpenAIProvider({
+        id: 'azure',
+        apiKey: settings.azure.apiKey,
+        azure: {
+          endpoint: settings.azure.endpoint,
+          apiVersion: settings.azure.apiVersion
+        }
+      });
+
+    case 'anthropic':
+      return new AnthropicProvider(settings.anthropic);
+
+    case 'ollama':
+      return new OllamaProvider(settings.ollama);
+
+    case 'openai-compatible':
+      return new OpenAIProvider({
+        id: 'openai-compatible',
+        apiKey: settings.openaiCompatible.apiKey,
+        baseURL: settings.openaiCompatible.baseUrl
+      });
+
+    case 'openai':
+    default:
+      return new OpenAIProvider({
+        id: 'openai',
+        apiKey: settings.openai.apiKey
+      });
+  }
+}
+
+function stripTrailingSlash(url: string): string {
+  return (url || '').trim().replace(/\/+$/, '');
+}
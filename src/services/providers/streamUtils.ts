@@ -0,0 +1,73 @@
+/**
+ * Split a byte stream into lines, buffering partial lines between chunks
+ * @param stream A Node.js readable stream (e.g. an axios response with responseType 'stream')
+ */
+export async function* readLines(stream: AsyncIterable<Buffer | string>): AsyncGenerator<string> {
+  let buffer = '';
+
+  for await (const data of stream) {
+    buffer += data.toString();
+
+    let newlineIndex = buffer.indexOf('\n');
+    while (newlineIndex >= 0) {
+      const line = buffer.substring(0, newlineIndex).replace(/\r$/, '');
+      buffer = buffer.substring(newlineIndex + 1);
+      yield line;
+      newlineIndex = buffer.indexOf('\n');
+    }
+  }
+
+  if (buffer.length > 0) {
+    yield buffer;
+  }
+}
+
+// Error bodies are short; a longer one is cut off
+const MAX_ERROR_BODY_CHARS = 64 * 1024;
+
+/**
+ * Read the body of a failed request made with responseType 'stream'
+ * axios leaves that body as an unread stream, which hides the provider's error message and code
+ * from toLLMError; it is read and parsed here, and replaces the stream in error.response.data.
+ * @returns The same error
+ */
+export async function readErrorResponse(error: any): Promise<unknown> {
+  const response = error?.response;
+  if (typeof response?.data?.[Symbol.asyncIterator] !== 'function') {
+    return error;
+  }
+
+  let text = '';
+  try {
+    for await (const data of response.data as AsyncIterable<Buffer | string>) {
+      text += data.toString();
+      if (text.length > MAX_ERROR_BODY_CHARS) {
+        break;
+      }
+    }
+  } catch (readError) {
+    console.error('Error reading the error response:', readError);
+  }
+
+  try {
+    response.data = JSON.parse(text);
+  } catch {
+    response.data = text;
+  }
+  return error;
+}
+
+/**
+ * Parse the arguments of an OpenAI-format tool call into an object
+ */
+export function parseToolArguments(args: string | undefined): any {
+  if (!args) {
+    return {};
+  }
+  try {
+    return JSON.parse(args);
+  } catch (error) {
+    console.error('Error parsing tool call arguments:', error);
+    return {};
+  }
+}
@@ -0,0 +1,91 @@
+import { SymbolInfo } from '../types/SymbolInfo';
+import { CodeChunk } from '../types/CodeIndex';
+
+// Symbols longer than this are split into their members or into windows
+const MAX_CHUNK_LINES = 80;
+
+// Window size and overlap used for code outside symbols and for files without symbols
+const WINDOW_LINES = 60;
+const WINDOW_OVERLAP = 10;
+
+interface LineRange {
+  startLine: number;
+  endLine: number;
+  symbol?: string;
+}
+
+/**
+ * Split a file into chunks for the codebase index
+ * Each top-level symbol becomes a chunk; large symbols are split into their members,
+ * and code between symbols (imports, top-level statements) is split into line windows
+ * @param content The file content
+ * @param symbols The document symbols of the file, empty when no language server provides them
+ */
+export function chunkFile(content: string, symbols: SymbolInfo[]): CodeChunk[] {
+  const lines = content.split(/\r?\n/);
+  const lastLine = lines.length - 1;
+
+  const symbolRanges: LineRange[] = [];
+  collectSymbolRanges(symbols, '', lastLine, symbolRanges);
+  symbolRanges.sort((a, b) => a.startLine - b.startLine);
+
+  // Drop overlapping ranges and fill the gaps between symbols with windows
+  const ranges: LineRange[] = [];
+  let nextLine = 0;
+  for (const range of symbolRanges) {
+    if (range.startLine < nextLine) {
+      continue;
+    }
+    if (range.startLine > nextLine) {
+      ranges.push(...splitIntoWindows({ startLine: nextLine, endLine: range.startLine - 1 }));
+    }
+    ranges.push(range);
+    nextLine = range.endLine + 1;
+  }
+  if (nextLine <= lastLine) {
+    ranges.push(...splitIntoWindows({ startLine: nextLine, endLine: lastLine }));
+  }
+
+  return ranges
+    .map(range => ({
+      ...range,
+      text: lines.slice(range.startLine, range.endLine + 1).join('\n')
+    }))
+    .filter(chunk => chunk.text.trim().length > 0);
+}
+
+function collectSymbolRanges(symbols: SymbolInfo[], parentName: string, lastLine: number, ranges: LineRange[]): void {
+  for (const symbol of symbols) {
+    const name = parentName ? `${parentName}.${symbol.name}` : symbol.name;
+    const range: LineRange = {
+      startLine: Math.max(0, symbol.range.startLine),
+      endLine: Math.min(lastLine, symbol.range.endLine),
+      symbol: name
+    };
+
+    if (range.endLine - range.startLine + 1 <= MAX_CHUNK_LINES) {
+      ranges.push(range);
+    } else if (symbol.children && symbol.children.length > 0) {
+      // Code of the symbol outside its members ends up in the gap windows
+      collectSymbolRanges(symbol.children, name, lastLine, ranges);
+    } else {
+      ranges.push(...splitIntoWindows(range));
+    }
+  }
+}
+
+function splitIntoWindows(range: LineRange): LineRange[] {
+  const windows: LineRange[] = [];
+  let start = range.startLine;
+
+  while (start <= range.endLine) {
+    const end = Math.min(range.endLine, start + WINDOW_LINES - 1);
+    windows.push({ startLine: start, endLine: end, symbol: range.symbol });
+    if (end === range.endLine) {
+      break;
+    }
+    start = end + 1 - WINDOW_OVERLAP;
+  }
+
+  return windows;
+}
@@ -0,0 +1,52 @@
+import { IEmbedder } from '../interfaces';
+import { tokenize } from './tokenize';
+import { normalize } from './vectors';
+
+/**
+ * Offline embedder that hashes search terms into a fixed-size vector
+ * It captures vocabulary overlap rather than meaning, but needs no model or network,
+ * so codebase search works out of the box
+ */
+export class HashingEmbedder implements IEmbedder {
+  public readonly id: string;
+
+  constructor(private readonly dimensions: number = 512) {
+    this.id = `local-hashing-${dimensions}`;
+  }
+
+  /**
+   * Embed texts into L2-normalized vectors
+   */
+  public async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const counts = new Map<string, number>();
+    for (const term of tokenize(text)) {
+      counts.set(term, (counts.get(term) || 0) + 1);
+    }
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [term, count] of counts) {
+      const hash = fnv1a(term);
+      // A second hash bit picks the sign, so collisions cancel out instead of adding up
+      const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+      vector[hash % this.dimensions] += sign * (1 + Math.log(count));
+    }
+
+    return normalize(vector);
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,34 @@
+import axios from 'axios';
+import { IEmbedder } from '../interfaces';
+import { normalize } from './vectors';
+
+/**
+ * Embedder backed by a local Ollama server (e.g. nomic-embed-text)
+ */
+export class OllamaEmbedder implements IEmbedder {
+  public readonly id: string;
+
+  // Number of texts sent per request
+  private readonly batchSize = 32;
+
+  constructor(private readonly options: { baseUrl: string; model: string }) {
+    this.id = `ollama-${options.model}`;
+  }
+
+  /**
+   * Embed texts, batching the requests
+   */
+  public async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      const response = await axios.post(`${this.options.baseUrl}/api/embed`, {
+        model: this.options.model,
+        input: texts.slice(i, i + this.batchSize)
+      });
+      vectors.push(...(response.data.embeddings as number[][]).map(normalize));
+    }
+
+    return vectors;
+  }
+}
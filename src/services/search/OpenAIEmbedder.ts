@@ -0,0 +1,43 @@
+import OpenAI from 'openai';
+import { IEmbedder } from '../interfaces';
+import { normalize } from './vectors';
+
+/**
+ * Embedder backed by the OpenAI embeddings API (or an OpenAI-compatible endpoint)
+ */
+export class OpenAIEmbedder implements IEmbedder {
+  public readonly id: string;
+  private readonly client: OpenAI;
+  private readonly model: string;
+
+  // Number of texts sent per request
+  private readonly batchSize = 64;
+
+  constructor(options: { apiKey: string; model: string; baseURL?: string }) {
+    this.id = `openai-${options.model}`;
+    this.model = options.model;
+    this.client = new OpenAI({
+      apiKey: options.apiKey || 'not-needed',
+      ...(options.baseURL ? { baseURL: options.baseURL } : {})
+    });
+  }
+
+  /**
+   * Embed texts, batching the requests
+   */
+  public async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      const response = await this.client.embeddings.create({
+        model: this.model,
+        input: texts.slice(i, i + this.batchSize)
+      });
+      vectors.push(...response.data
+        .sort((a, b) => a.index - b.index)
+        .map(item => normalize(item.embedding)));
+    }
+
+    return vectors;
+  }
+}
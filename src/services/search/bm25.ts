@@ -0,0 +1,57 @@
+import { tokenize } from './tokenize';
+
+/**
+ * Term counts of a document, computed once and reused across searches
+ */
+export interface TermCounts {
+  counts: Map<string, number>;
+  length: number;
+}
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Count the search terms in a document
+ */
+export function countTerms(text: string): TermCounts {
+  const counts = new Map<string, number>();
+  const terms = tokenize(text);
+  for (const term of terms) {
+    counts.set(term, (counts.get(term) || 0) + 1);
+  }
+  return { counts, length: terms.length };
+}
+
+/**
+ * Score documents against a keyword query with Okapi BM25
+ * @param query The search query
+ * @param documents Term counts of the documents to score
+ * @returns One score per document, 0 when no query term occurs in it
+ */
+export function scoreBm25(query: string, documents: TermCounts[]): number[] {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (documents.length === 0 || queryTerms.length === 0) {
+    return documents.map(() => 0);
+  }
+
+  const averageLength = documents.reduce((sum, document) => sum + document.length, 0) / documents.length || 1;
+
+  const inverseFrequencies = queryTerms.map(term => {
+    const containing = documents.filter(document => document.counts.has(term)).length;
+    return Math.log(1 + (documents.length - containing + 0.5) / (containing + 0.5));
+  });
+
+  return documents.map(document => {
+    let score = 0;
+    queryTerms.forEach((term, index) => {
+      const frequency = document.counts.get(term);
+      if (frequency) {
+        const lengthNorm = 1 - B + B * (document.length / averageLength);
+        score += inverseFrequencies[index] * (frequency * (K1 + 1)) / (frequency + K1 * lengthNorm);
+      }
+    });
+    return score;
+  });
+}
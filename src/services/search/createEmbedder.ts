@@ -0,0 +1,38 @@
+import * as vscode from 'vscode';
+import { IEmbedder } from '../interfaces';
+import { readProviderSettings } from '../providers/ProviderFactory';
+import { HashingEmbedder } from './HashingEmbedder';
+import { OpenAIEmbedder } from './OpenAIEmbedder';
+import { OllamaEmbedder } from './OllamaEmbedder';
+
+/**
+ * Create the embedder selected in the quest1CodeAssistant.search.embedder setting
+ * @returns The embedder, or undefined when search should use keyword (BM25) ranking only
+ */
+export function createEmbedder(): IEmbedder | undefined {
+  const config = vscode.workspace.getConfiguration('quest1CodeAssistant');
+  const embedder = config.get<string>('search.embedder', 'local');
+  const model = (config.get<string>('search.embeddingModel') || '').trim();
+
+  switch (embedder) {
+    case 'none':
+      return undefined;
+    case 'openai': {
+      const settings = readProviderSettings();
+      return new OpenAIEmbedder({
+        apiKey: settings.openai.apiKey,
+        model: model || 'text-embedding-3-small'
+      });
+    }
+    case 'ollama': {
+      const settings = readProviderSettings();
+      return new OllamaEmbedder({
+        baseUrl: settings.ollama.baseUrl,
+        model: model || 'nomic-embed-text'
+      });
+    }
+    case 'local':
+    default:
+      return new HashingEmbedder();
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Split text into lowercase search terms
+ * Identifiers are kept whole and also split on camelCase and snake_case boundaries,
+ * so "runAgentLoop" matches queries for "agent loop" as well as "runAgentLoop"
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  const identifiers = text.match(/[A-Za-z_][A-Za-z0-9_]*|[0-9]+/g) || [];
+
+  for (const identifier of identifiers) {
+    const parts = identifier
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_]+/)
+      .map(part => part.toLowerCase())
+      .filter(part => part.length > 1);
+
+    terms.push(...parts);
+
+    const whole = identifier.toLowerCase();
+    if (parts.length > 1 && whole.length > 1) {
+      terms.push(whole);
+    }
+  }
+
+  return terms;
+}
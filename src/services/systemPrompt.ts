@@ -25,13 +25,19 @@ export const systemPrompt = `
   - view_file: View contents of a specific file
   - view_code_item: View specific functions or classes in a file
   - grep_search: Search for patterns in files
-  - codebase_search: Find relevant code snippets based on a query
+  - codebase_search: Find the code most relevant to a natural language query, ranked, with line ranges
   - create_file: Create a new file with specified content
-  - update_file: Update an existing file with new content
+  - update_file: Replace the whole content of an existing file, or insert text at a line
+  - edit_file: Change part of an existing file with exact search/replace blocks or a unified diff. Prefer it for targeted edits.
   - create_directory: Create new directories
-  - run_command: Execute shell commands in the user's terminal
+  - run_command: Execute shell commands and get their exit code, stdout and stderr. Use it to build, test and lint your changes.
   - read_url_content: Fetch content from a URL
   - search_web: Perform a web search for information
+  - get_symbol_info: Ask the language server for a file's symbol outline, the symbol at a position, its definition or its references
+  - get_code_actions: List the quick fixes and refactorings the language server offers for a range or file
+  - apply_code_action: Apply one of the code actions returned by get_code_actions
+  - submit_plan: Propose the steps you will take; the user approves or edits them before you make changes
+  - update_plan_step: Mark a step of the approved plan in progress, done or skipped
   - checkDiagnostics: Retrieve diagnostic information for all files in the workspace. Check this after every edit to ensure no errors are introduced.
 
   ## GUIDELINES:
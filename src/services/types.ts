@@ -14,8 +14,29 @@ export interface ToolCallResult {
   tool_call_id: string;
   output: string;
   success: boolean;
+  rejected?: boolean;
+  cancelled?: boolean;
 }
 
+/**
+ * Outcome of asking the user to approve a tool call before it runs
+ */
+export interface ToolApprovalResult {
+  approved: boolean;
+  // Arguments to execute the tool with (may have been edited by the user)
+  args: any;
+  edited?: boolean;
+}
+
+/**
+ * Event emitted by the agent loop while a streamed response is generated
+ */
+export type AgentStreamEvent =
+  | { type: 'content'; delta: string }
+  | { type: 'toolCall'; name: string }
+  | { type: 'toolResult'; name: string; success: boolean; rejected?: boolean }
+  | { type: 'notice'; message: string };
+
 export interface APIKeyValidation {
   valid: boolean;
   message?: string;
@@ -31,4 +52,6 @@ export interface SummarizedHistoryMessage {
   summary_type: 'conversation_history';
   file_references?: string[];
   timestamp: number;
+  // Usage reported with the summary response, missing when the summary wasn't generated by the model
+  usage?: any;
 }
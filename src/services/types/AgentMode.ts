@@ -0,0 +1,20 @@
+/**
+ * How much the agent may do on its own
+ * - ask: answers questions with read-only tools
+ * - edit: may also change files, each change is approved by the user
+ * - autonomous: changes files without asking and runs commands allowed by the command policy
+ */
+export type AgentMode = 'ask' | 'edit' | 'autonomous';
+
+export const AGENT_MODES: AgentMode[] = ['ask', 'edit', 'autonomous'];
+
+/**
+ * What happens to a tool call in the current mode
+ * - allow: the call runs without asking
+ * - ask: the user approves, rejects or edits the call first
+ * - deny: the call is not executed and the reason is returned to the model
+ */
+export interface ToolCallDecision {
+  permission: 'allow' | 'ask' | 'deny';
+  reason?: string;
+}
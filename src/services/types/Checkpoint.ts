@@ -0,0 +1,45 @@
+/**
+ * State of a file or directory before a tool changed it
+ */
+export interface FileSnapshot {
+  path: string;
+  kind: 'file' | 'directory' | 'missing';
+  // Base64 encoded file content; undefined when the file was too large to keep
+  content?: string;
+}
+
+/**
+ * The files and directories a single tool call was about to change
+ */
+export interface ToolSnapshot {
+  toolName: string;
+  timestamp: number;
+  files: FileSnapshot[];
+}
+
+/**
+ * The workspace state before an agent run changed it, taken before the run's first write
+ */
+export interface Checkpoint {
+  // Same as the id of the run
+  id: string;
+  conversationId: string;
+  // The query that started the run
+  label: string;
+  createdAt: number;
+  snapshots: ToolSnapshot[];
+}
+
+/**
+ * A change reverting checkpoints makes to a file or directory
+ * - restore: the file exists and gets its earlier content back
+ * - recreate: the file or directory was deleted since and is created again
+ * - delete: the file or directory didn't exist before and is removed
+ */
+export interface RevertChange {
+  path: string;
+  kind: 'file' | 'directory';
+  action: 'restore' | 'recreate' | 'delete';
+  // Earlier content of files that are restored or recreated
+  snapshot: FileSnapshot;
+}
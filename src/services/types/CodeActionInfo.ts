@@ -17,6 +17,18 @@ export interface CodeActionInfo {
       newText: string;
     }[]>;
   };
+  // Command to run after the edit, for actions the language server implements as commands
+  command?: {
+    command: string;
+    title: string;
+    arguments?: any[];
+  };
   isPreferred: boolean;
   source?: string;
 }
+
+/**
+ * Kind of the code actions Quest1 adds to diagnostics
+ * They are left out of the fixes offered to the model, which would otherwise start a chat run from a tool
+ */
+export const QUEST1_CODE_ACTION_KIND = vscode.CodeActionKind.QuickFix.append('quest1');
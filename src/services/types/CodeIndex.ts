@@ -0,0 +1,43 @@
+/**
+ * A piece of a file indexed for codebase search, usually one symbol
+ */
+export interface CodeChunk {
+  // 0-based, inclusive line range of the chunk in the file
+  startLine: number;
+  endLine: number;
+  // Name of the symbol the chunk covers, e.g. AgentLoopService.runAgentLoop
+  symbol?: string;
+  text: string;
+  vector?: number[];
+}
+
+/**
+ * Index entry for a single file
+ */
+export interface IndexedFile {
+  filePath: string;
+  mtime: number;
+  chunks: CodeChunk[];
+}
+
+/**
+ * On-disk format of the codebase index
+ */
+export interface CodeIndexData {
+  version: number;
+  // Id of the embedder the vectors were computed with
+  embedderId: string;
+  files: IndexedFile[];
+}
+
+/**
+ * A ranked search result
+ */
+export interface CodeSearchResult {
+  filePath: string;
+  startLine: number;
+  endLine: number;
+  symbol?: string;
+  text: string;
+  score: number;
+}
@@ -0,0 +1,39 @@
+import { ConversationMessage } from '../types';
+
+/**
+ * How the model's context window is divided for a request
+ */
+export interface ContextBudget {
+  model: string;
+  contextWindow: number;
+  // Room kept free for the model's reply
+  reservedForReply: number;
+  systemTokens: number;
+  toolTokens: number;
+  // Tokens left for the conversation history
+  historyTokens: number;
+}
+
+/**
+ * Context window usage of the last request, shown in the chat panel
+ */
+export interface ContextUsage {
+  model: string;
+  contextWindow: number;
+  usedTokens: number;
+  systemTokens: number;
+  toolTokens: number;
+  historyTokens: number;
+  reservedForReply: number;
+}
+
+/**
+ * The conversation history after fitting it into the budget
+ */
+export interface FittedHistory {
+  // Messages to send, with oversized tool results truncated
+  messages: ConversationMessage[];
+  tokens: number;
+  // Number of leading history messages that didn't fit and should be summarized
+  overflowCount: number;
+}
@@ -0,0 +1,58 @@
+import { ConversationMessage } from '../types';
+import { AgentMode } from './AgentMode';
+import { Attachment } from './Mention';
+
+/**
+ * A message as shown in the chat panel
+ */
+export interface ChatMessage {
+  role: string;
+  content: string;
+  id?: string;
+  // Checkpoint taken before the run this user message started changed the workspace
+  checkpointId?: string;
+  // Rules files sent with the request of a user message
+  rules?: string[];
+  // Context attached to a user message with @-mentions
+  attachments?: Attachment[];
+}
+
+/**
+ * A message prepared outside the chat input, e.g. by an editor command
+ */
+export interface PreparedMessage {
+  // Shown in the chat
+  text: string;
+  // Sent to the model
+  prompt: string;
+  attachments: Attachment[];
+  // Mode for the run instead of the one selected in the chat panel
+  mode?: AgentMode;
+  // Whether the run plans first, instead of the quest1CodeAssistant.planFirst setting
+  planFirst?: boolean;
+}
+
+/**
+ * A saved chat session
+ * The model-side history and the chat panel messages are stored together
+ * so a restored session continues exactly where it was left
+ */
+export interface StoredConversation {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: ConversationMessage[];
+  chatMessages: ChatMessage[];
+}
+
+/**
+ * Summary of a saved chat session, for the history list
+ */
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+}
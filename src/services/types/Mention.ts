@@ -0,0 +1,55 @@
+/**
+ * Kinds of @-mentions in the chat input
+ * - file: @file:path attaches the content of a file
+ * - folder: @folder:path attaches the files in a folder
+ * - symbol: @symbol:name attaches the code of a function, class or other symbol
+ * - selection: @selection attaches the code selected in the editor
+ * - problems: @problems attaches the errors and warnings in the workspace
+ * - git-diff: @git-diff attaches the uncommitted changes
+ */
+export type MentionKind = 'file' | 'folder' | 'symbol' | 'selection' | 'problems' | 'git-diff';
+
+export const MENTION_KINDS: MentionKind[] = ['file', 'folder', 'symbol', 'selection', 'problems', 'git-diff'];
+
+/**
+ * An @-mention found in a message
+ */
+export interface Mention {
+  kind: MentionKind;
+  // Path or symbol name after the colon, for the kinds that take one
+  value?: string;
+}
+
+/**
+ * Context attached to a message for a mention, shown as a chip on the message
+ */
+export interface Attachment {
+  kind: MentionKind;
+  label: string;
+  // File or folder the attachment came from
+  path?: string;
+  tokens: number;
+  // The content was cut to fit the token budget of the attachments
+  truncated?: boolean;
+  // Why the mention could not be attached, e.g. a file that doesn't exist
+  error?: string;
+}
+
+/**
+ * An autocompletion suggestion for a mention
+ */
+export interface MentionSuggestion {
+  label: string;
+  description?: string;
+  // Text that replaces the mention being typed
+  insertText: string;
+}
+
+/**
+ * A message with its mentions resolved
+ */
+export interface ResolvedMessage {
+  // The message followed by the attached context, as sent to the model
+  prompt: string;
+  attachments: Attachment[];
+}
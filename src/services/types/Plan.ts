@@ -0,0 +1,34 @@
+import * as vscode from 'vscode';
+
+/**
+ * Progress of a plan step
+ */
+export type PlanStepStatus = 'pending' | 'in_progress' | 'done' | 'skipped';
+
+/**
+ * Review state of a plan
+ * - proposed: waiting for the user to approve it
+ * - approved: the agent is executing it
+ * - rejected: the user rejected it, nothing was executed
+ */
+export type PlanStatus = 'proposed' | 'approved' | 'rejected';
+
+export interface PlanStep {
+  description: string;
+  status: PlanStepStatus;
+}
+
+/**
+ * A step list proposed by the model before it makes changes
+ */
+export interface Plan {
+  summary: string;
+  steps: PlanStep[];
+  status: PlanStatus;
+}
+
+/**
+ * Shows a proposed plan to the user
+ * @returns The approved plan, possibly with edited steps, or undefined if the user rejected it
+ */
+export type PlanReviewer = (plan: Plan, token?: vscode.CancellationToken) => Promise<Plan | undefined>;
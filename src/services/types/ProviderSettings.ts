@@ -0,0 +1,40 @@
+/**
+ * Identifiers of the supported LLM providers
+ */
+export type ProviderId = 'openai' | 'azure' | 'anthropic' | 'ollama' | 'openai-compatible';
+
+/**
+ * Options of a single chat completion request
+ */
+export interface ChatCompletionOptions {
+  // Cap on the tokens the model generates for the reply
+  maxTokens?: number;
+}
+
+/**
+ * Provider configuration read from the extension settings
+ */
+export interface ProviderSettings {
+  provider: ProviderId;
+  model: string;
+  openai: {
+    apiKey: string;
+  };
+  azure: {
+    endpoint: string;
+    apiKey: string;
+    apiVersion: string;
+  };
+  anthropic: {
+    apiKey: string;
+    baseUrl: string;
+    maxTokens: number;
+  };
+  ollama: {
+    baseUrl: string;
+  };
+  openaiCompatible: {
+    baseUrl: string;
+    apiKey: string;
+  };
+}
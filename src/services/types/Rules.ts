@@ -0,0 +1,19 @@
+/**
+ * Where a rules file comes from
+ * - global: the user's rules for all workspaces, in ~/.quest1/rules.md
+ * - workspace: .quest1/rules.md in a workspace folder, applied to every request
+ * - directory: .quest1/rules.md in a subdirectory, applied when the request involves files in it
+ */
+export type RuleScope = 'global' | 'workspace' | 'directory';
+
+/**
+ * A loaded rules file
+ */
+export interface RuleFile {
+  scope: RuleScope;
+  // Path of the rules file
+  path: string;
+  // Directory the rules apply to; undefined for global rules
+  directory?: string;
+  content: string;
+}
@@ -0,0 +1,21 @@
+/**
+ * A slash command of the chat input, expanded to a prompt before it is sent
+ * Templates can use these variables:
+ * - {{input}}: the text typed after the command; appended to the prompt when the template doesn't use it
+ * - {{code}}: the selected code, or the whole file when nothing is selected
+ * - {{selection}}: the selected code
+ * - {{file}}: path of the file open in the editor, relative to the workspace
+ * - {{fileContent}}: content of the file open in the editor
+ * - {{language}}: language of the file open in the editor
+ * - {{diagnostics}}: errors and warnings in the file open in the editor
+ */
+export interface SlashCommand {
+  // Name typed after the slash
+  name: string;
+  description: string;
+  template: string;
+  // builtin commands come with the extension, workspace commands from .quest1/commands/*.md
+  source: 'builtin' | 'workspace';
+  // File a workspace command was loaded from
+  path?: string;
+}
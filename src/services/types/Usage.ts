@@ -0,0 +1,56 @@
+/**
+ * Price of a model in US dollars per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  // Prompt tokens read from the provider's prompt cache (defaults to the input price)
+  cachedInput?: number;
+}
+
+/**
+ * Token usage and cost of a single model request
+ */
+export interface UsageRecord {
+  model: string;
+  // Prompt tokens, including the cached ones
+  promptTokens: number;
+  completionTokens: number;
+  cachedTokens: number;
+  // Undefined when the model has no known price
+  cost?: number;
+  timestamp: number;
+}
+
+/**
+ * How a model request's usage is counted
+ */
+export interface RecordUsageOptions {
+  // Whether the request is a part of the current agent run, true by default.
+  // Editor features like completions count toward the session and day only.
+  run?: boolean;
+}
+
+/**
+ * Accumulated usage over a number of requests
+ */
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cachedTokens: number;
+  cost: number;
+  // Requests to models without a known price, which aren't included in the cost
+  unpricedRequests: number;
+}
+
+/**
+ * Usage of the current (or last) agent run, the VS Code session and the current day
+ */
+export interface UsageSummary {
+  // One record per iteration of the agent loop
+  runRecords: UsageRecord[];
+  run: UsageTotals;
+  session: UsageTotals;
+  today: UsageTotals;
+}
@@ -0,0 +1,25 @@
+import * as path from 'path';
+import { runTests } from '@vscode/test-electron';
+
+/**
+ * Run the test suites in a VS Code instance with the extension loaded
+ */
+async function main(): Promise<void> {
+  try {
+    // The folder containing the extension's package.json
+    const extensionDevelopmentPath = path.resolve(__dirname, '../../');
+    const extensionTestsPath = path.resolve(__dirname, './suite/index');
+
+    await runTests({
+      extensionDevelopmentPath,
+      extensionTestsPath,
+      // Other extensions would add their own code actions and diagnostics
+      launchArgs: ['--disable-extensions']
+    });
+  } catch (error) {
+    console.error('Failed to run tests:', error);
+    process.exit(1);
+  }
+}
+
+main();
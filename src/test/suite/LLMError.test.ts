@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import { APIConnectionTimeoutError, APIError } from 'openai';
+import { toLLMError } from '../../services/providers/LLMError';
+
+suite('LLMError', () => {
+  test('connection failures of the OpenAI SDK are network errors', () => {
+    assert.strictEqual(toLLMError(new APIConnectionTimeoutError()).kind, 'network');
+    assert.strictEqual(toLLMError({ message: 'fetch failed', cause: { code: 'ECONNRESET' } }).kind, 'network');
+  });
+
+  test('an unknown model is a configuration error', () => {
+    const error = APIError.generate(404, { error: { message: 'The model `gpt-9` does not exist', code: 'model_not_found' } }, undefined, {});
+    assert.strictEqual(toLLMError(error).kind, 'configuration');
+    assert.strictEqual(toLLMError({ response: { status: 400, data: { error: { message: 'Unsupported parameter: max_tokens' } } } }).kind, 'configuration');
+  });
+
+  test('rejected messages are invalid requests', () => {
+    const error = APIError.generate(400, {
+      error: {
+        message: "Invalid parameter: messages with role 'tool' must be a response to a preceding message with 'tool_calls'.",
+        param: 'messages',
+        type: 'invalid_request_error'
+      }
+    }, undefined, {});
+    assert.strictEqual(toLLMError(error).kind, 'invalid_request');
+  });
+
+  test('overflows are recognized by status or message', () => {
+    assert.strictEqual(toLLMError({ response: { status: 413, data: 'Request Entity Too Large' } }).kind, 'context_overflow');
+    assert.strictEqual(toLLMError({ status: 400, error: { message: 'prompt is too long: 210000 tokens > 200000 maximum' } }).kind, 'context_overflow');
+  });
+});
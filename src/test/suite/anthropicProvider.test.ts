@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { AnthropicProvider } from '../../services/providers/AnthropicProvider';
+
+suite('Anthropic provider', () => {
+  let server: http.Server;
+  let provider: AnthropicProvider;
+  let request: any;
+
+  suiteSetup(async () => {
+    // A fake Messages API that records the request and answers with a short text
+    server = http.createServer((incoming, response) => {
+      let body = '';
+      incoming.on('data', data => body += data);
+      incoming.on('end', () => {
+        request = JSON.parse(body);
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify({
+          content: [{ type: 'text', text: 'Hello' }],
+          stop_reason: 'end_turn',
+          usage: { input_tokens: 10, output_tokens: 1 }
+        }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    provider = new AnthropicProvider({ apiKey: 'test-key', baseUrl: `http://127.0.0.1:${port}`, maxTokens: 8192 });
+  });
+
+  suiteTeardown(() => {
+    server.close();
+  });
+
+  test('leaves out messages without content instead of sending empty text blocks', async () => {
+    await provider.createChatCompletion([
+      { role: 'system', content: 'Be brief' },
+      { role: 'user', content: 'Hi' },
+      { role: 'assistant', content: '' },
+      { role: 'user', content: '  ' },
+      { role: 'user', content: 'Are you there?' }
+    ], [], 'claude-test', 0.2);
+
+    assert.deepStrictEqual(request.messages, [
+      { role: 'user', content: [{ type: 'text', text: 'Hi' }, { type: 'text', text: 'Are you there?' }] }
+    ]);
+  });
+
+  test('caps the reply at the requested max tokens', async () => {
+    await provider.createChatCompletion([{ role: 'user', content: 'Summarize' }], [], 'claude-test', 0.3, undefined, { maxTokens: 2000 });
+    assert.strictEqual(request.max_tokens, 2000);
+
+    await provider.createChatCompletion([{ role: 'user', content: 'Summarize' }], [], 'claude-test', 0.3);
+    assert.strictEqual(request.max_tokens, 8192);
+  });
+});
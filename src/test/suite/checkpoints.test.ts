@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ServiceFactory } from '../../services/ServiceFactory';
+
+suite('Checkpoints', () => {
+  let directory: string;
+  let firstPath: string;
+  let secondPath: string;
+
+  suiteSetup(async () => {
+    await vscode.extensions.all.find(extension => extension.packageJSON.name === 'quest1-code-assistant')?.activate();
+  });
+
+  setup(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'quest1-checkpoints-'));
+    firstPath = path.join(directory, 'first.txt');
+    secondPath = path.join(directory, 'second.txt');
+    fs.writeFileSync(firstPath, 'first\n');
+    fs.writeFileSync(secondPath, 'second\n');
+  });
+
+  teardown(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('runs of different conversations keep their own checkpoints', async () => {
+    const checkpoints = ServiceFactory.getCheckpointService();
+    const firstRun = checkpoints.startRun('first-conversation', 'Change the first file');
+    const secondRun = checkpoints.startRun('second-conversation', 'Change the second file');
+
+    await checkpoints.snapshot(firstRun, 'edit_file', [firstPath]);
+    await checkpoints.snapshot(secondRun, 'edit_file', [secondPath]);
+    fs.writeFileSync(firstPath, 'changed\n');
+    fs.writeFileSync(secondPath, 'changed\n');
+
+    // Ending one run leaves the other one recording
+    assert.strictEqual(checkpoints.endRun(secondRun), secondRun);
+    await checkpoints.snapshot(firstRun, 'create_file', [path.join(directory, 'third.txt')]);
+    assert.strictEqual(checkpoints.endRun(firstRun), firstRun);
+
+    const firstChanges = await checkpoints.getRevertChanges([firstRun]);
+    assert.deepStrictEqual(firstChanges.map(change => change.path), [firstPath]);
+    const secondChanges = await checkpoints.getRevertChanges([secondRun]);
+    assert.deepStrictEqual(secondChanges.map(change => change.path), [secondPath]);
+  });
+
+  test('changes outside a run are not recorded', async () => {
+    const checkpoints = ServiceFactory.getCheckpointService();
+    const run = checkpoints.startRun('conversation', 'Nothing to change');
+    assert.strictEqual(checkpoints.endRun(run), undefined);
+
+    await checkpoints.snapshot(run, 'edit_file', [firstPath]);
+    assert.deepStrictEqual(await checkpoints.getRevertChanges([run]), []);
+  });
+});
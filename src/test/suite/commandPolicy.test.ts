@@ -0,0 +1,31 @@
+import * as assert from 'assert';
+import { ServiceFactory } from '../../services/ServiceFactory';
+
+suite('Command policy', () => {
+  const agentModes = ServiceFactory.getAgentModeService();
+  const check = (commandLine: string) => agentModes.checkToolCall('run_command', { CommandLine: commandLine }).permission;
+
+  setup(() => agentModes.setRunMode('autonomous'));
+  teardown(() => agentModes.setRunMode(undefined));
+
+  test('allowed commands run without approval', () => {
+    assert.strictEqual(check('npm test'), 'allow');
+    assert.strictEqual(check('npm  test  -- --grep parser'), 'allow');
+  });
+
+  test('chained commands need approval', () => {
+    assert.strictEqual(check('npm test && node deploy.js'), 'ask');
+    assert.strictEqual(check('npm test > results.txt'), 'ask');
+    assert.strictEqual(check('npm test $(node deploy.js)'), 'ask');
+  });
+
+  test('line breaks and control characters chain commands too', () => {
+    assert.strictEqual(check('npm test\nnode deploy.js'), 'ask');
+    assert.strictEqual(check('npm test\r\nnode deploy.js'), 'ask');
+    assert.strictEqual(check('npm test\u000bnode deploy.js'), 'ask');
+  });
+
+  test('denied fragments are blocked', () => {
+    assert.strictEqual(check('npm test\nrm  -rf /'), 'deny');
+  });
+});
@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as vscode from 'vscode';
+import { ServiceFactory } from '../../services/ServiceFactory';
+import { AgentStreamEvent } from '../../services/types';
+
+const OVERFLOW_BODY = JSON.stringify({
+  type: 'error',
+  error: { type: 'invalid_request_error', message: 'prompt is too long: 250000 tokens > 200000 maximum' }
+});
+
+const REPLY_EVENTS = [
+  { type: 'message_start', message: { usage: { input_tokens: 10, output_tokens: 0 } } },
+  { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+  { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Done' } },
+  { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 1 } },
+  { type: 'message_stop' }
+];
+
+const SETTINGS: [string, unknown][] = [
+  ['provider', 'anthropic'],
+  ['model', 'claude-test'],
+  ['anthropic.apiKey', 'test-key'],
+  ['planFirst', false]
+];
+
+suite('Context overflow', () => {
+  let server: http.Server;
+  const requests: any[] = [];
+
+  suiteSetup(async () => {
+    await vscode.extensions.all.find(extension => extension.packageJSON.name === 'quest1-code-assistant')?.activate();
+
+    // A fake Anthropic API that rejects the first request as too long and answers the next one
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', data => body += data);
+      request.on('end', () => {
+        requests.push(JSON.parse(body));
+        if (requests.length === 1) {
+          response.writeHead(400, { 'Content-Type': 'application/json' });
+          response.end(OVERFLOW_BODY);
+          return;
+        }
+        response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        response.end(REPLY_EVENTS.map(event => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join(''));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    const config = vscode.workspace.getConfiguration('quest1CodeAssistant');
+    const { port } = server.address() as AddressInfo;
+    for (const [key, value] of [...SETTINGS, ['anthropic.baseUrl', `http://127.0.0.1:${port}`] as [string, unknown]]) {
+      await config.update(key, value, vscode.ConfigurationTarget.Global);
+    }
+  });
+
+  suiteTeardown(async () => {
+    const config = vscode.workspace.getConfiguration('quest1CodeAssistant');
+    for (const [key] of [...SETTINGS, ['anthropic.baseUrl']]) {
+      await config.update(key, undefined, vscode.ConfigurationTarget.Global);
+    }
+    server.close();
+  });
+
+  test('a streamed overflow error compacts the history and retries', async () => {
+    const service = ServiceFactory.createOpenAIService('');
+    const largeOutput = 'line of build output\n'.repeat(1000);
+    service.replaceConversationHistory([
+      { role: 'user', content: 'Build the project' },
+      {
+        role: 'assistant',
+        content: '',
+        tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'run_command', arguments: '{"CommandLine":"npm run build"}' } }]
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: largeOutput },
+      { role: 'assistant', content: 'The build passed.' }
+    ]);
+
+    const events: AgentStreamEvent[] = [];
+    const response = await service.processQueryStreaming('Now run the tests', event => events.push(event));
+
+    assert.strictEqual(requests.length, 2);
+    assert.ok(events.some(event => event.type === 'notice' && /tool outputs were shortened/.test(event.message)));
+    assert.match(response, /Done/);
+
+    const toolMessage = service.getConversationHistory().find(message => message.role === 'tool');
+    assert.ok(toolMessage && toolMessage.content.length < largeOutput.length);
+    assert.ok(JSON.stringify(requests[1]).length < JSON.stringify(requests[0]).length);
+  });
+});
@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { editFile } from '../../tools/editFile';
+
+suite('edit_file', () => {
+  let directory: string;
+  let filePath: string;
+
+  setup(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'quest1-edit-'));
+    filePath = path.join(directory, 'main.txt');
+    fs.writeFileSync(filePath, 'first\nsecond\n');
+  });
+
+  teardown(async () => {
+    await vscode.commands.executeCommand('workbench.action.revertAndCloseActiveEditor');
+    await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('edits and saves a file', async () => {
+    const result = await editFile(filePath, [{ Search: 'second', Replace: 'changed' }]);
+    assert.match(result, /File edited successfully/);
+    assert.strictEqual(fs.readFileSync(filePath, 'utf8'), 'first\nchanged\n');
+  });
+
+  test('leaves a file with unsaved changes alone', async () => {
+    const editor = await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(filePath));
+    await editor.edit(builder => builder.insert(new vscode.Position(0, 0), 'unsaved '));
+
+    const result = await editFile(filePath, [{ Search: 'second', Replace: 'changed' }]);
+    assert.match(result, /has unsaved changes/);
+    assert.strictEqual(fs.readFileSync(filePath, 'utf8'), 'first\nsecond\n');
+    assert.strictEqual(editor.document.getText(), 'unsaved first\nsecond\n');
+  });
+});
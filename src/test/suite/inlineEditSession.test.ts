@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { InlineEditDecorations, InlineEditSession } from '../../editor/InlineEditSession';
+
+suite('Inline edit session', () => {
+  let decorations: InlineEditDecorations;
+  let document: vscode.TextDocument;
+  let session: InlineEditSession;
+  let listener: vscode.Disposable;
+  let restores: Promise<boolean>[];
+
+  setup(async () => {
+    decorations = {
+      added: vscode.window.createTextEditorDecorationType({}),
+      removed: vscode.window.createTextEditorDecorationType({}),
+      pending: vscode.window.createTextEditorDecorationType({})
+    };
+    document = await vscode.workspace.openTextDocument({ content: 'before\nfirst\nsecond\nafter\n' });
+    await vscode.window.showTextDocument(document);
+
+    session = new InlineEditSession(document, 1, ['first', 'second'], decorations);
+    restores = [];
+    // Handles changes like the controller does
+    listener = vscode.workspace.onDidChangeTextDocument(event => {
+      if (!session.handleDocumentChange(event)) {
+        restores.push(session.restoreAndEnd());
+      }
+    });
+    await session.setModified('first\nchanged\n', true);
+  });
+
+  teardown(async () => {
+    listener.dispose();
+    session.end();
+    Object.values(decorations).forEach(decoration => decoration.dispose());
+    await vscode.commands.executeCommand('workbench.action.revertAndCloseActiveEditor');
+  });
+
+  const edit = async (apply: (edit: vscode.WorkspaceEdit) => void) => {
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    apply(workspaceEdit);
+    await vscode.workspace.applyEdit(workspaceEdit);
+  };
+
+  test('shows the change as removed and added lines', () => {
+    assert.strictEqual(document.getText(), 'before\nfirst\nsecond\nchanged\nafter\n');
+  });
+
+  test('follows changes above its lines', async () => {
+    await edit(workspaceEdit => workspaceEdit.insert(document.uri, new vscode.Position(0, 0), 'header\n'));
+    assert.deepStrictEqual(restores, []);
+    await session.acceptAll();
+    assert.strictEqual(document.getText(), 'header\nbefore\nfirst\nchanged\nafter\n');
+  });
+
+  test('restores the lines without the changes under review when the user edits them', async () => {
+    await edit(workspaceEdit => workspaceEdit.insert(document.uri, new vscode.Position(2, 0), '\n// typed\n'));
+    assert.strictEqual(restores.length, 1);
+    assert.strictEqual(await restores[0], true);
+    assert.strictEqual(document.getText(), 'before\nfirst\nsecond\nafter\n');
+    assert.strictEqual(session.isEnded, true);
+  });
+
+  test('keeps the lines save participants change', async () => {
+    session.willSave();
+    await edit(workspaceEdit => workspaceEdit.replace(document.uri, new vscode.Range(2, 0, 2, 6), '  second'));
+    assert.deepStrictEqual(restores, []);
+    await session.didSave();
+    assert.strictEqual(document.getText(), 'before\nfirst\nsecond\nchanged\nafter\n');
+    assert.strictEqual(session.isEnded, false);
+  });
+});
@@ -0,0 +1,167 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { Quest1CodeActionProvider } from '../../editor/Quest1CodeActionProvider';
+import { ServiceFactory } from '../../services/ServiceFactory';
+import { QUEST1_CODE_ACTION_KIND } from '../../services/types/CodeActionInfo';
+import { applyCodeAction, computeCodeActionChanges, findCodeAction } from '../../tools/applyCodeAction';
+import { getCodeActions } from '../../tools/getCodeActions';
+import { getSymbolInfo } from '../../tools/getSymbolInfo';
+
+const FAKE_COMMAND = 'quest1Test.fakeLanguageServerCommand';
+
+/**
+ * A fake language server for plaintext files: one diagnostic on the first line of main.txt,
+ * a fix that edits main.txt and other.txt, a fix implemented as a command that edits
+ * other.txt, and references to "value" in both files
+ */
+function registerFakeLanguageServer(mainUri: vscode.Uri, otherUri: vscode.Uri): vscode.Disposable[] {
+  const diagnostics = vscode.languages.createDiagnosticCollection('quest1-test');
+  const diagnostic = new vscode.Diagnostic(new vscode.Range(0, 0, 0, 5), 'Cannot find name value', vscode.DiagnosticSeverity.Error);
+  diagnostic.source = 'fake';
+  diagnostics.set(mainUri, [diagnostic]);
+
+  const codeActions = vscode.languages.registerCodeActionsProvider({ scheme: 'file', language: 'plaintext' }, {
+    provideCodeActions: (document, range) => {
+      if (document.uri.toString() !== mainUri.toString() || range.start.line !== 0) {
+        return [];
+      }
+
+      const importFix = new vscode.CodeAction('Import value', vscode.CodeActionKind.QuickFix);
+      importFix.diagnostics = [diagnostic];
+      importFix.isPreferred = true;
+      importFix.edit = new vscode.WorkspaceEdit();
+      importFix.edit.insert(mainUri, new vscode.Position(0, 0), 'import value\n');
+      importFix.edit.replace(otherUri, new vscode.Range(0, 0, 0, 5), 'export value');
+
+      const commandFix = new vscode.CodeAction('Declare value in other file', vscode.CodeActionKind.QuickFix);
+      commandFix.diagnostics = [diagnostic];
+      commandFix.command = { title: 'Declare value', command: FAKE_COMMAND, arguments: [otherUri] };
+
+      return [importFix, commandFix];
+    }
+  });
+
+  const command = vscode.commands.registerCommand(FAKE_COMMAND, async (uri: vscode.Uri) => {
+    const edit = new vscode.WorkspaceEdit();
+    edit.insert(uri, new vscode.Position(0, 0), 'let value\n');
+    await vscode.workspace.applyEdit(edit);
+  });
+
+  const references = vscode.languages.registerReferenceProvider({ scheme: 'file', language: 'plaintext' }, {
+    provideReferences: () => [
+      new vscode.Location(mainUri, new vscode.Range(0, 0, 0, 5)),
+      new vscode.Location(otherUri, new vscode.Range(0, 6, 0, 11))
+    ]
+  });
+
+  return [diagnostics, codeActions, command, references];
+}
+
+suite('Language server tools', () => {
+  let directory: string;
+  let mainPath: string;
+  let otherPath: string;
+  let disposables: vscode.Disposable[] = [];
+
+  setup(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'quest1-lsp-'));
+    mainPath = path.join(directory, 'main.txt');
+    otherPath = path.join(directory, 'other.txt');
+    fs.writeFileSync(mainPath, 'value + 1\n');
+    fs.writeFileSync(otherPath, 'value\n');
+
+    const mainUri = vscode.Uri.file(mainPath);
+    const otherUri = vscode.Uri.file(otherPath);
+    disposables = registerFakeLanguageServer(mainUri, otherUri);
+    await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(mainUri));
+  });
+
+  teardown(async () => {
+    disposables.forEach(disposable => disposable.dispose());
+    await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('the tools are registered with schemas', () => {
+    const registry = ServiceFactory.getToolRegistry();
+    for (const name of ['get_symbol_info', 'get_code_actions', 'apply_code_action']) {
+      assert.ok(registry.get(name), `${name} is registered`);
+    }
+    assert.deepStrictEqual(registry.validateArguments('get_code_actions', { FilePath: mainPath }), []);
+    assert.ok(registry.validateArguments('apply_code_action', { FilePath: mainPath }).length > 0);
+    assert.strictEqual(registry.requiresApproval('apply_code_action'), true);
+  });
+
+  test('get_code_actions lists the language server fixes but not Quest1 actions', async () => {
+    disposables.push(vscode.languages.registerCodeActionsProvider({ scheme: 'file' }, new Quest1CodeActionProvider(), {
+      providedCodeActionKinds: Quest1CodeActionProvider.providedCodeActionKinds
+    }));
+
+    const result = await getCodeActions({ FilePath: mainPath, StartLine: 0, StartCharacter: 0, EndLine: 0, EndCharacter: 5 });
+    assert.match(result, /Import value/);
+    assert.match(result, /Declare value in other file/);
+    assert.doesNotMatch(result, /Quest1/);
+
+    const actions = await ServiceFactory.getCodeActionService().getCodeActionsForRange(mainPath, 0, 0, 0, 5);
+    assert.ok(actions.length >= 2);
+    assert.ok(actions.every(action => !action.kind.startsWith(QUEST1_CODE_ACTION_KIND.value)));
+  });
+
+  test('get_symbol_info finds references', async () => {
+    const result = await getSymbolInfo({ FilePath: mainPath, Line: 0, Character: 1, FindReferences: true });
+    assert.match(result, /Found 2 references/);
+    assert.match(result, /main\.txt:1:1/);
+    assert.match(result, /other\.txt:1:7/);
+  });
+
+  test('the preview of a code action covers every file its edit changes', async () => {
+    const { codeAction } = await findCodeAction({
+      FilePath: mainPath, Title: 'Import value', StartLine: 0, StartCharacter: 0, EndLine: 0, EndCharacter: 5
+    });
+    assert.ok(codeAction);
+
+    const changes = await computeCodeActionChanges(codeAction!);
+    const proposed = new Map(changes.map(change => [change.uri.fsPath, change.proposedContent]));
+    assert.strictEqual(proposed.get(mainPath), 'import value\nvalue + 1\n');
+    assert.strictEqual(proposed.get(otherPath), 'export value\n');
+    // Nothing is applied by the preview
+    assert.strictEqual(fs.readFileSync(mainPath, 'utf8'), 'value + 1\n');
+  });
+
+  test('apply_code_action snapshots every file its edit changes', async () => {
+    const args: any = { FilePath: mainPath, Title: 'Import value', StartLine: 0, StartCharacter: 0, EndLine: 0, EndCharacter: 5 };
+    const paths = await ServiceFactory.getToolRegistry().getAffectedPaths('apply_code_action', args);
+    assert.deepStrictEqual(paths.sort(), [mainPath, otherPath].sort());
+    // The handler applies the action that was resolved for the snapshot
+    assert.strictEqual(args.CodeAction?.title, 'Import value');
+  });
+
+  test('apply_code_action applies and saves an edit across files', async () => {
+    const result = await applyCodeAction({
+      FilePath: mainPath, Title: 'import value', StartLine: 0, StartCharacter: 0, EndLine: 0, EndCharacter: 5
+    });
+    assert.match(result, /Successfully applied code action: Import value/);
+    assert.strictEqual(fs.readFileSync(mainPath, 'utf8'), 'import value\nvalue + 1\n');
+    assert.strictEqual(fs.readFileSync(otherPath, 'utf8'), 'export value\n');
+  });
+
+  test('apply_code_action saves the documents the action\'s command changes', async () => {
+    const result = await applyCodeAction({
+      FilePath: mainPath, Title: 'Declare value in other file', StartLine: 0, StartCharacter: 0, EndLine: 0, EndCharacter: 5
+    });
+    assert.match(result, /Successfully applied code action/);
+    assert.strictEqual(fs.readFileSync(otherPath, 'utf8'), 'let value\nvalue\n');
+  });
+
+  test('apply_code_action lists the available actions when the title is unknown', async () => {
+    const result = await applyCodeAction({
+      FilePath: mainPath, Title: 'Remove everything', StartLine: 0, StartCharacter: 0, EndLine: 0, EndCharacter: 5
+    });
+    assert.match(result, /No code action titled "Remove everything"/);
+    assert.match(result, /- Import value/);
+    assert.strictEqual(fs.readFileSync(mainPath, 'utf8'), 'value + 1\n');
+  });
+});
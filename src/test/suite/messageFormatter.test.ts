@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import { MessageFormatterService } from '../../services/MessageFormatterService';
+import { TokenCounter } from '../../services/TokenCounter';
+import { ConversationMessage } from '../../services/types';
+import { ContextBudget } from '../../services/types/ContextBudget';
+
+const MODEL = 'gpt-4o';
+
+function createBudget(historyTokens: number): ContextBudget {
+  return { model: MODEL, contextWindow: 128000, reservedForReply: 4096, systemTokens: 0, toolTokens: 0, historyTokens };
+}
+
+function text(words: number): string {
+  return 'word '.repeat(words);
+}
+
+function toolCall(id: string): ConversationMessage {
+  return {
+    role: 'assistant',
+    content: '',
+    tool_calls: [{ id, type: 'function', function: { name: 'read_file', arguments: '{"FilePath":"src/index.ts"}' } }]
+  };
+}
+
+suite('Message formatter', () => {
+  const formatter = new MessageFormatterService();
+  const counter = new TokenCounter(MODEL);
+
+  test('keeps a history that fits as it is', () => {
+    const history: ConversationMessage[] = [
+      { role: 'user', content: 'Hi' },
+      { role: 'assistant', content: 'Hello' }
+    ];
+
+    const fitted = formatter.fitHistoryToBudget(history, createBudget(1000));
+    assert.deepStrictEqual(fitted.messages, history);
+    assert.strictEqual(fitted.overflowCount, 0);
+  });
+
+  test('truncates old tool results before leaving messages out', () => {
+    const history: ConversationMessage[] = [
+      { role: 'user', content: 'Read the file' },
+      toolCall('call_1'),
+      { role: 'tool', tool_call_id: 'call_1', content: text(5000) },
+      { role: 'assistant', content: 'The file exports the parser.' }
+    ];
+
+    const fitted = formatter.fitHistoryToBudget(history, createBudget(3000));
+    assert.strictEqual(fitted.overflowCount, 0);
+    assert.strictEqual(fitted.messages.length, history.length);
+    assert.ok(counter.countMessage(fitted.messages[2]) < counter.countMessage(history[2]));
+  });
+
+  test('the kept messages never start with a tool result', () => {
+    // Only the final answer and the tool result fit next to the summary, not the call
+    const history: ConversationMessage[] = [
+      { role: 'user', content: text(3000) },
+      { ...toolCall('call_1'), content: text(300) },
+      { role: 'tool', tool_call_id: 'call_1', content: text(800) },
+      { role: 'assistant', content: 'The file exports the parser.' }
+    ];
+
+    const fitted = formatter.fitHistoryToBudget(history, createBudget(3500));
+    assert.strictEqual(fitted.overflowCount, 1);
+    assert.strictEqual(fitted.messages[0].role, 'assistant');
+    assert.strictEqual(fitted.messages[0].tool_calls?.[0].id, 'call_1');
+  });
+
+  test('the kept messages can start with an assistant message, which follows the summary', () => {
+    const history: ConversationMessage[] = [
+      { role: 'user', content: text(4000) },
+      { role: 'assistant', content: text(300) },
+      { role: 'user', content: 'And the tests?' },
+      { role: 'assistant', content: 'They pass.' }
+    ];
+
+    const fitted = formatter.fitHistoryToBudget(history, createBudget(3500));
+    assert.strictEqual(fitted.overflowCount, 1);
+    assert.deepStrictEqual(fitted.messages, history.slice(1));
+  });
+});
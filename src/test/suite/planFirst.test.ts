@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as vscode from 'vscode';
+import { prepareDiagnosticMessage } from '../../editor/editorCommands';
+import { ServiceFactory } from '../../services/ServiceFactory';
+
+const REPLY_EVENTS = [
+  { type: 'message_start', message: { usage: { input_tokens: 10, output_tokens: 0 } } },
+  { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+  { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Done' } },
+  { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 1 } },
+  { type: 'message_stop' }
+];
+
+const SETTINGS: [string, unknown][] = [
+  ['provider', 'anthropic'],
+  ['model', 'claude-test'],
+  ['anthropic.apiKey', 'test-key'],
+  ['planFirst', true]
+];
+
+suite('Plan first', () => {
+  let server: http.Server;
+  let requests: any[] = [];
+  const agentModes = ServiceFactory.getAgentModeService();
+  const offeredTools = () => requests[0].tools.map((tool: any) => tool.name);
+
+  suiteSetup(async () => {
+    await vscode.extensions.all.find(extension => extension.packageJSON.name === 'quest1-code-assistant')?.activate();
+
+    // A fake Anthropic API that records the requests and answers each with a short text
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', data => body += data);
+      request.on('end', () => {
+        requests.push(JSON.parse(body));
+        response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        response.end(REPLY_EVENTS.map(event => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join(''));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    const config = vscode.workspace.getConfiguration('quest1CodeAssistant');
+    const { port } = server.address() as AddressInfo;
+    for (const [key, value] of [...SETTINGS, ['anthropic.baseUrl', `http://127.0.0.1:${port}`] as [string, unknown]]) {
+      await config.update(key, value, vscode.ConfigurationTarget.Global);
+    }
+  });
+
+  suiteTeardown(async () => {
+    const config = vscode.workspace.getConfiguration('quest1CodeAssistant');
+    for (const [key] of [...SETTINGS, ['anthropic.baseUrl']]) {
+      await config.update(key, undefined, vscode.ConfigurationTarget.Global);
+    }
+    server.close();
+  });
+
+  setup(() => {
+    requests = [];
+  });
+
+  teardown(() => agentModes.setRunMode(undefined));
+
+  test('a run in edit mode starts with the planning phase', async () => {
+    agentModes.setRunMode('edit');
+    await ServiceFactory.createOpenAIService('').processQueryStreaming('Rename the parser', () => undefined);
+
+    assert.ok(offeredTools().includes('submit_plan'));
+    assert.ok(!offeredTools().includes('edit_file'));
+  });
+
+  test('a run can skip the planning phase', async () => {
+    agentModes.setRunMode('edit', { planFirst: false });
+    await ServiceFactory.createOpenAIService('').processQueryStreaming('Fix the type error', () => undefined);
+
+    assert.ok(!offeredTools().includes('submit_plan'));
+    assert.ok(offeredTools().includes('edit_file'));
+  });
+
+  test('diagnostic fixes skip the planning phase', async () => {
+    const document = await vscode.workspace.openTextDocument({ content: 'const value: number = "text";\n', language: 'typescript' });
+    const diagnostic = new vscode.Diagnostic(new vscode.Range(0, 6, 0, 11), 'Type \'string\' is not assignable to type \'number\'.');
+
+    const message = await prepareDiagnosticMessage('fix', document, diagnostic);
+    assert.strictEqual(message.mode, 'edit');
+    assert.strictEqual(message.planFirst, false);
+  });
+});
@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { executeCommand } from '../../tools/runCommand';
+
+suite('Run command', () => {
+  const node = `"${process.execPath}"`;
+  let directory: string;
+
+  setup(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'quest1-command-'));
+  });
+
+  teardown(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('keeps characters split across output chunks', async () => {
+    // The two bytes of "é" are written separately
+    const script = 'process.stdout.write(Buffer.from([0xc3])); setTimeout(() => process.stdout.write(Buffer.from([0xa9])), 100)';
+    const result = await executeCommand(`${node} -e "${script}"`, directory, 10000, 1000);
+
+    assert.strictEqual(result.exitCode, 0);
+    assert.strictEqual(result.stdout, 'é');
+  });
+
+  test('doesn\'t start a command when the run is already cancelled', async () => {
+    const source = new vscode.CancellationTokenSource();
+    source.cancel();
+
+    const result = await executeCommand(`${node} -e "require('fs').writeFileSync('started', '')"`, directory, 10000, 1000, source.token);
+
+    assert.strictEqual(result.cancelled, true);
+    assert.strictEqual(fs.existsSync(path.join(directory, 'started')), false);
+    source.dispose();
+  });
+});
@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import { IToolExecutorService } from '../../services/interfaces';
+import { ToolCallProcessorService } from '../../services/ToolCallProcessorService';
+
+/**
+ * A tool executor where read_file is read-only and edit_file is not; each call takes
+ * the number of milliseconds in its Delay argument and logs when it starts and ends
+ */
+class FakeToolExecutor implements IToolExecutorService {
+  public readonly log: string[] = [];
+  public running = 0;
+  public maxRunning = 0;
+
+  public async executeToolWithTimeout(toolName: string, args: any): Promise<string> {
+    this.log.push(`start ${args.Name}`);
+    this.running++;
+    this.maxRunning = Math.max(this.maxRunning, this.running);
+    await new Promise(resolve => setTimeout(resolve, args.Delay));
+    this.running--;
+    this.log.push(`end ${args.Name}`);
+    return `${toolName} ${args.Name}`;
+  }
+
+  public requiresUserConfirmation(): boolean {
+    return false;
+  }
+
+  public canRunConcurrently(toolName: string): boolean {
+    return toolName === 'read_file';
+  }
+
+  public validateToolArguments(): string[] {
+    return [];
+  }
+}
+
+function toolCall(name: string, id: string, delay: number) {
+  return { id, type: 'function', function: { name, arguments: JSON.stringify({ Name: id, Delay: delay }) } };
+}
+
+suite('Tool call processor', () => {
+  let executor: FakeToolExecutor;
+  let processor: ToolCallProcessorService;
+
+  setup(() => {
+    executor = new FakeToolExecutor();
+    // Every call is allowed without approval
+    const agentModes: any = { checkToolCall: () => ({ permission: 'allow' }) };
+    processor = new ToolCallProcessorService(executor, {} as any, agentModes);
+  });
+
+  test('read-only calls run concurrently and their results keep the order of the calls', async () => {
+    const { results } = await processor.processToolCalls([
+      toolCall('read_file', 'a', 60),
+      toolCall('read_file', 'b', 30),
+      toolCall('read_file', 'c', 0)
+    ]);
+
+    assert.deepStrictEqual(results.map(result => result.tool_call_id), ['a', 'b', 'c']);
+    assert.deepStrictEqual(results.map(result => result.output), ['read_file a', 'read_file b', 'read_file c']);
+    assert.strictEqual(executor.maxRunning, 3);
+    // The last call finished first
+    assert.strictEqual(executor.log[3], 'end c');
+  });
+
+  test('at most four read-only calls run at once', async () => {
+    const calls = ['a', 'b', 'c', 'd', 'e', 'f'].map(id => toolCall('read_file', id, 10));
+    const { results } = await processor.processToolCalls(calls);
+
+    assert.deepStrictEqual(results.map(result => result.tool_call_id), ['a', 'b', 'c', 'd', 'e', 'f']);
+    assert.strictEqual(executor.maxRunning, 4);
+  });
+
+  test('a call with side effects waits for the reads before it, and the reads after it wait for it', async () => {
+    const { results } = await processor.processToolCalls([
+      toolCall('read_file', 'a', 30),
+      toolCall('read_file', 'b', 0),
+      toolCall('edit_file', 'c', 10),
+      toolCall('read_file', 'd', 0)
+    ]);
+
+    assert.deepStrictEqual(results.map(result => result.tool_call_id), ['a', 'b', 'c', 'd']);
+    assert.deepStrictEqual(executor.log.slice(4), ['start c', 'end c', 'start d', 'end d']);
+  });
+});
@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import { formatValidationErrors, validateToolArguments } from '../../tools/validateToolArguments';
+
+const SCHEMA = {
+  type: 'object',
+  properties: {
+    FilePath: { type: 'string' },
+    StartLine: { type: 'integer' },
+    Recursive: { type: 'boolean' },
+    Status: { type: 'string', enum: ['done', 'skipped'] },
+    Steps: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['FilePath']
+};
+
+suite('Tool argument validation', () => {
+  test('accepts arguments that match the schema', () => {
+    assert.deepStrictEqual(validateToolArguments(SCHEMA, {
+      FilePath: 'src/index.ts',
+      StartLine: 3,
+      Recursive: false,
+      Status: 'done',
+      Steps: ['Read the file']
+    }), []);
+  });
+
+  test('reports missing required properties', () => {
+    assert.deepStrictEqual(validateToolArguments(SCHEMA, {}), ['arguments: missing required property "FilePath"']);
+    assert.deepStrictEqual(validateToolArguments(SCHEMA, { FilePath: null }), ['arguments: missing required property "FilePath"']);
+  });
+
+  test('checks missing arguments against the required properties', () => {
+    assert.deepStrictEqual(validateToolArguments(SCHEMA, undefined), ['arguments: missing required property "FilePath"']);
+  });
+
+  test('reports values of the wrong type with their location', () => {
+    assert.deepStrictEqual(validateToolArguments(SCHEMA, { FilePath: 42, StartLine: 1.5, Recursive: 'yes' }), [
+      'arguments.FilePath: expected string but got number',
+      'arguments.StartLine: expected integer but got number',
+      'arguments.Recursive: expected boolean but got string'
+    ]);
+    assert.deepStrictEqual(validateToolArguments(SCHEMA, []), ['arguments: expected object but got array']);
+  });
+
+  test('checks enums and array items', () => {
+    assert.deepStrictEqual(validateToolArguments(SCHEMA, { FilePath: 'a.ts', Status: 'started', Steps: ['Read', 2] }), [
+      'arguments.Status: must be one of "done", "skipped"',
+      'arguments.Steps[1]: expected string but got number'
+    ]);
+  });
+
+  test('formats the errors as a tool result the model can correct', () => {
+    const result = formatValidationErrors('read_file', ['arguments: missing required property "FilePath"']);
+    assert.match(result, /^Error: Invalid arguments for read_file:/);
+    assert.match(result, /- arguments: missing required property "FilePath"/);
+  });
+});
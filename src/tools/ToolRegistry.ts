@@ -0,0 +1,129 @@
+import * as vscode from 'vscode';
+import { ToolDefinition } from '../types/ToolDefinition';
+import { IContextFilesService } from '../services/interfaces';
+import { validateToolArguments } from './validateToolArguments';
+
+/**
+ * Side effect class of a tool, used to decide which calls need approval
+ * - read: only reads the workspace
+ * - write: changes files or directories
+ * - exec: runs commands
+ * - network: reads from the network
+ * - plan: proposes or tracks the plan the user reviews; submitting one waits for the user,
+ *   so these calls run on their own rather than next to other reads
+ */
+export type ToolSideEffect = 'read' | 'write' | 'exec' | 'network' | 'plan';
+
+/**
+ * Services available to tool handlers
+ */
+export interface ToolContext {
+  contextFiles: IContextFilesService;
+  // Cancelled when the user stops the agent run
+  token?: vscode.CancellationToken;
+}
+
+/**
+ * A tool registered with the registry: its schema, handler, side effect class and timeout
+ */
+export interface RegisteredTool {
+  definition: ToolDefinition;
+  sideEffect: ToolSideEffect;
+  // Timeout in milliseconds, or a function for timeouts that depend on settings
+  timeoutMs: number | (() => number);
+  handler: (args: any, context: ToolContext) => Promise<string>;
+  // Files and directories a write tool changes, snapshotted before it runs so the change can be reverted
+  affectedPaths?: (args: any) => string[] | Promise<string[]>;
+}
+
+/**
+ * Registry of the tools available to the assistant
+ */
+export class ToolRegistry {
+  private tools = new Map<string, RegisteredTool>();
+
+  /**
+   * Register a tool
+   * @param tool The tool to register
+   */
+  public register(tool: RegisteredTool): void {
+    const name = tool.definition.function.name;
+    if (this.tools.has(name)) {
+      throw new Error(`Tool ${name} is already registered`);
+    }
+    this.tools.set(name, tool);
+  }
+
+  /**
+   * Get a registered tool by name
+   */
+  public get(name: string): RegisteredTool | undefined {
+    return this.tools.get(name);
+  }
+
+  /**
+   * Get the definitions of the registered tools, in registration order
+   * @param filter Optional filter on the registered tools
+   * @returns Tool definitions to send to the model
+   */
+  public getDefinitions(filter?: (tool: RegisteredTool) => boolean): ToolDefinition[] {
+    return Array.from(this.tools.values())
+      .filter(tool => !filter || filter(tool))
+      .map(tool => tool.definition);
+  }
+
+  /**
+   * Check if a tool changes the workspace or runs commands, and so needs user approval
+   */
+  public requiresApproval(name: string): boolean {
+    const tool = this.tools.get(name);
+    return !!tool && (tool.sideEffect === 'write' || tool.sideEffect === 'exec');
+  }
+
+  /**
+   * Check if a tool only reads, so calls to it can run at the same time as other reads
+   */
+  public isReadOnly(name: string): boolean {
+    const tool = this.tools.get(name);
+    return !!tool && (tool.sideEffect === 'read' || tool.sideEffect === 'network');
+  }
+
+  /**
+   * Get the files and directories a tool call is about to change
+   * @returns The paths, empty for tools that don't declare them
+   */
+  public async getAffectedPaths(name: string, args: any): Promise<string[]> {
+    const tool = this.tools.get(name);
+    if (!tool?.affectedPaths) {
+      return [];
+    }
+    const paths = (await tool.affectedPaths(args)).filter(filePath => typeof filePath === 'string' && filePath.length > 0);
+    return Array.from(new Set(paths));
+  }
+
+  /**
+   * Get the timeout of a tool in milliseconds
+   */
+  public getTimeoutMs(name: string): number {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return 30000;
+    }
+    return typeof tool.timeoutMs === 'function' ? tool.timeoutMs() : tool.timeoutMs;
+  }
+
+  /**
+   * Check the arguments of a tool call against the tool's JSON schema
+   * @returns A list of validation errors, empty if the arguments are valid
+   */
+  public validateArguments(name: string, args: any): string[] {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return [`Unknown tool: ${name}`];
+    }
+    if (!tool.definition.function.parameters) {
+      return [];
+    }
+    return validateToolArguments(tool.definition.function.parameters, args);
+  }
+}
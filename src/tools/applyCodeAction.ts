@@ -1,37 +1,128 @@
+import * as vscode from 'vscode';
 import { ServiceFactory } from '../services/ServiceFactory';
 import { CodeActionInfo } from '../services/types/CodeActionInfo';
 
+/**
+ * Arguments of the apply_code_action tool
+ */
+export interface ApplyCodeActionArgs {
+  FilePath: string;
+  CodeAction?: CodeActionInfo;
+  Title?: string;
+  StartLine?: number;
+  StartCharacter?: number;
+  EndLine?: number;
+  EndCharacter?: number;
+}
+
+/**
+ * A file a code action changes, with its content before and after the action's edit
+ */
+export interface CodeActionFileChange {
+  uri: vscode.Uri;
+  originalContent: string;
+  proposedContent: string;
+}
+
+/**
+ * Find the code action a tool call refers to
+ * The action is either passed directly, or looked up by title among the
+ * code actions the language server offers for the given range
+ * @returns The code action, or an error message for the model
+ */
+export async function findCodeAction(args: ApplyCodeActionArgs): Promise<{ codeAction?: CodeActionInfo; error?: string }> {
+  if (!args.FilePath) {
+    return { error: 'Error: File path is required' };
+  }
+
+  if (!args.CodeAction && !args.Title) {
+    return { error: 'Error: Either CodeAction or Title is required' };
+  }
+
+  if (args.CodeAction) {
+    return { codeAction: args.CodeAction };
+  }
+
+  if (args.StartLine === undefined || args.StartCharacter === undefined ||
+      args.EndLine === undefined || args.EndCharacter === undefined) {
+    return { error: 'Error: StartLine, StartCharacter, EndLine and EndCharacter are required to look up a code action by title' };
+  }
+
+  // Ask the language server again, since code actions can't be passed around by reference
+  const codeActions = await ServiceFactory.getCodeActionService().getCodeActionsForRange(
+    args.FilePath,
+    args.StartLine,
+    args.StartCharacter,
+    args.EndLine,
+    args.EndCharacter
+  );
+
+  const codeAction = codeActions.find(action => action.title === args.Title)
+    || codeActions.find(action => action.title.toLowerCase() === args.Title!.toLowerCase());
+
+  if (!codeAction) {
+    const available = codeActions.map(action => `- ${action.title}`).join('\n');
+    return {
+      error: `Error: No code action titled "${args.Title}" is available for the specified range.` +
+        (available ? `\n\nAvailable code actions:\n${available}` : ' No code actions are available for this range.')
+    };
+  }
+  return { codeAction };
+}
+
+/**
+ * Work out the content of each file a code action's edit changes, without applying it
+ * Changes made by the action's command can't be known before it runs and are not included.
+ */
+export async function computeCodeActionChanges(codeAction: CodeActionInfo): Promise<CodeActionFileChange[]> {
+  const changes: CodeActionFileChange[] = [];
+  for (const [fileUri, edits] of Object.entries(codeAction.edit?.changes || {})) {
+    const uri = vscode.Uri.parse(fileUri);
+    const document = await vscode.workspace.openTextDocument(uri);
+    const originalContent = document.getText();
+
+    // Apply the edits from the end of the file so earlier offsets stay valid;
+    // insertions at the same offset keep their order
+    const offsetEdits = edits
+      .map((edit, index) => ({
+        index,
+        start: document.offsetAt(new vscode.Position(edit.range.startLine, edit.range.startCharacter)),
+        end: document.offsetAt(new vscode.Position(edit.range.endLine, edit.range.endCharacter)),
+        newText: edit.newText
+      }))
+      .sort((a, b) => b.start - a.start || b.index - a.index);
+
+    let proposedContent = originalContent;
+    for (const edit of offsetEdits) {
+      proposedContent = proposedContent.substring(0, edit.start) + edit.newText + proposedContent.substring(edit.end);
+    }
+    changes.push({ uri, originalContent, proposedContent });
+  }
+  return changes;
+}
+
 /**
  * Apply a code action to fix an issue in a file
- * 
- * @param args Object containing the file path and code action to apply
+ *
+ * @param args Object containing the file path and the code action to apply
  * @returns Result of applying the code action
  */
-export async function applyCodeAction(args: {
-  FilePath: string;
-  CodeAction: CodeActionInfo;
-}): Promise<string> {
+export async function applyCodeAction(args: ApplyCodeActionArgs): Promise<string> {
   try {
-    // Validate inputs
-    if (!args.FilePath) {
-      return 'Error: File path is required';
-    }
-    
-    if (!args.CodeAction) {
-      return 'Error: CodeAction is required';
+    const { codeAction, error } = await findCodeAction(args);
+    if (!codeAction) {
+      return error!;
     }
-    
-    const codeActionService = ServiceFactory.getCodeActionService();
-    
-    const success = await codeActionService.applyCodeAction(
+
+    const success = await ServiceFactory.getCodeActionService().applyCodeAction(
       args.FilePath,
-      args.CodeAction
+      codeAction
     );
-    
+
     if (success) {
-      return `Successfully applied code action: ${args.CodeAction.title}`;
+      return `Successfully applied code action: ${codeAction.title}`;
     } else {
-      return `Failed to apply code action: ${args.CodeAction.title}`;
+      return `Failed to apply code action: ${codeAction.title}`;
     }
   } catch (error) {
     console.error('Error applying code action:', error);
@@ -0,0 +1,849 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ToolRegistry } from './ToolRegistry';
+import { ProjectPathService } from '../services/ProjectPathService';
+import { createFile } from './createFile';
+import { updateFile } from './updateFile';
+import { editFile } from './editFile';
+import { createDirectory } from './createDirectory';
+import { codebaseSearch } from './codebaseSearch';
+import { viewCodeItem } from './viewCodeItem';
+import { readUrlContent } from './readUrlContent';
+import { searchWeb } from './searchWeb';
+import { runCommand, getCommandTimeoutMs } from './runCommand';
+import { doneToolDefinition, executeDone } from './done';
+import { treeView, treeViewToolDefinition } from './treeView';
+import { checkDiagnostics } from './checkDiagnostics';
+import { getSymbolInfo } from './getSymbolInfo';
+import { getCodeActions } from './getCodeActions';
+import { applyCodeAction, findCodeAction } from './applyCodeAction';
+import { submitPlan, updatePlanStep } from './plan';
+
+/**
+ * Register the built-in tools with their schema, handler, side effect class and timeout.
+ * Tools are offered to the model in the order they are registered.
+ * @param registry The registry to add the tools to
+ */
+export function registerBuiltinTools(registry: ToolRegistry): void {
+  registry.register({
+    definition: treeViewToolDefinition,
+    sideEffect: 'read',
+    timeoutMs: 30000,
+    handler: async (args, context) => {
+      // Add the root directory to context files
+      if (args.RootPath) {
+        context.contextFiles.addContextFile(args.RootPath);
+      }
+      return treeView(args.RootPath, args.MaxDepth || 3, args.ShowHidden || false);
+    }
+  });
+
+  registry.register({
+    definition: doneToolDefinition,
+    sideEffect: 'read',
+    timeoutMs: 30000,
+    handler: async (args) => executeDone(args)
+  });
+
+  registry.register({
+    definition: {
+      type: 'function',
+      function: {
+        name: 'create_file',
+        description: 'Create a new file with the specified content.',
+        parameters: {
+          type: 'object',
+          properties: {
+            FilePath: {
+              type: 'string',
+              description: 'The absolute path where the file should be created'
+            },
+            Content: {
+              type: 'string',
+              description: 'The content to write to the file'
+            }
+          },
+          required: ['FilePath', 'Content']
+        }
+      }
+    },
+    sideEffect: 'write',
+    affectedPaths: (args) => [args.FilePath],
+    timeoutMs: 30000,
+    handler: async (args, context) => {
+      const result = await createFile(args.FilePath, args.Content);
+      // Add to context files if successful
+      if (result.includes('successfully')) {
+        context.contextFiles.addContextFile(args.FilePath);
+      }
+      return result;
+    }
+  });
+
+  registry.register({
+    definition: {
+      type: 'function',
+      function: {
+        name: 'update_file',
+        description: 'Update an existing file with new content.',
+        parameters: {
+          type: 'object',
+          properties: {
+            FilePath: {
+              type: 'string',
+              description: 'The absolute path of the file to update'
+            },
+            Content: {
+              type: 'string',
+              description: 'The new content for the file'
+            },
+            InsertAtLine: {
+              type: 'integer',
+              description: 'Optional line number to insert content at. If not provided, the entire file will be replaced.'
+            },
+            InsertAtColumn: {
+              type: 'integer',
+              description: 'Optional column number to insert content at (only used if InsertAtLine is provided)'
+            }
+          },
+          required: ['FilePath', 'Content']
+        }
+      }
+    },
+    sideEffect: 'write',
+    affectedPaths: (args) => [args.FilePath],
+    timeoutMs: 30000,
+    handler: async (args, context) => {
+      const result = await updateFile(args.FilePath, args.Content, args.InsertAtLine, args.InsertAtColumn);
+      // Add to context files if successful
+      if (result.includes('successfully')) {
+        context.contextFiles.addContextFile(args.FilePath);
+      }
+      return result;
+    }
+  });
+
+  registry.register({
+    definition: {
+      type: 'function',
+      function: {
+        name: 'edit_file',
+        description: 'Make targeted changes to an existing file, either with search/replace blocks or a unified diff. Prefer it over update_file for anything but rewriting a whole file. Search text must match the file exactly (including indentation) and occur exactly once.',
+        parameters: {
+          type: 'object',
+          properties: {
+            FilePath: {
+              type: 'string',
+              description: 'The absolute path of the file to edit'
+            },
+            Edits: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  Search: {
+                    type: 'string',
+                    description: 'Exact text to find, with enough surrounding lines to be unique'
+                  },
+                  Replace: {
+                    type: 'string',
+                    description: 'Text to replace it with'
+                  }
+                },
+                required: ['Search', 'Replace']
+              },
+              description: 'Search/replace blocks, applied in order. Omit when using Diff.'
+            },
+            Diff: {
+              type: 'string',
+              description: 'Unified diff of the file with @@ hunk headers and context lines. Omit when using Edits.'
+            }
+          },
+          required: ['FilePath']
+        }
+      }
+    },
+    sideEffect: 'write',
+    affectedPaths: (args) => [args.FilePath],
+    timeoutMs: 30000,
+    handler: async (args, context) => {
+      const result = await editFile(args.FilePath, args.Edits, args.Diff);
+      if (result.includes('successfully')) {
+        context.contextFiles.addContextFile(args.FilePath);
+      }
+      return result;
+    }
+  });
+
+  registry.register({
+    definition: {
+      type: 'function',
+      function: {
+        name: 'create_directory',
+        description: 'Create a new directory at the specified path.',
+        parameters: {
+          type: 'object',
+          properties: {
+            DirectoryPath: {
+              type: 'string',
+              description: 'The absolute path of the directory to create'
+            }
+          },
+          required: ['DirectoryPath']
+        }
+      }
+    },
+    sideEffect: 'write',
+    affectedPaths: (args) => [args.DirectoryPath],
+    timeoutMs: 30000,
+    handler: async (args) => createDirectory(args.DirectoryPath)
+  });
+
+  registry.register({
+    definition: {
+      type: 'function',
+      function: {
+        name: 'codebase_search',
+        description: 'Semantic search over an index of the workspace code. Returns the code chunks (usually whole functions or classes) most relevant to the query, ranked, with file paths and line ranges. Prefer it over grep_search when you don\'t know the exact identifiers.',
+        parameters: {
+          type: 'object',
+          properties: {
+            Query: {
+              type: 'string',
+              description: 'Search query'
+            },
+            TargetDirectories: {
+              type: 'array',
+              items: {
+                type: 'string'
+              },
+              description: 'List of absolute paths to directories to search over (empty for the whole workspace)'
+            }
+          },
+          required: ['Query', 'TargetDirectories']
+        }
+      }
+    },
+    sideEffect: 'read',
+    // The first search builds the index
+    timeoutMs: 120000,
+    handler: async (args, context) => {
+      // Add target directories to context files
+      if (Array.isArray(args.TargetDirectories)) {
+        args.TargetDirectories.forEach((dir: string) => context.contextFiles.addContextFile(dir));
+      }
+      return codebaseSearch(args.Query, args.TargetDirectories);
+    }
+  });
+
+  registry.register({
+    definition: {
+      type: 'function',
+      function: {
+        name: 'grep_search',
+        description: 'Fast text-based search that finds exact pattern matches within files or directories.',
+        parameters: {
+          type: 'object',
+          properties: {
+            Query: {
+              type: 'string',
+              description: 'The search term or pattern to look for within files.'
+            },
+            SearchDirectory: {
+              type: 'string',
+              description: 'The directory from which to run the search command.'
+            },
+            Includes: {
+              type: 'array',
+              items: {
+                type: 'string'
+              },
+              description: 'The files or directories to search within.'
+            },
+            MatchPerLine: {
+              type: 'boolean',
+              description: 'If true, returns each line that matches the query, including line numbers and snippets.'
+            },
+            CaseInsensitive: {
+              type: 'boolean',
+              description: 'If true, performs a case-insensitive search.'
+            }
+          },
+          required: ['Query', 'SearchDirectory']
+        }
+      }
+    },
+    sideEffect: 'read',
+    timeoutMs: 30000,
+    handler: async (args, context) => {
+      // Add search directory to context if specified
+      if (args.SearchDirectory) {
+        context.contextFiles.addContextFile(args.SearchDirectory);
+      }
+      return searchFileContents(args);
+    }
+  });
+
+  registry.register({
+    definition: {
+      type: 'function',
+      function: {
+        name: 'find_by_name',
+        description: 'Search for files and subdirectories within a specified directory.',
+        parameters: {
+          type: 'object',
+          properties: {
+            SearchDirectory: {
+              type: 'string',
+              description: 'The directory to search within'
+            },
+            Pattern: {
+              type: 'string',
+              description: 'Optional, Pattern to search for, supports glob format'
+            },
+            Extensions: {
+              type: 'array',
+              items: {
+                type: 'string'
+              },
+              description: 'Optional, file extensions to include (without leading .)'
+            }
+          },
+          required: ['SearchDirectory']
+        }
+      }
+    },
+    sideEffect: 'read',
+    timeoutMs: 30000,
+    handler: async (args) => findFilesByName(args)
+  });
+
+  registry.register({
+    definition: {
+      type: 'function',
+      function: {
+        name: 'list_dir',
+        description: 'List the contents of a directory.',
+        parameters: {
+          type: 'object',
+          properties: {
+            DirectoryPath: {
+              type: 'string',
+              description: 'Path to list contents of, should be absolute path to a directory'
+            }
+          },
+          required: ['DirectoryPath']
+        }
+      }
+    },
+    sideEffect: 'read',
+    timeoutMs: 30000,
+    handler: async (args) => listDirectoryFiles(args)
+  });
+
+  registry.register({
+    definition: {
+      type: 'function',
+      function: {
+        name: 'view_file',
+        description: 'View the contents of a file.',
+        parameters: {
+          type: 'object',
+          properties: {
+            AbsolutePath: {
+              type: 'string',
+              description: 'Path to file to view. Must be an absolute path.'
+            },
+            StartLine: {
+              type: 'integer',
+              description: 'Startline to view'
+            },
+            EndLine: {
+              type: 'integer',
+              description: 'Endline to view, inclusive.'
+            }
+          },
+          required: ['AbsolutePath', 'StartLine', 'EndLine']
+        }
+      }
+    },
+    sideEffect: 'read',
+    timeoutMs: 30000,
+    handler: async (args, context) => {
+      const filePath = resolveWorkspacePath(args.AbsolutePath);
+      if (!filePath) {
+        return 'Error: No workspace folder is open';
+      }
+      // Add this file to our context files list
+      context.contextFiles.addContextFile(filePath);
+      return viewFileLines(filePath, args.StartLine, args.EndLine);
+    }
+  });
+
+  registry.register({
+    definition: {
+      type: 'function',
+      function: {
+        name: 'view_code_item',
+        description: 'View the content of a code item node, such as a class or a function in a file.',
+        parameters: {
+          type: 'object',
+          properties: {
+            File: {
+              type: 'string',
+              description: 'Absolute path to the node to edit, e.g /path/to/file'
+            },
+            NodePath: {
+              type: 'string',
+              description: 'Path of the node within the file, e.g package.class.FunctionName'
+            }
+          },
+          required: ['File', 'NodePath']
+        }
+      }
+    },
+    sideEffect: 'read',
+    timeoutMs: 30000,
+    handler: async (args, context) => {
+      if (args.File) {
+        context.contextFiles.addContextFile(args.File);
+      }
+      return viewCodeItem(args.File, args.NodePath);
+    }
+  });
+
+  registry.register({
+    definition: {
+      type: 'function',
+      function: {
+        name: 'read_url_content',
+        description: 'Read content from a URL.',
+        parameters: {
+          type: 'object',
+          properties: {
+            Url: {
+              type: 'string',
+              description: 'URL to read content from'
+            }
+          },
+          required: ['Url']
+        }
+      }
+    },
+    sideEffect: 'network',
+    timeoutMs: 30000,
+    handler: async (args) => readUrlContent(args.Url)
+  });
+
+  registry.register({
+    definition: {
+      type: 'function',
+      function: {
+        name: 'search_web',
+        description: 'Performs a web search to get a list of relevant web documents for the given query.',
+        parameters: {
+          type: 'object',
+          properties: {
+            query: {
+              type: 'string',
+              description: 'The search query'
+            },
+            domain: {
+              type: 'string',
+              description: 'Optional domain to recommend the search prioritize'
+            }
+          },
+          required: ['query']
+        }
+      }
+    },
+    sideEffect: 'network',
+    timeoutMs: 30000,
+    handler: async (args) => searchWeb(args.query, args.domain)
+  });
+
+  registry.register({
+    definition: {
+      type: 'function',
+      function: {
+        name: 'run_command',
+        description: 'Execute a shell command and wait for it to finish. Returns JSON with the exit code, stdout, stderr and whether the command timed out or its output was truncated.',
+        parameters: {
+          type: 'object',
+          properties: {
+            CommandLine: {
+              type: 'string',
+              description: 'The exact command line string to execute.'
+            },
+            Cwd: {
+              type: 'string',
+              description: 'The current working directory for the command'
+            }
+          },
+          required: ['CommandLine', 'Cwd']
+        }
+      }
+    },
+    sideEffect: 'exec',
+    // Commands enforce their own timeout, so give them time to report their result
+    timeoutMs: () => getCommandTimeoutMs() + 5000,
+    handler: async (args, context) => runCommand(args.CommandLine, args.Cwd, context.token)
+  });
+
+  registry.register({
+    definition: {
+      type: 'function',
+      function: {
+        name: 'checkDiagnostics',
+        description: 'Fetch all the problems and warnings for the current workspace. Check this after every edit to ensure no errors are introduced.'
+      }
+    },
+    sideEffect: 'read',
+    timeoutMs: 30000,
+    handler: async () => checkDiagnostics()
+  });
+
+  registry.register({
+    definition: {
+      type: 'function',
+      function: {
+        name: 'get_symbol_info',
+        description: 'Query the language server about code symbols. Without a position, returns the symbol outline of the file. With a position, returns the symbol at that position, its definition (GetDefinition) or all its references (FindReferences).',
+        parameters: {
+          type: 'object',
+          properties: {
+            FilePath: {
+              type: 'string',
+              description: 'Absolute path of the file containing the symbol'
+            },
+            Line: {
+              type: 'integer',
+              description: 'Optional 0-based line of the symbol'
+            },
+            Character: {
+              type: 'integer',
+              description: 'Optional 0-based character offset of the symbol within the line'
+            },
+            GetHierarchy: {
+              type: 'boolean',
+              description: 'If true, returns the outline of all symbols in the file'
+            },
+            GetDefinition: {
+              type: 'boolean',
+              description: 'If true, goes to the definition of the symbol at the position'
+            },
+            FindReferences: {
+              type: 'boolean',
+              description: 'If true, finds all references to the symbol at the position'
+            }
+          },
+          required: ['FilePath']
+        }
+      }
+    },
+    sideEffect: 'read',
+    timeoutMs: 30000,
+    handler: async (args, context) => {
+      context.contextFiles.addContextFile(args.FilePath);
+      return getSymbolInfo(args);
+    }
+  });
+
+  registry.register({
+    definition: {
+      type: 'function',
+      function: {
+        name: 'get_code_actions',
+        description: 'List the quick fixes and refactorings the language server offers for a range in a file, or all quick fixes for the problems in the file.',
+        parameters: {
+          type: 'object',
+          properties: {
+            FilePath: {
+              type: 'string',
+              description: 'Absolute path of the file'
+            },
+            StartLine: {
+              type: 'integer',
+              description: 'Optional 0-based start line of the range'
+            },
+            StartCharacter: {
+              type: 'integer',
+              description: 'Optional 0-based start character of the range'
+            },
+            EndLine: {
+              type: 'integer',
+              description: 'Optional 0-based end line of the range'
+            },
+            EndCharacter: {
+              type: 'integer',
+              description: 'Optional 0-based end character of the range'
+            },
+            AllQuickFixes: {
+              type: 'boolean',
+              description: 'If true, lists the quick fixes for every problem in the file'
+            }
+          },
+          required: ['FilePath']
+        }
+      }
+    },
+    sideEffect: 'read',
+    timeoutMs: 30000,
+    handler: async (args, context) => {
+      context.contextFiles.addContextFile(args.FilePath);
+      return getCodeActions(args);
+    }
+  });
+
+  registry.register({
+    definition: {
+      type: 'function',
+      function: {
+        name: 'apply_code_action',
+        description: 'Apply a quick fix or refactoring offered by the language server. Call get_code_actions first and pass the exact title of the action and the same range.',
+        parameters: {
+          type: 'object',
+          properties: {
+            FilePath: {
+              type: 'string',
+              description: 'Absolute path of the file'
+            },
+            Title: {
+              type: 'string',
+              description: 'Exact title of the code action, as returned by get_code_actions'
+            },
+            StartLine: {
+              type: 'integer',
+              description: '0-based start line of the range the action was listed for'
+            },
+            StartCharacter: {
+              type: 'integer',
+              description: '0-based start character of the range'
+            },
+            EndLine: {
+              type: 'integer',
+              description: '0-based end line of the range'
+            },
+            EndCharacter: {
+              type: 'integer',
+              description: '0-based end character of the range'
+            }
+          },
+          required: ['FilePath', 'Title', 'StartLine', 'StartCharacter', 'EndLine', 'EndCharacter']
+        }
+      }
+    },
+    sideEffect: 'write',
+    // The action's edit can change other files than the one it was listed for
+    affectedPaths: async (args) => {
+      const { codeAction } = await findCodeAction(args);
+      // The handler applies the resolved action, the one whose files are snapshotted, instead of looking it up again
+      args.CodeAction = codeAction;
+      const editPaths = Object.keys(codeAction?.edit?.changes || {})
+        .map(fileUri => vscode.Uri.parse(fileUri))
+        .filter(uri => uri.scheme === 'file')
+        .map(uri => uri.fsPath);
+      return [args.FilePath, ...editPaths];
+    },
+    timeoutMs: 30000,
+    handler: async (args, context) => {
+      context.contextFiles.addContextFile(args.FilePath);
+      return applyCodeAction(args);
+    }
+  });
+
+  registry.register({
+    definition: {
+      type: 'function',
+      function: {
+        name: 'submit_plan',
+        description: 'Propose the steps you will take to complete the task. The user reviews and may edit the plan; wait for the result before making any changes.',
+        parameters: {
+          type: 'object',
+          properties: {
+            Summary: {
+              type: 'string',
+              description: 'One or two sentences describing the approach'
+            },
+            Steps: {
+              type: 'array',
+              items: {
+                type: 'string'
+              },
+              description: 'Ordered, concrete steps, e.g. "Add a retry option to runCommand in src/tools/runCommand.ts"'
+            }
+          },
+          required: ['Summary', 'Steps']
+        }
+      }
+    },
+    sideEffect: 'plan',
+    // The call waits until the user has reviewed the plan
+    timeoutMs: 60 * 60 * 1000,
+    handler: async (args, context) => submitPlan(args, context.token)
+  });
+
+  registry.register({
+    definition: {
+      type: 'function',
+      function: {
+        name: 'update_plan_step',
+        description: 'Update the status of a step of the approved plan, so the user can follow your progress.',
+        parameters: {
+          type: 'object',
+          properties: {
+            StepNumber: {
+              type: 'integer',
+              description: '1-based number of the step in the plan'
+            },
+            Status: {
+              type: 'string',
+              enum: ['in_progress', 'done', 'skipped'],
+              description: 'New status of the step'
+            }
+          },
+          required: ['StepNumber', 'Status']
+        }
+      }
+    },
+    sideEffect: 'plan',
+    timeoutMs: 30000,
+    handler: async (args) => updatePlanStep(args)
+  });
+}
+
+/**
+ * Resolve a path relative to the current project
+ * @returns The absolute path, or undefined if no workspace folder is open
+ */
+function resolveWorkspacePath(filePath: string): string | undefined {
+  const projectPath = ProjectPathService.getInstance().getCurrentProjectPath();
+  if (!projectPath) {
+    return undefined;
+  }
+  return path.isAbsolute(filePath) ? filePath : path.join(projectPath, filePath);
+}
+
+/**
+ * Find files in the workspace matching a glob pattern
+ */
+async function findFilesByName(args: any): Promise<string> {
+  const projectPath = ProjectPathService.getInstance().getCurrentProjectPath();
+  if (!projectPath) {
+    return 'Error: No workspace folder is open';
+  }
+
+  try {
+    const files = await vscode.workspace.findFiles(
+      args.Pattern ? `**/${args.Pattern}` : '**/*',
+      undefined,
+      args.MaxDepth || undefined
+    );
+
+    const results = files.map(file => ({
+      path: vscode.workspace.asRelativePath(file),
+      name: path.basename(file.fsPath),
+      isDirectory: false,
+      type: 'file'
+    }));
+
+    console.log('Find by name results:', results.length);
+    return JSON.stringify(results, null, 2);
+  } catch (err) {
+    console.error('VS Code find files error:', err);
+    return `Error finding files: ${err}`;
+  }
+}
+
+/**
+ * List the files directly inside a directory
+ */
+async function listDirectoryFiles(args: any): Promise<string> {
+  const directoryPath = resolveWorkspacePath(args.DirectoryPath);
+  if (!directoryPath) {
+    return 'Error: No workspace folder is open';
+  }
+
+  try {
+    const files = await vscode.workspace.findFiles(
+      new vscode.RelativePattern(directoryPath, '*'),
+      undefined
+    );
+
+    const results = files.map(file => ({
+      path: vscode.workspace.asRelativePath(file),
+      name: path.basename(file.fsPath),
+      isDirectory: false, // We can't easily determine this without additional fs calls
+      type: 'file'
+    }));
+
+    return JSON.stringify(results, null, 2);
+  } catch (err) {
+    console.error('VS Code list dir error:', err);
+    return `Error listing directory: ${err}`;
+  }
+}
+
+/**
+ * Read a range of lines from a file
+ */
+async function viewFileLines(filePath: string, startLine?: number, endLine?: number): Promise<string> {
+  try {
+    const document = await vscode.workspace.openTextDocument(filePath);
+    const lines = document.getText().split('\n');
+
+    const start = Math.max(0, startLine || 0);
+    const end = Math.min(lines.length - 1, endLine || lines.length - 1);
+
+    return lines.slice(start, end + 1).join('\n');
+  } catch (err) {
+    console.error('VS Code view file error:', err);
+    return `Error viewing file: ${err}`;
+  }
+}
+
+/**
+ * Search the workspace files for a literal string
+ */
+async function searchFileContents(args: any): Promise<string> {
+  const projectPath = ProjectPathService.getInstance().getCurrentProjectPath();
+  if (!projectPath) {
+    return 'Error: No workspace folder is open';
+  }
+
+  try {
+    const searchResults = await vscode.workspace.findFiles(
+      args.Includes?.length ? `**/{${args.Includes.join(',')}}` : '**/*',
+      undefined
+    );
+
+    const allResults: string[] = [];
+
+    for (const file of searchResults) {
+      try {
+        const document = await vscode.workspace.openTextDocument(file);
+        const content = document.getText();
+
+        if (content.includes(args.Query)) {
+          if (args.MatchPerLine) {
+            const lines = content.split('\n');
+            for (let i = 0; i < lines.length; i++) {
+              if (lines[i].includes(args.Query)) {
+                allResults.push(`${vscode.workspace.asRelativePath(file)}:${i+1}: ${lines[i]}`);
+              }
+            }
+          } else {
+            allResults.push(vscode.workspace.asRelativePath(file));
+          }
+        }
+      } catch (err) {
+        console.error(`Error searching file ${file.fsPath}:`, err);
+      }
+    }
+
+    return allResults.join('\n');
+  } catch (err) {
+    console.error('VS Code grep search error:', err);
+    return `Error searching: ${err}`;
+  }
+}
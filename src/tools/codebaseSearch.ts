@@ -1,43 +1,30 @@
-import * as fs from 'fs';
 import * as path from 'path';
+import { ServiceFactory } from '../services/ServiceFactory';
 
-export async function codebaseSearch(query: string, targetDirectories: string[]): Promise<string> {
-  const results: string[] = [];
-  
-  for (const dir of targetDirectories) {
-    await searchDirectoryForCode(dir, query, results);
-  }
-  
-  return results.length > 0 ? results.join('\n\n') : 'No results found.';
-}
+// Longer snippets are truncated in the tool result
+const MAX_SNIPPET_LINES = 60;
+
+/**
+ * Search the codebase index for the code most relevant to a query
+ * @param query Natural language or keyword query
+ * @param targetDirectories Absolute paths of the directories to search (the whole workspace when empty)
+ * @returns Ranked snippets with their file paths and line ranges
+ */
+export async function codebaseSearch(query: string, targetDirectories: string[] = []): Promise<string> {
+  const results = await ServiceFactory.getCodeIndexService().search(query, targetDirectories, 10);
 
-async function searchDirectoryForCode(directory: string, query: string, results: string[]): Promise<void> {
-  try {
-    const files = fs.readdirSync(directory);
-    
-    for (const file of files) {
-      const filePath = path.join(directory, file);
-      const stats = fs.statSync(filePath);
-      
-      if (stats.isDirectory()) {
-        if (file !== 'node_modules' && file !== '.git') {
-          await searchDirectoryForCode(filePath, query, results);
-        }
-      } else if (stats.isFile()) {
-        const ext = path.extname(file).toLowerCase();
-        if (['.js', '.ts', '.jsx', '.tsx', '.py', '.java', '.c', '.cpp', '.h', '.hpp', '.cs'].includes(ext)) {
-          try {
-            const content = fs.readFileSync(filePath, 'utf8');
-            if (content.toLowerCase().includes(query.toLowerCase())) {
-              results.push(`File: ${filePath}\n\`\`\`\n${content.slice(0, 500)}${content.length > 500 ? '...' : ''}\n\`\`\``);
-            }
-          } catch (error) {
-            console.error(`Error reading file ${filePath}:`, error);
-          }
-        }
-      }
-    }
-  } catch (error) {
-    console.error(`Error searching directory ${directory}:`, error);
+  if (results.length === 0) {
+    return 'No results found.';
   }
+
+  return results.map((result, index) => {
+    const lines = result.text.split('\n');
+    const snippet = lines.length > MAX_SNIPPET_LINES
+      ? `${lines.slice(0, MAX_SNIPPET_LINES).join('\n')}\n... (${lines.length - MAX_SNIPPET_LINES} more lines)`
+      : result.text;
+    const symbol = result.symbol ? ` (${result.symbol})` : '';
+    const language = path.extname(result.filePath).slice(1);
+
+    return `${index + 1}. ${result.filePath}:${result.startLine + 1}-${result.endLine + 1}${symbol} [score ${result.score.toFixed(3)}]\n\`\`\`${language}\n${snippet}\n\`\`\``;
+  }).join('\n\n');
 }
@@ -0,0 +1,279 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { checkForDiagnostics } from './updateFile';
+
+/**
+ * A search/replace block of an edit_file call
+ */
+export interface SearchReplaceEdit {
+  Search: string;
+  Replace: string;
+}
+
+/**
+ * Read the current content of a file, including unsaved changes in an open editor
+ */
+export async function readCurrentContent(filePath: string): Promise<string> {
+  const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+  return document.getText();
+}
+
+/**
+ * Get the open document of a file if it has changes the user hasn't saved
+ */
+export function findUnsavedDocument(filePath: string): vscode.TextDocument | undefined {
+  const uri = vscode.Uri.file(filePath).toString();
+  return vscode.workspace.textDocuments.find(document => document.isDirty && document.uri.toString() === uri);
+}
+
+/**
+ * Compute the content a file will have after an edit, without touching the disk
+ * @param existingContent Current content of the file
+ * @param edits Search/replace blocks, applied in order
+ * @param diff Unified diff to apply instead of search/replace blocks
+ * @returns The edited content, or an error message explaining why the edit doesn't apply
+ */
+export function computeEditedContent(
+  existingContent: string,
+  edits?: SearchReplaceEdit[],
+  diff?: string
+): { content?: string; error?: string } {
+  const hasEdits = Array.isArray(edits) && edits.length > 0;
+  if (hasEdits === Boolean(diff)) {
+    return { error: 'Provide either Edits or Diff (exactly one of them)' };
+  }
+
+  // Match the file's line endings so CRLF files can be edited with LF anchors
+  const eol = existingContent.includes('\r\n') ? '\r\n' : '\n';
+  const toFileEol = (text: string) => eol === '\r\n' ? text.replace(/\r?\n/g, '\r\n') : text.replace(/\r\n/g, '\n');
+
+  if (diff) {
+    return applyUnifiedDiff(existingContent, toFileEol(diff), eol);
+  }
+
+  let content = existingContent;
+  for (let i = 0; i < edits!.length; i++) {
+    const search = toFileEol(edits![i].Search);
+    const replace = toFileEol(edits![i].Replace);
+    const label = edits!.length > 1 ? `Edit ${i + 1}` : 'Edit';
+
+    if (search === '') {
+      if (content !== '') {
+        return { error: `${label}: Search text must not be empty` };
+      }
+      content = replace;
+      continue;
+    }
+
+    const index = content.indexOf(search);
+    if (index === -1) {
+      return { error: `${label}: Search text was not found in the file. ${describeClosestMatch(content, search, eol)}` };
+    }
+    const secondIndex = content.indexOf(search, index + 1);
+    if (secondIndex !== -1) {
+      const firstLine = lineNumberAt(content, index);
+      const secondLine = lineNumberAt(content, secondIndex);
+      return { error: `${label}: Search text matches more than once (at lines ${firstLine} and ${secondLine}). Include more surrounding lines so it matches exactly once.` };
+    }
+
+    content = content.slice(0, index) + replace + content.slice(index + search.length);
+  }
+
+  return { content };
+}
+
+/**
+ * Edit a file with search/replace blocks or a unified diff
+ * The change is applied as a WorkspaceEdit so it can be undone in the editor.
+ * Files with unsaved changes are not edited, since saving the edit would save the user's changes with it.
+ */
+export async function editFile(filePath: string, edits?: SearchReplaceEdit[], diff?: string): Promise<string> {
+  try {
+    if (!fs.existsSync(filePath)) {
+      return `Error: File does not exist at ${filePath}. Use create_file to create a new file.`;
+    }
+
+    if (findUnsavedDocument(filePath)) {
+      return `Error: ${filePath} has unsaved changes in the editor. The file was not changed. Ask the user to save or revert their changes, then try again.`;
+    }
+
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+    const existingContent = document.getText();
+    const result = computeEditedContent(existingContent, edits, diff);
+
+    if (result.error !== undefined || result.content === undefined) {
+      return `Error: ${result.error}\nThe file was not changed. View the file to get the exact current text and try again.`;
+    }
+
+    if (result.content === existingContent) {
+      return `No changes: the edit leaves ${filePath} unchanged.`;
+    }
+
+    // Only replace the region that changed, so cursors and folding elsewhere are kept
+    const changed = findChangedRegion(existingContent, result.content);
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    workspaceEdit.replace(
+      document.uri,
+      new vscode.Range(document.positionAt(changed.start), document.positionAt(changed.oldEnd)),
+      result.content.slice(changed.start, changed.newEnd)
+    );
+
+    if (!await vscode.workspace.applyEdit(workspaceEdit)) {
+      return `Error: VS Code could not apply the edit to ${filePath}.`;
+    }
+    await document.save();
+
+    const startLine = document.positionAt(changed.start).line + 1;
+    const endLine = document.positionAt(changed.newEnd).line + 1;
+    console.log(`Successfully edited file: ${filePath} (lines ${startLine}-${endLine})`);
+
+    const diagnosticsResult = await checkForDiagnostics(filePath);
+
+    return `File edited successfully: ${filePath} (changed lines ${startLine}-${endLine})\n\n${diagnosticsResult}`;
+  } catch (error: any) {
+    console.error(`Error editing file ${filePath}:`, error);
+    return `Error: ${error.message}`;
+  }
+}
+
+/**
+ * Apply a unified diff to a single file
+ * Hunks are located by their context and removed lines; the line numbers in the
+ * hunk header are only used to pick between several matching locations
+ */
+function applyUnifiedDiff(existingContent: string, diff: string, eol: string): { content?: string; error?: string } {
+  const hunks = parseHunks(diff, eol);
+  if (hunks.length === 0) {
+    return { error: 'Diff contains no hunks (each hunk must start with an "@@ -start,count +start,count @@" header)' };
+  }
+
+  const lines = existingContent.split(eol);
+  // Difference between line numbers in the diff and in the partially patched file
+  let offset = 0;
+
+  for (let i = 0; i < hunks.length; i++) {
+    const hunk = hunks[i];
+    const expectedIndex = hunk.oldStart - 1 + offset;
+    const index = findLines(lines, hunk.oldLines, expectedIndex);
+
+    if (index === -1) {
+      const expected = hunk.oldLines.map(line => `  ${line}`).join('\n');
+      return { error: `Hunk ${i + 1} (${hunk.header}) does not match the file. These lines were not found:\n${expected}` };
+    }
+
+    lines.splice(index, hunk.oldLines.length, ...hunk.newLines);
+    offset += hunk.newLines.length - hunk.oldLines.length + (index - expectedIndex);
+  }
+
+  return { content: lines.join(eol) };
+}
+
+interface Hunk {
+  header: string;
+  oldStart: number;
+  oldLines: string[];
+  newLines: string[];
+}
+
+function parseHunks(diff: string, eol: string): Hunk[] {
+  const hunks: Hunk[] = [];
+  let current: Hunk | undefined;
+
+  const diffLines = diff.split(eol);
+  if (diffLines[diffLines.length - 1] === '') {
+    diffLines.pop();
+  }
+
+  for (const line of diffLines) {
+    const header = line.match(/^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/);
+    if (header) {
+      current = { header: header[0], oldStart: Math.max(1, parseInt(header[1], 10)), oldLines: [], newLines: [] };
+      hunks.push(current);
+      continue;
+    }
+
+    // File headers and anything before the first hunk are ignored
+    if (!current || line.startsWith('\\')) {
+      continue;
+    }
+
+    if (line.startsWith('-')) {
+      current.oldLines.push(line.slice(1));
+    } else if (line.startsWith('+')) {
+      current.newLines.push(line.slice(1));
+    } else if (line.startsWith(' ') || line === '') {
+      // Some tools drop the leading space of blank context lines
+      current.oldLines.push(line.slice(1));
+      current.newLines.push(line.slice(1));
+    }
+  }
+
+  return hunks;
+}
+
+/**
+ * Find where a block of lines occurs, preferring the occurrence closest to the expected index
+ * @returns The index of the first line, or -1 if the block doesn't occur
+ */
+function findLines(lines: string[], block: string[], expectedIndex: number): number {
+  if (block.length === 0) {
+    // Pure insertion: trust the header
+    return Math.min(Math.max(0, expectedIndex), lines.length);
+  }
+
+  let best = -1;
+  for (let start = 0; start + block.length <= lines.length; start++) {
+    if (block.every((line, i) => lines[start + i] === line) &&
+      (best === -1 || Math.abs(start - expectedIndex) < Math.abs(best - expectedIndex))) {
+      best = start;
+    }
+  }
+  return best;
+}
+
+/**
+ * Point the model at the place the search text most likely refers to
+ */
+function describeClosestMatch(content: string, search: string, eol: string): string {
+  const searchLines = search.split(eol).filter(line => line.trim() !== '');
+  if (searchLines.length === 0) {
+    return '';
+  }
+
+  const firstLine = searchLines[0].trim();
+  const fileLines = content.split(eol);
+  const candidates = fileLines
+    .map((line, index) => ({ line, index }))
+    .filter(({ line }) => line.trim() === firstLine);
+
+  if (candidates.length === 0) {
+    return `Its first line "${firstLine}" does not occur in the file either.`;
+  }
+
+  const lineNumbers = candidates.slice(0, 5).map(({ index }) => index + 1).join(', ');
+  return `Its first line occurs at line${candidates.length > 1 ? 's' : ''} ${lineNumbers}, but the following lines or the whitespace differ. Search text must match the file exactly, including indentation.`;
+}
+
+function lineNumberAt(content: string, index: number): number {
+  return content.slice(0, index).split('\n').length;
+}
+
+/**
+ * Find the span that differs between two versions of a text
+ */
+function findChangedRegion(oldText: string, newText: string): { start: number; oldEnd: number; newEnd: number } {
+  let start = 0;
+  const maxStart = Math.min(oldText.length, newText.length);
+  while (start < maxStart && oldText[start] === newText[start]) {
+    start++;
+  }
+
+  let oldEnd = oldText.length;
+  let newEnd = newText.length;
+  while (oldEnd > start && newEnd > start && oldText[oldEnd - 1] === newText[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  return { start, oldEnd, newEnd };
+}
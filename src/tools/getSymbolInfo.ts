@@ -1,3 +1,4 @@
+import * as vscode from 'vscode';
 import * as path from 'path';
 import { ServiceFactory } from '../services/ServiceFactory';
 
@@ -25,7 +26,7 @@ export async function getSymbolInfo(args: {
     const symbolService = ServiceFactory.getSymbolInformationService();
     
     // If no position is provided, get the symbol hierarchy
-    if (args.GetHierarchy || (!args.Line && !args.Character)) {
+    if (args.GetHierarchy || (args.Line === undefined && args.Character === undefined)) {
       const symbolHierarchy = await symbolService.getDocumentSymbolHierarchy(args.FilePath);
       return symbolHierarchy;
     }
@@ -69,7 +70,7 @@ export async function getSymbolInfo(args: {
       }
       
       const relativePath = path.basename(definition.filePath);
-      const symbolKind = definition.kind ? ` (${definition.kind})` : '';
+      const symbolKind = definition.kind !== undefined ? ` (${vscode.SymbolKind[definition.kind]})` : '';
       
       let result = `Definition found: ${definition.name}${symbolKind}\n`;
       result += `Location: ${relativePath}:${definition.range.startLine + 1}:${definition.range.startCharacter + 1}\n`;
@@ -92,7 +93,7 @@ export async function getSymbolInfo(args: {
       return 'No symbol found at the specified position.';
     }
     
-    let result = `Symbol: ${symbol.name} (${symbol.kind})\n`;
+    let result = `Symbol: ${symbol.name} (${vscode.SymbolKind[symbol.kind]})\n`;
     result += `Location: ${path.basename(symbol.filePath)}:${symbol.range.startLine + 1}:${symbol.range.startCharacter + 1}\n`;
     
     if (symbol.detail) {
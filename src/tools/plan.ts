@@ -0,0 +1,53 @@
+import * as vscode from 'vscode';
+import { ServiceFactory } from '../services/ServiceFactory';
+import { Plan, PlanStepStatus } from '../services/types/Plan';
+
+/**
+ * Format a plan as a numbered checklist for the model
+ */
+export function formatPlan(plan: Plan): string {
+  const marks: Record<PlanStepStatus, string> = {
+    pending: '[ ]',
+    in_progress: '[~]',
+    done: '[x]',
+    skipped: '[-]'
+  };
+  return plan.steps.map((step, index) => `${index + 1}. ${marks[step.status]} ${step.description}`).join('\n');
+}
+
+/**
+ * Propose a plan to the user and wait for their review
+ * @returns The reviewed plan, or the rejection, as a tool result
+ */
+export async function submitPlan(
+  args: { Summary: string; Steps: string[] },
+  token?: vscode.CancellationToken
+): Promise<string> {
+  const steps = args.Steps.map(step => step.trim()).filter(step => step.length > 0);
+  if (steps.length === 0) {
+    return 'Error: The plan must have at least one step.';
+  }
+
+  const plan = await ServiceFactory.getPlanService().submitPlan(args.Summary, steps, token);
+
+  if (plan.status !== 'approved') {
+    return 'The user rejected the plan. Do not make any changes; wait for the user to say how to proceed.';
+  }
+
+  const edited = plan.steps.length !== steps.length || plan.steps.some((step, index) => step.description !== steps[index]);
+  return `The user approved the plan${edited ? ' after editing it' : ''}:\n${formatPlan(plan)}\n\n` +
+    'Execute it step by step. Call update_plan_step to mark each step in_progress when you start it and done (or skipped) when you finish it.';
+}
+
+/**
+ * Update the status of a step of the approved plan
+ */
+export async function updatePlanStep(args: { StepNumber: number; Status: PlanStepStatus }): Promise<string> {
+  try {
+    const planService = ServiceFactory.getPlanService();
+    const step = planService.updateStep(args.StepNumber, args.Status);
+    return `Step ${args.StepNumber} (${step.description}) is now ${args.Status}.\n\n${formatPlan(planService.getPlan()!)}`;
+  } catch (error) {
+    return `Error: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
@@ -1,17 +1,258 @@
 import * as vscode from 'vscode';
+import { spawn, ChildProcess } from 'child_process';
 
-export async function runCommand(commandLine: string, cwd: string): Promise<string> {
-  // Create a new terminal with the specified working directory
-  const terminal = vscode.window.createTerminal({
-    name: 'Command Runner',
-    cwd: cwd
+/**
+ * Structured result of a command execution, returned to the model as JSON
+ */
+export interface CommandResult {
+  command: string;
+  cwd: string;
+  exitCode: number | null;
+  signal: string | null;
+  timedOut: boolean;
+  cancelled: boolean;
+  durationMs: number;
+  stdout: string;
+  stderr: string;
+  truncated: boolean;
+}
+
+/**
+ * Keeps the beginning and the end of a stream when it exceeds the size limit,
+ * since both the first error and the final summary are usually the useful parts
+ */
+class CappedOutput {
+  private head = '';
+  private tail = '';
+  private totalLength = 0;
+
+  constructor(private readonly maxChars: number) {}
+
+  public append(text: string): void {
+    this.totalLength += text.length;
+    const headLimit = Math.floor(this.maxChars / 2);
+
+    if (this.head.length < headLimit) {
+      const headPart = text.substring(0, headLimit - this.head.length);
+      this.head += headPart;
+      text = text.substring(headPart.length);
+    }
+
+    if (text.length > 0) {
+      const tailLimit = this.maxChars - headLimit;
+      this.tail = (this.tail + text).slice(-tailLimit);
+    }
+  }
+
+  public get truncated(): boolean {
+    return this.totalLength > this.maxChars;
+  }
+
+  public toString(): string {
+    if (!this.truncated) {
+      return this.head + this.tail;
+    }
+    const omitted = this.totalLength - this.head.length - this.tail.length;
+    return `${this.head}\n... [${omitted} characters omitted] ...\n${this.tail}`;
+  }
+}
+
+let outputChannel: vscode.OutputChannel | undefined;
+
+/**
+ * Get the output channel that mirrors command output for the user
+ */
+function getOutputChannel(): vscode.OutputChannel {
+  if (!outputChannel) {
+    outputChannel = vscode.window.createOutputChannel('Quest1 Commands');
+  }
+  return outputChannel;
+}
+
+/**
+ * Get the configured command timeout in milliseconds
+ */
+export function getCommandTimeoutMs(): number {
+  const seconds = vscode.workspace.getConfiguration('quest1CodeAssistant').get<number>('commandTimeoutSeconds', 120);
+  return Math.max(1, seconds) * 1000;
+}
+
+// Time a command gets to exit after SIGTERM before its process group is killed
+const KILL_GRACE_MS = 2000;
+
+// Time to collect the remaining output after the command exits; processes it started
+// in the background can keep its output open long after that
+const OUTPUT_DRAIN_MS = 500;
+
+/**
+ * Kill a child process together with any processes it started
+ * Processes get SIGTERM first and SIGKILL after a grace period if they ignore it.
+ */
+function killProcessTree(child: ChildProcess): void {
+  if (child.pid === undefined) {
+    return;
+  }
+  const pid = child.pid;
+
+  try {
+    if (process.platform === 'win32') {
+      spawn('taskkill', ['/pid', String(pid), '/T', '/F']);
+      return;
+    }
+    // The child runs in its own process group, so a negative pid reaches the whole group
+    process.kill(-pid, 'SIGTERM');
+  } catch (error) {
+    console.error(`Error killing process ${pid}:`, error);
+    child.kill('SIGKILL');
+    return;
+  }
+
+  // Processes of the group may outlive the child itself, so the group gets SIGKILL either way
+  setTimeout(() => {
+    try {
+      process.kill(-pid, 'SIGKILL');
+    } catch {
+      // The whole group has exited
+    }
+  }, KILL_GRACE_MS).unref();
+}
+
+/**
+ * Run a command line in a child process and capture its output and exit code
+ * @param commandLine The command line to execute through the shell
+ * @param cwd The working directory for the command
+ * @param timeoutMs Time after which the command is killed
+ * @param maxOutputChars Maximum number of characters kept per output stream
+ * @param token Optional token that kills the command when cancelled
+ * @returns The structured command result
+ */
+export function executeCommand(
+  commandLine: string,
+  cwd: string,
+  timeoutMs: number,
+  maxOutputChars: number,
+  token?: vscode.CancellationToken
+): Promise<CommandResult> {
+  // A run stopped before the command started doesn't start it
+  if (token?.isCancellationRequested) {
+    return Promise.resolve({
+      command: commandLine,
+      cwd,
+      exitCode: null,
+      signal: null,
+      timedOut: false,
+      cancelled: true,
+      durationMs: 0,
+      stdout: '',
+      stderr: '',
+      truncated: false
+    });
+  }
+
+  const channel = getOutputChannel();
+  channel.show(true);
+  channel.appendLine(`> ${commandLine}  (cwd: ${cwd})`);
+
+  const startTime = Date.now();
+  const stdout = new CappedOutput(maxOutputChars);
+  const stderr = new CappedOutput(maxOutputChars);
+
+  return new Promise<CommandResult>(resolve => {
+    let timedOut = false;
+    let cancelled = false;
+    let settled = false;
+    let cancellationListener: vscode.Disposable | undefined;
+    let drainTimeoutId: NodeJS.Timeout | undefined;
+
+    const finish = (exitCode: number | null, signal: string | null) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timeoutId);
+      clearTimeout(drainTimeoutId);
+      cancellationListener?.dispose();
+      // Stop reading output still coming from processes the command left running
+      child.stdout?.destroy();
+      child.stderr?.destroy();
+
+      const durationMs = Date.now() - startTime;
+      if (cancelled) {
+        channel.appendLine('[Cancelled]');
+      } else {
+        channel.appendLine(
+          timedOut
+            ? `[Timed out after ${timeoutMs / 1000}s]`
+            : `[Exited with code ${exitCode}${signal ? ` (signal ${signal})` : ''} in ${durationMs}ms]`
+        );
+      }
+      channel.appendLine('');
+
+      resolve({
+        command: commandLine,
+        cwd,
+        exitCode,
+        signal,
+        timedOut,
+        cancelled,
+        durationMs,
+        stdout: stdout.toString(),
+        stderr: stderr.toString(),
+        truncated: stdout.truncated || stderr.truncated
+      });
+    };
+
+    const child = spawn(commandLine, {
+      cwd,
+      shell: true,
+      env: process.env,
+      detached: process.platform !== 'win32'
+    });
+
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      killProcessTree(child);
+    }, timeoutMs);
+
+    cancellationListener = token?.onCancellationRequested(() => {
+      cancelled = true;
+      killProcessTree(child);
+    });
+
+    // Decoding in the streams keeps multi-byte characters split across chunks intact
+    child.stdout?.setEncoding('utf8');
+    child.stderr?.setEncoding('utf8');
+
+    child.stdout?.on('data', (text: string) => {
+      stdout.append(text);
+      channel.append(text);
+    });
+
+    child.stderr?.on('data', (text: string) => {
+      stderr.append(text);
+      channel.append(text);
+    });
+
+    child.on('error', error => {
+      console.error(`Error running command "${commandLine}":`, error);
+      stderr.append(error.message);
+      channel.appendLine(`Error: ${error.message}`);
+      finish(null, null);
+    });
+
+    // 'close' waits for the output streams to end, which background processes can hold open
+    child.on('exit', (code, signal) => {
+      drainTimeoutId = setTimeout(() => finish(code, signal), OUTPUT_DRAIN_MS);
+    });
+    child.on('close', (code, signal) => finish(code, signal));
   });
-  // Show the terminal to the user
-  terminal.show();
-  // Send the command to the terminal for execution
-  terminal.sendText(commandLine);
-
-  // Return an immediate message indicating that the command has been sent.
-  // Note: The actual execution output is not captured via this API.
-  return `Started execution of "${commandLine}" in terminal with working directory "${cwd}"`;
+}
+
+export async function runCommand(commandLine: string, cwd: string, token?: vscode.CancellationToken): Promise<string> {
+  const maxOutputChars = vscode.workspace.getConfiguration('quest1CodeAssistant').get<number>('commandMaxOutputChars', 20000);
+
+  const result = await executeCommand(commandLine, cwd, getCommandTimeoutMs(), maxOutputChars, token);
+
+  // Return the structured result so the model can see exit codes and errors
+  return JSON.stringify(result, null, 2);
 }
@@ -8,7 +8,7 @@ import { ServiceFactory } from '../services/ServiceFactory';
  * @param filePath Path to the file to check
  * @returns Diagnostic information as a string
  */
-async function checkForDiagnostics(filePath: string): Promise<string> {
+export async function checkForDiagnostics(filePath: string): Promise<string> {
   // Only check diagnostics for code files
   const codeExtensions = ['.ts', '.js', '.tsx', '.jsx', '.json', '.py', '.java', '.cpp', '.c', '.cs', '.go', '.rb'];
   const fileExt = path.extname(filePath);
@@ -39,6 +39,46 @@ async function checkForDiagnostics(filePath: string): Promise<string> {
   }
 }
 
+/**
+ * Compute the content a file will have after an update, without touching the disk
+ * @param existingContent Current content of the file
+ * @param content New content, or the content to insert
+ * @param insertAtLine Optional line to insert at (whole file is replaced when omitted)
+ * @param insertAtColumn Optional column to insert at
+ * @returns The updated content, or an error message if the position is invalid
+ */
+export function computeUpdatedContent(
+  existingContent: string,
+  content: string,
+  insertAtLine?: number,
+  insertAtColumn?: number
+): { content?: string; error?: string } {
+  if (insertAtLine === undefined || insertAtLine === null) {
+    return { content };
+  }
+  
+  const lines = existingContent.split('\n');
+  
+  // Check if the line number is valid
+  if (insertAtLine < 0 || insertAtLine >= lines.length) {
+    return { error: `Line number ${insertAtLine} is out of range (file has ${lines.length} lines)` };
+  }
+  
+  // Insert the content at the specified position
+  const column = insertAtColumn || 0;
+  const targetLine = lines[insertAtLine];
+  
+  if (column > targetLine.length) {
+    return { error: `Column number ${column} is out of range (line has ${targetLine.length} characters)` };
+  }
+  
+  const lineStart = targetLine.substring(0, column);
+  const lineEnd = targetLine.substring(column);
+  lines[insertAtLine] = lineStart + content + lineEnd;
+  
+  return { content: lines.join('\n') };
+}
+
 export async function updateFile(
   filePath: string, 
   content: string,
@@ -51,34 +91,21 @@ export async function updateFile(
       return `Error: File does not exist at ${filePath}. Use createFile to create a new file.`;
     }
     
-    if (insertAtLine !== undefined) {
+    if (insertAtLine !== undefined && insertAtLine !== null) {
       // Insert content at a specific line and column
       try {
         // Read the existing content
         const existingContent = fs.readFileSync(filePath, 'utf8');
-        const lines = existingContent.split('\n');
+        const update = computeUpdatedContent(existingContent, content, insertAtLine, insertAtColumn);
         
-        // Check if the line number is valid
-        if (insertAtLine < 0 || insertAtLine >= lines.length) {
-          return `Error: Line number ${insertAtLine} is out of range (file has ${lines.length} lines)`;
+        if (update.error !== undefined || update.content === undefined) {
+          return `Error: ${update.error}`;
         }
         
-        // Insert the content at the specified position
-        const column = insertAtColumn || 0;
-        const targetLine = lines[insertAtLine];
-        
-        if (column > targetLine.length) {
-          return `Error: Column number ${column} is out of range (line has ${targetLine.length} characters)`;
-        }
-        
-        const lineStart = targetLine.substring(0, column);
-        const lineEnd = targetLine.substring(column);
-        lines[insertAtLine] = lineStart + content + lineEnd;
-        
         // Write the updated content back to the file
-        const updatedContent = lines.join('\n');
-        fs.writeFileSync(filePath, updatedContent, 'utf8');
+        fs.writeFileSync(filePath, update.content, 'utf8');
         
+        const column = insertAtColumn || 0;
         console.log(`Successfully updated file: ${filePath} at line ${insertAtLine}, column ${column}`);
         
         // Check for diagnostics if it's a code file
@@ -0,0 +1,83 @@
+/**
+ * Validate tool call arguments against the JSON schema subset used by the tool definitions
+ * (type, properties, required, items, enum)
+ * @param schema The JSON schema of the tool's parameters
+ * @param args The arguments produced by the model
+ * @returns A list of validation errors, empty if the arguments are valid
+ */
+export function validateToolArguments(schema: any, args: any): string[] {
+  const errors: string[] = [];
+  validateValue(schema, args === undefined ? {} : args, 'arguments', errors);
+  return errors;
+}
+
+/**
+ * Format argument validation errors as a tool result the model can correct
+ */
+export function formatValidationErrors(toolName: string, errors: string[]): string {
+  return `Error: Invalid arguments for ${toolName}:\n${errors.map(error => `- ${error}`).join('\n')}\nFix the arguments to match the tool's schema and call it again.`;
+}
+
+function validateValue(schema: any, value: any, location: string, errors: string[]): void {
+  if (!schema) {
+    return;
+  }
+
+  if (schema.type && !matchesType(schema.type, value)) {
+    errors.push(`${location}: expected ${schema.type} but got ${describeType(value)}`);
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${location}: must be one of ${schema.enum.map((option: any) => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (schema.type === 'object' && value !== null && typeof value === 'object') {
+    for (const required of schema.required || []) {
+      if (value[required] === undefined || value[required] === null) {
+        errors.push(`${location}: missing required property "${required}"`);
+      }
+    }
+
+    for (const [property, propertySchema] of Object.entries(schema.properties || {})) {
+      if (value[property] !== undefined && value[property] !== null) {
+        validateValue(propertySchema, value[property], `${location}.${property}`, errors);
+      }
+    }
+  }
+
+  if (schema.type === 'array' && Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => validateValue(schema.items, item, `${location}[${index}]`, errors));
+  }
+}
+
+function matchesType(type: string, value: any): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && !Number.isNaN(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'null':
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+function describeType(value: any): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+}
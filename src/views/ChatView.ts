@@ -1,5 +1,14 @@
 import * as vscode from 'vscode';
 import { OpenAIService } from '../openai-service';
+import { ServiceFactory } from '../services/ServiceFactory';
+import { ChatMessage, PreparedMessage } from '../services/types/Conversation';
+import { Plan, PlanStepStatus } from '../services/types/Plan';
+import { ContextUsage } from '../services/types/ContextBudget';
+import { UsageSummary, UsageTotals } from '../services/types/Usage';
+import { AgentMode, AGENT_MODES } from '../services/types/AgentMode';
+import { SlashCommand } from '../services/types/SlashCommand';
+import { Attachment, MentionKind, MentionSuggestion, MENTION_KINDS } from '../services/types/Mention';
+import { formatCost } from '../services/UsageTracker';
 import * as MarkdownIt from 'markdown-it';
 import hljs from 'highlight.js';
 
@@ -10,10 +19,24 @@ export class ChatView {
   private readonly extensionUri: vscode.Uri;
   private readonly openAIService: OpenAIService;
   private disposables: vscode.Disposable[] = [];
-  private messageHistory: { role: string, content: string, id?: string }[] = [];
+  private messageHistory: ChatMessage[] = [];
   private contextFiles: string[] = []; // Track files used for context
+  private cancellationSource: vscode.CancellationTokenSource | undefined; // Cancels the running request
+  private conversationId = ChatView.createConversationId();
+  private conversationCreatedAt = Date.now();
+  private plan: Plan | undefined; // Plan of the current run, shown above the input
+  private finishPlanReview: ((plan: Plan | undefined) => void) | undefined; // Resolves the pending plan review
+  private contextUsage: ContextUsage | undefined; // Context window usage of the last request
+  private usageSummary: UsageSummary | undefined; // Token usage and cost of the last run
+  private runRules: string[] | undefined; // Rules files applied to the running request
+  private slashCommands: SlashCommand[] = []; // Commands suggested while typing a slash in the input
+  private readonly restored: Promise<void>; // Settles once the conversation the panel opens with is loaded
 
-  public static createOrShow(extensionUri: vscode.Uri, openAIService: OpenAIService) {
+  /**
+   * Show the chat panel, creating it if needed
+   * @param conversationId Optional saved conversation to open; a new panel otherwise reopens the most recent one
+   */
+  public static createOrShow(extensionUri: vscode.Uri, openAIService: OpenAIService, conversationId?: string) {
     const column = vscode.window.activeTextEditor
       ? vscode.window.activeTextEditor.viewColumn
       : undefined;
@@ -21,6 +44,9 @@ export class ChatView {
     // If we already have a panel, show it
     if (ChatView.currentPanel) {
       ChatView.currentPanel.panel.reveal(column);
+      if (conversationId) {
+        void ChatView.currentPanel.openConversation(conversationId);
+      }
       return;
     }
 
@@ -36,10 +62,15 @@ export class ChatView {
       }
     );
 
-    ChatView.currentPanel = new ChatView(panel, extensionUri, openAIService);
+    ChatView.currentPanel = new ChatView(panel, extensionUri, openAIService, conversationId);
   }
 
-  private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, openAIService: OpenAIService) {
+  private constructor(
+    panel: vscode.WebviewPanel,
+    extensionUri: vscode.Uri,
+    openAIService: OpenAIService,
+    conversationId?: string
+  ) {
     this.panel = panel;
     this.extensionUri = extensionUri;
     this.openAIService = openAIService;
@@ -47,10 +78,82 @@ export class ChatView {
     // Set the webview's initial html content
     this.updateWebview();
 
+    // Continue where the user left off
+    this.restored = conversationId
+      ? this.openConversation(conversationId).catch(error => console.error('Error opening the conversation:', error))
+      : this.restoreLatestConversation();
+
     // Listen for when the panel is disposed
     // This happens when the user closes the panel or when the panel is closed programmatically
     this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
 
+    // Proposed plans are reviewed in the panel before the agent makes changes
+    const planService = ServiceFactory.getPlanService();
+    this.plan = planService.getPlan();
+    this.disposables.push(
+      planService.setReviewer((plan, token) => this.reviewPlan(plan, token)),
+      planService.onDidChangePlan(plan => {
+        this.plan = plan;
+        this.updatePlanView();
+      })
+    );
+
+    // Show how much of the model's context window the conversation uses
+    const contextBudgetService = ServiceFactory.getContextBudgetService();
+    this.contextUsage = contextBudgetService.getLastUsage();
+    this.disposables.push(
+      contextBudgetService.onDidUpdateUsage(usage => {
+        this.contextUsage = usage;
+        this.panel.webview.postMessage({
+          command: 'updateContextUsage',
+          html: this.getContextUsageHtml()
+        });
+      })
+    );
+
+    // Show the tokens and cost of the current run
+    const usageTracker = ServiceFactory.getUsageTracker();
+    this.usageSummary = usageTracker.getSummary();
+    this.disposables.push(
+      usageTracker.onDidUpdateUsage(summary => {
+        this.usageSummary = summary;
+        this.panel.webview.postMessage({
+          command: 'updateRunUsage',
+          html: this.getRunUsageHtml()
+        });
+      })
+    );
+
+    // Collect the rules files applied during the run, shown with the user message
+    const rulesService = ServiceFactory.getRulesService();
+    this.disposables.push(
+      rulesService.onDidApplyRules(rules => {
+        for (const label of rules.map(rule => rulesService.getLabel(rule))) {
+          if (this.runRules && !this.runRules.includes(label)) {
+            this.runRules.push(label);
+          }
+        }
+      })
+    );
+
+    // Keep the mode selector in sync when the mode is changed in the settings
+    this.disposables.push(
+      ServiceFactory.getAgentModeService().onDidChangeMode(mode => {
+        this.panel.webview.postMessage({ command: 'updateAgentMode', mode });
+      })
+    );
+
+    // Suggest the slash commands in the input, including the ones the workspace defines
+    const slashCommandService = ServiceFactory.getSlashCommandService();
+    const updateSlashCommands = (commands: SlashCommand[]) => {
+      this.slashCommands = commands;
+      this.panel.webview.postMessage({ command: 'updateSlashCommands', commands: this.getSlashCommandSuggestions() });
+    };
+    slashCommandService.getCommands()
+      .then(updateSlashCommands)
+      .catch(error => console.error('Error loading slash commands:', error));
+    this.disposables.push(slashCommandService.onDidChangeCommands(updateSlashCommands));
+
     // Subscribe to context file updates
     this.openAIService.onDidUpdateContextFiles(files => {
       this.contextFiles = files;
@@ -67,9 +170,44 @@ export class ChatView {
             await this.handleUserMessage(message.text);
             break;
             
+          case 'stopGeneration':
+            this.cancellationSource?.cancel();
+            break;
+            
           case 'clearChat':
-            this.messageHistory = [];
-            this.updateWebview();
+            this.startNewConversation();
+            break;
+            
+          case 'approvePlan':
+            if (this.plan && this.finishPlanReview) {
+              const steps: string[] = (message.steps || []).map((step: string) => step.trim()).filter(Boolean);
+              this.finishPlanReview({
+                ...this.plan,
+                steps: steps.map(description => ({ description, status: 'pending' }))
+              });
+            }
+            break;
+            
+          case 'rejectPlan':
+            this.finishPlanReview?.(undefined);
+            break;
+            
+          case 'revertRun':
+            await this.revertCheckpoints(message.index, false);
+            break;
+            
+          case 'revertToMessage':
+            await this.revertCheckpoints(message.index, true);
+            break;
+            
+          case 'requestMentionSuggestions':
+            await this.sendMentionSuggestions(message.requestId, message.kind, message.query || '');
+            break;
+            
+          case 'setAgentMode':
+            if (AGENT_MODES.includes(message.mode)) {
+              await ServiceFactory.getAgentModeService().setMode(message.mode as AgentMode);
+            }
             break;
         }
       },
@@ -78,39 +216,112 @@ export class ChatView {
     );
   }
 
-  private async handleUserMessage(text: string) {
+  /**
+   * Send a message prepared outside the chat input, e.g. by an editor command
+   * @param newConversation Start a new conversation for it instead of continuing the current one
+   */
+  public async sendPreparedMessage(message: PreparedMessage, newConversation: boolean): Promise<void> {
+    // Let a new panel reopen the latest conversation first, so the message continues it
+    await this.restored;
+    
+    if (this.cancellationSource) {
+      vscode.window.showWarningMessage('Stop the current request before sending another one.');
+      return;
+    }
+    if (newConversation && this.messageHistory.length > 0) {
+      this.startNewConversation();
+    }
+    
+    this.panel.reveal();
+    await this.handleUserMessage(message.text, message);
+  }
+
+  /**
+   * Process a message typed in the chat input, or prepared by an editor command
+   * @param prepared Prompt and attachments of a prepared message; typed messages are expanded here
+   */
+  private async handleUserMessage(text: string, prepared?: PreparedMessage) {
     try {
-      // Verify API key before processing
-      const apiKey = vscode.workspace.getConfiguration('quest1CodeAssistant').get<string>('openaiApiKey');
-      if (!apiKey || apiKey.trim() === '') {
-        throw new Error('OpenAI API key not configured. Please set it in the extension settings.');
+      // Verify the LLM provider is configured before processing
+      const validation = this.openAIService.validateApiKey();
+      if (!validation.valid) {
+        throw new Error(validation.message);
       }
       
       // Add user message to history
-      this.messageHistory.push({ role: 'user', content: text });
+      const userMessage: ChatMessage = { role: 'user', content: text };
+      this.messageHistory.push(userMessage);
       this.updateWebview();
       
-      try {
-        // Process with OpenAI (non-streaming only)
-        console.log('Sending query to OpenAI service:', text.substring(0, 30) + '...');
+      let prompt: string;
+      let attachments: Attachment[];
+      if (prepared) {
+        ({ prompt, attachments } = prepared);
+      } else {
+        // Slash commands are shown as typed and sent to the model as their expanded prompt
+        const expanded = await ServiceFactory.getSlashCommandService().expand(text) ?? text;
         
-        // Show the loading indicator
-        this.panel.webview.postMessage({ command: 'showProcessing' });
-        
-        // Always use non-streaming approach
-        const response = await this.openAIService.processQuery(text);
-        console.log('Received response from OpenAI service');
-        
-        // Add assistant response to history
-        this.messageHistory.push({ role: 'assistant', content: response });
-        
-        // Hide the loading indicator
-        this.panel.webview.postMessage({ command: 'hideProcessing' });
+        // Mentions attach context to the message, shown as chips and in the context files panel
+        ({ prompt, attachments } = await ServiceFactory.getMentionService().resolve(expanded));
+      }
+      if (attachments.length > 0) {
+        userMessage.attachments = attachments;
+        attachments
+          .filter(attachment => attachment.path && !attachment.error)
+          .forEach(attachment => this.openAIService.addContextFile(attachment.path!));
+        this.updateWebview();
+      }
+      
+      this.cancellationSource = new vscode.CancellationTokenSource();
+      const token = this.cancellationSource.token;
+      
+      // Snapshot the files the run changes so it can be reverted
+      const checkpointService = ServiceFactory.getCheckpointService();
+      const checkpointRunId = checkpointService.startRun(this.conversationId, text);
+      this.runRules = [];
+      
+      // Code actions run in the mode they need, whatever is selected in the panel, and may skip planning
+      const agentModeService = ServiceFactory.getAgentModeService();
+      agentModeService.setRunMode(prepared?.mode, { planFirst: prepared?.planFirst });
+      
+      try {
+        if (this.isStreamingEnabled()) {
+          await this.streamResponse(prompt, token, checkpointRunId);
+        } else {
+          console.log('Sending query to OpenAI service:', prompt.substring(0, 30) + '...');
+          
+          // Show the loading indicator
+          this.panel.webview.postMessage({ command: 'showProcessing' });
+          
+          const response = await this.openAIService.processQuery(prompt, token, checkpointRunId);
+          console.log('Received response from OpenAI service');
+          
+          // Add assistant response to history
+          this.messageHistory.push({ role: 'assistant', content: response });
+          
+          // Hide the loading indicator
+          this.panel.webview.postMessage({ command: 'hideProcessing' });
+        }
       } catch (error) {
         // Hide any indicators
         this.panel.webview.postMessage({ command: 'hideProcessing' });
         this.panel.webview.postMessage({ command: 'endStreaming' });
-        throw error; // Rethrow to be caught by outer catch block
+        
+        if (!(error instanceof vscode.CancellationError)) {
+          throw error; // Rethrow to be caught by outer catch block
+        }
+        
+        // Streamed responses already show what was generated before the stop
+        if (!this.isStreamingEnabled()) {
+          this.messageHistory.push({ role: 'assistant', content: '*Stopped.*' });
+        }
+      } finally {
+        agentModeService.setRunMode(undefined);
+        userMessage.checkpointId = checkpointService.endRun(checkpointRunId);
+        userMessage.rules = this.runRules.length > 0 ? this.runRules : undefined;
+        this.runRules = undefined;
+        this.cancellationSource.dispose();
+        this.cancellationSource = undefined;
       }
       
       // Update the webview with the new message history
@@ -124,7 +335,7 @@ export class ChatView {
       if (error instanceof Error) {
         // Check for common API errors
         if (error.message.includes('API key')) {
-          errorMessage = 'Error: OpenAI API key is invalid or not configured properly. Please update your API key in VS Code settings (Extensions → Quest1 Code Assistant → OpenAI API Key).';
+          errorMessage = `Error: ${error.message} Please update your provider settings in VS Code (Extensions → Quest1 Code Assistant).`;
         } else if (error.message.includes('rate limit')) {
           errorMessage = 'Error: OpenAI API rate limit exceeded. Please try again in a few moments.';
         } else if (error.message.includes('timeout') || error.message.includes('network')) {
@@ -142,6 +353,446 @@ export class ChatView {
       });
       this.updateWebview();
     }
+    
+    await this.saveConversation();
+  }
+
+  /**
+   * Send the completions for the mention being typed to the webview
+   */
+  private async sendMentionSuggestions(requestId: number, kind: string | undefined, query: string): Promise<void> {
+    let items: MentionSuggestion[] = [];
+    if (kind === undefined || MENTION_KINDS.includes(kind as MentionKind)) {
+      try {
+        items = await ServiceFactory.getMentionService().getSuggestions(kind as MentionKind | undefined, query);
+      } catch (error) {
+        console.error('Error getting mention suggestions:', error);
+      }
+    }
+    this.panel.webview.postMessage({ command: 'mentionSuggestions', requestId, items });
+  }
+
+  /**
+   * Revert the workspace changes of the run started by a user message
+   * @param index Index of the user message in the chat history
+   * @param includeLaterRuns Also revert all runs after it, restoring the workspace to how it was before the message
+   */
+  private async revertCheckpoints(index: number, includeLaterRuns: boolean): Promise<void> {
+    if (this.cancellationSource) {
+      vscode.window.showWarningMessage('Stop the current request before reverting changes.');
+      return;
+    }
+    
+    const messages = includeLaterRuns ? this.messageHistory.slice(index) : [this.messageHistory[index]];
+    const reverted = messages.filter(message => message?.checkpointId);
+    if (reverted.length === 0) {
+      return;
+    }
+    
+    try {
+      const checkpointService = ServiceFactory.getCheckpointService();
+      const ids = reverted.map(message => message.checkpointId as string);
+      const title = includeLaterRuns ? 'Revert to this message' : 'Revert this run';
+      const changes = await checkpointService.previewRevert(ids, title);
+      if (!changes) {
+        return;
+      }
+      
+      const summary = await checkpointService.revert(ids, changes);
+      reverted.forEach(message => message.checkpointId = undefined);
+      
+      // Tell the model, so it doesn't assume its changes are still in place
+      const scope = includeLaterRuns ? 'made since the message' : 'made while answering the message';
+      const quotedMessage = ChatView.createTitle(this.messageHistory[index].content);
+      this.openAIService.replaceConversationHistory([
+        ...this.openAIService.getConversationHistory(),
+        { role: 'user', content: `[Note] The user reverted the file changes ${scope} "${quotedMessage}". Files you changed then are back to their earlier content; read them again before changing them.` }
+      ]);
+      this.messageHistory.push({ role: 'assistant', content: `*${title}: ${summary}*` });
+      this.updateWebview();
+      await this.saveConversation();
+    } catch (error) {
+      console.error('Error reverting checkpoints:', error);
+      vscode.window.showErrorMessage(`Error reverting changes: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Get the id of the conversation shown in the panel
+   */
+  public getConversationId(): string {
+    return this.conversationId;
+  }
+
+  /**
+   * Open a saved conversation, restoring both the chat messages and the model-side history
+   */
+  public async openConversation(id: string): Promise<void> {
+    if (this.cancellationSource) {
+      vscode.window.showWarningMessage('Stop the current request before switching conversations.');
+      return;
+    }
+    
+    const conversation = await ServiceFactory.getConversationStore().load(id);
+    if (!conversation) {
+      vscode.window.showErrorMessage('The conversation could not be loaded.');
+      return;
+    }
+    
+    this.conversationId = conversation.id;
+    this.conversationCreatedAt = conversation.createdAt;
+    this.messageHistory = conversation.chatMessages;
+    this.openAIService.replaceConversationHistory(conversation.messages);
+    ServiceFactory.getContextBudgetService().clearUsage();
+    this.updateWebview();
+  }
+
+  /**
+   * Start an empty conversation, the current one stays in the history
+   */
+  public startNewConversation(): void {
+    if (this.cancellationSource) {
+      vscode.window.showWarningMessage('Stop the current request before starting a new conversation.');
+      return;
+    }
+    
+    this.conversationId = ChatView.createConversationId();
+    this.conversationCreatedAt = Date.now();
+    this.messageHistory = [];
+    this.openAIService.replaceConversationHistory([]);
+    ServiceFactory.getPlanService().clear();
+    ServiceFactory.getContextBudgetService().clearUsage();
+    this.updateWebview();
+  }
+
+  /**
+   * Reopen the most recently updated conversation when the panel is created
+   */
+  private async restoreLatestConversation(): Promise<void> {
+    const initialConversationId = this.conversationId;
+    try {
+      const [latest] = await ServiceFactory.getConversationStore().list();
+      // Skip if the user started or opened a conversation in the meantime
+      if (latest && this.conversationId === initialConversationId && this.messageHistory.length === 0) {
+        await this.openConversation(latest.id);
+      }
+    } catch (error) {
+      console.error('Error restoring the latest conversation:', error);
+    }
+  }
+
+  /**
+   * Save the conversation with the model-side history it corresponds to
+   */
+  private async saveConversation(): Promise<void> {
+    if (this.messageHistory.length === 0) {
+      return;
+    }
+    
+    try {
+      const store = ServiceFactory.getConversationStore();
+      
+      // Keep a title the user gave the conversation in the history list
+      const existing = await store.load(this.conversationId);
+      const firstUserMessage = this.messageHistory.find(message => message.role === 'user')?.content || 'New conversation';
+      
+      await store.save({
+        id: this.conversationId,
+        title: existing?.title || ChatView.createTitle(firstUserMessage),
+        createdAt: this.conversationCreatedAt,
+        updatedAt: Date.now(),
+        messages: this.openAIService.getConversationHistory(),
+        chatMessages: this.messageHistory.map(({ role, content, checkpointId, rules, attachments }) => ({ role, content, checkpointId, rules, attachments }))
+      });
+    } catch (error) {
+      console.error('Error saving conversation:', error);
+    }
+  }
+
+  private static createConversationId(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+  }
+
+  private static createTitle(text: string): string {
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    return singleLine.length > 60 ? `${singleLine.substring(0, 57)}...` : singleLine;
+  }
+
+  /**
+   * Check the quest1CodeAssistant.useStreaming setting
+   */
+  private isStreamingEnabled(): boolean {
+    return vscode.workspace.getConfiguration('quest1CodeAssistant').get<boolean>('useStreaming', true);
+  }
+
+  /**
+   * Stream the response to a query into a new assistant message
+   * Tokens are shown as they arrive, with a line for each tool the agent runs between turns
+   * @param token Token that stops the run, keeping what was streamed so far
+   * @param checkpointRunId Checkpoint run that records the files the run changes
+   */
+  private async streamResponse(text: string, token: vscode.CancellationToken, checkpointRunId: string): Promise<void> {
+    const messageId = `stream-${Date.now()}`;
+    const message = { role: 'assistant', content: '', id: messageId };
+    this.messageHistory.push(message);
+    this.updateWebview();
+    this.panel.webview.postMessage({ command: 'startStreaming', id: messageId });
+    
+    let streamedContent = '';
+    let flushTimer: NodeJS.Timeout | undefined;
+    
+    // Render at most every 50ms, markdown rendering on every token is too slow for long answers
+    const flush = () => {
+      flushTimer = undefined;
+      this.panel.webview.postMessage({
+        command: 'updateStreamingContent',
+        id: messageId,
+        html: this.formatMessageContent(streamedContent)
+      });
+    };
+    
+    try {
+      const response = await this.openAIService.processQueryStreaming(text, event => {
+        switch (event.type) {
+          case 'content':
+            streamedContent += event.delta;
+            break;
+          case 'toolCall':
+            streamedContent += `\n\n*Running \`${event.name}\`...*\n\n`;
+            break;
+          case 'toolResult':
+            if (event.rejected) {
+              streamedContent += `*\`${event.name}\` was rejected*\n\n`;
+            } else if (!event.success) {
+              streamedContent += `*\`${event.name}\` failed*\n\n`;
+            }
+            break;
+          case 'notice':
+            streamedContent += `\n\n*${event.message}*\n\n`;
+            break;
+        }
+        
+        if (!flushTimer) {
+          flushTimer = setTimeout(flush, 50);
+        }
+      }, token, checkpointRunId);
+      
+      // Responses that weren't streamed (errors, the done tool's summary) are added at the end
+      if (response && !streamedContent.includes(response)) {
+        streamedContent += (streamedContent ? '\n\n' : '') + response;
+      }
+    } catch (error) {
+      if (!(error instanceof vscode.CancellationError)) {
+        throw error;
+      }
+      streamedContent += (streamedContent ? '\n\n' : '') + '*Stopped.*';
+    } finally {
+      if (flushTimer) {
+        clearTimeout(flushTimer);
+      }
+      
+      message.content = streamedContent;
+      if (!streamedContent) {
+        this.messageHistory = this.messageHistory.filter(msg => msg !== message);
+      }
+      
+      this.panel.webview.postMessage({ command: 'endStreaming', id: messageId });
+    }
+  }
+
+  /**
+   * Wait for the user to approve, edit or reject a proposed plan in the panel
+   * @returns The approved plan, or undefined if it was rejected or the run was stopped
+   */
+  private reviewPlan(plan: Plan, token?: vscode.CancellationToken): Promise<Plan | undefined> {
+    this.plan = plan;
+    this.updatePlanView();
+    this.panel.reveal(undefined, true);
+    
+    return new Promise(resolve => {
+      const cancellationListener = token?.onCancellationRequested(() => this.finishPlanReview?.(undefined));
+      this.finishPlanReview = reviewed => {
+        cancellationListener?.dispose();
+        this.finishPlanReview = undefined;
+        resolve(reviewed);
+      };
+    });
+  }
+
+  /**
+   * Update the plan checklist in the webview
+   */
+  private updatePlanView() {
+    this.panel.webview.postMessage({
+      command: 'updatePlan',
+      html: this.getPlanHtml()
+    });
+  }
+
+  /**
+   * Render the plan: editable while it is proposed, a checklist once it is approved
+   */
+  private getPlanHtml(): string {
+    if (!this.plan) {
+      return '';
+    }
+    
+    const plan = this.plan;
+    const summary = plan.summary ? `<div class="plan-summary">${this.escapeHtml(plan.summary)}</div>` : '';
+    
+    if (plan.status === 'proposed') {
+      const steps = plan.steps.map(step => `
+        <li class="plan-step">
+          <input class="plan-step-input" type="text" value="${this.escapeHtml(step.description)}">
+          <button class="plan-icon-button" data-action="removeStep" title="Remove step">✕</button>
+        </li>
+      `).join('');
+      
+      return `
+        <div class="plan-header">Proposed plan</div>
+        ${summary}
+        <ol class="plan-steps">${steps}</ol>
+        <div class="plan-actions">
+          <button data-action="addStep" class="secondary">Add Step</button>
+          <button data-action="rejectPlan" class="secondary">Reject</button>
+          <button data-action="approvePlan">Approve</button>
+        </div>
+      `;
+    }
+    
+    const icons: Record<PlanStepStatus, string> = {
+      pending: '☐',
+      in_progress: '◔',
+      done: '☑',
+      skipped: '⊘'
+    };
+    const doneCount = plan.steps.filter(step => step.status === 'done' || step.status === 'skipped').length;
+    const title = plan.status === 'rejected' ? 'Plan (rejected)' : `Plan (${doneCount}/${plan.steps.length})`;
+    const steps = plan.steps.map(step => `
+      <li class="plan-step status-${step.status}">
+        <span class="plan-step-icon">${icons[step.status]}</span>
+        <span>${this.escapeHtml(step.description)}</span>
+      </li>
+    `).join('');
+    
+    return `
+      <div class="plan-header">${title}</div>
+      ${summary}
+      <ol class="plan-steps">${steps}</ol>
+    `;
+  }
+
+  /**
+   * Render the context window usage of the last request as a meter
+   */
+  private getContextUsageHtml(): string {
+    if (!this.contextUsage) {
+      return '';
+    }
+    
+    const usage = this.contextUsage;
+    const percent = Math.min(100, Math.round(usage.usedTokens / usage.contextWindow * 100));
+    const formatTokens = (tokens: number) => tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+    const details = [
+      `${usage.model}: ${usage.usedTokens} of ${usage.contextWindow} tokens`,
+      `System prompt: ${usage.systemTokens}`,
+      `Tool schemas: ${usage.toolTokens}`,
+      `Conversation: ${usage.historyTokens}`,
+      `Reserved for the reply: ${usage.reservedForReply}`
+    ].join('\n');
+    const level = percent >= 90 ? 'high' : percent >= 70 ? 'medium' : 'low';
+    
+    return `
+      <div class="context-usage-meter" title="${this.escapeHtml(details)}">
+        <div class="context-usage-fill ${level}" style="width: ${percent}%"></div>
+      </div>
+      <span title="${this.escapeHtml(details)}">${formatTokens(usage.usedTokens)} / ${formatTokens(usage.contextWindow)} tokens (${percent}%)</span>
+    `;
+  }
+
+  /**
+   * Render the token usage and cost of the last run, with the breakdown per request in the tooltip
+   */
+  private getRunUsageHtml(): string {
+    if (!this.usageSummary || this.usageSummary.run.requests === 0) {
+      return '';
+    }
+    
+    const { run, session, today, runRecords } = this.usageSummary;
+    const formatTokens = (tokens: number) => tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+    const formatTotals = (totals: UsageTotals) =>
+      `${totals.promptTokens} in (${totals.cachedTokens} cached), ${totals.completionTokens} out, ${formatCost(totals.cost)}` +
+      (totals.unpricedRequests > 0 ? ` + ${totals.unpricedRequests} unpriced requests` : '');
+    const details = [
+      ...runRecords.map((record, index) =>
+        `Request ${index + 1} (${record.model}): ${record.promptTokens} in (${record.cachedTokens} cached), ${record.completionTokens} out, ` +
+        (record.cost !== undefined ? formatCost(record.cost) : 'no price')
+      ),
+      `Run: ${formatTotals(run)}`,
+      `Session: ${formatTotals(session)}`,
+      `Today: ${formatTotals(today)}`
+    ].join('\n');
+    const cost = run.unpricedRequests === run.requests ? '' : ` · ${formatCost(run.cost)}`;
+    
+    return `<span title="${this.escapeHtml(details)}">Last run: ${formatTokens(run.promptTokens)} in / ${formatTokens(run.completionTokens)} out${cost}</span>`;
+  }
+
+  /**
+   * Render the options of the agent mode selector with the current mode selected
+   */
+  private getAgentModeOptionsHtml(): string {
+    const agentModeService = ServiceFactory.getAgentModeService();
+    const currentMode = agentModeService.getMode();
+    return AGENT_MODES
+      .map(mode => `<option value="${mode}"${mode === currentMode ? ' selected' : ''}>${agentModeService.getLabel(mode)}</option>`)
+      .join('');
+  }
+
+  /**
+   * Render the context attached with @-mentions as chips
+   */
+  private getAttachmentsHtml(attachments: Attachment[] | undefined): string {
+    if (!attachments?.length) {
+      return '';
+    }
+    const chips = attachments.map(attachment => {
+      const details = attachment.error || `${attachment.tokens} tokens${attachment.truncated ? ', truncated to fit the budget' : ''}`;
+      return `<span class="attachment-chip${attachment.error ? ' failed' : ''}" title="${this.escapeHtml(details)}">@${attachment.kind} ${this.escapeHtml(attachment.label)}</span>`;
+    });
+    return `<div class="attachments">${chips.join('')}</div>`;
+  }
+
+  /**
+   * Render the rules files that were sent with the request of a user message
+   */
+  private getAppliedRulesHtml(message: ChatMessage): string {
+    if (message.role !== 'user' || !message.rules?.length) {
+      return '';
+    }
+    return `<div class="applied-rules" title="Rules files sent with this request">Rules: ${message.rules.map(rule => this.escapeHtml(rule)).join(', ')}</div>`;
+  }
+
+  /**
+   * Render the revert buttons of a user message whose run changed the workspace
+   */
+  private getCheckpointActionsHtml(message: ChatMessage, index: number): string {
+    if (message.role !== 'user' || !message.checkpointId) {
+      return '';
+    }
+    const isLastRun = !this.messageHistory.slice(index + 1).some(later => later.checkpointId);
+    return `
+      <div class="checkpoint-actions">
+        <button data-action="revertRun" data-index="${index}" title="Undo the file changes made while answering this message">Revert this run</button>
+        ${isLastRun ? '' : `<button data-action="revertToMessage" data-index="${index}" title="Undo the file changes made since this message, including later runs">Revert to this message</button>`}
+      </div>
+    `;
+  }
+
+  /**
+   * Get the names and descriptions of the slash commands, for autocompletion in the webview
+   */
+  private getSlashCommandSuggestions(): { name: string; description: string }[] {
+    return this.slashCommands.map(({ name, description }) => ({ name, description }));
   }
 
   private updateWebview() {
@@ -164,7 +815,7 @@ export class ChatView {
     const nonce = this.getNonce();
 
     // Convert message history to HTML
-    const messageHtml = this.messageHistory.map(msg => {
+    const messageHtml = this.messageHistory.map((msg, index) => {
       const isUser = msg.role === 'user';
       const messageClass = isUser ? 'user-message' : 'assistant-message';
       const avatarLabel = isUser ? 'You' : 'AI';
@@ -176,7 +827,7 @@ export class ChatView {
       return `
         <div class="message ${messageClass}"${dataIdAttr}>
           <div class="avatar">${avatarLabel}</div>
-          <div class="content">${formattedContent}</div>
+          <div class="content">${this.getAttachmentsHtml(msg.attachments)}${formattedContent}${this.getAppliedRulesHtml(msg)}${this.getCheckpointActionsHtml(msg, index)}</div>
         </div>
       `;
     }).join('');
@@ -276,6 +927,37 @@ export class ChatView {
             border-bottom: 1px solid var(--vscode-panel-border);
           }
           
+          /* Context window usage */
+          .context-usage {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+          }
+          
+          .context-usage-meter {
+            width: 120px;
+            height: 6px;
+            border-radius: 3px;
+            background: var(--vscode-input-background);
+            border: 1px solid var(--vscode-panel-border);
+            overflow: hidden;
+          }
+          
+          .context-usage-fill {
+            height: 100%;
+            background: var(--vscode-progressBar-background);
+          }
+          
+          .context-usage-fill.medium {
+            background: var(--vscode-editorWarning-foreground);
+          }
+          
+          .context-usage-fill.high {
+            background: var(--vscode-editorError-foreground);
+          }
+          
           .messages-container {
             flex: 1;
             overflow-y: auto;
@@ -320,12 +1002,159 @@ export class ChatView {
             color: var(--vscode-button-foreground);
           }
           
+          .attachments {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 4px;
+            margin-bottom: 6px;
+          }
+          
+          .attachment-chip {
+            padding: 1px 6px;
+            border-radius: 10px;
+            font-size: 11px;
+            background: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+          }
+          
+          .attachment-chip.failed {
+            text-decoration: line-through;
+            opacity: 0.7;
+          }
+          
+          .applied-rules {
+            margin-top: 6px;
+            font-size: 11px;
+            opacity: 0.8;
+          }
+          
+          .checkpoint-actions {
+            display: flex;
+            justify-content: flex-end;
+            margin-top: 6px;
+          }
+          
+          .checkpoint-actions button {
+            padding: 2px 8px;
+            font-size: 11px;
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+          }
+          
+          /* Plan checklist */
+          .plan {
+            padding: 8px 16px;
+            border-top: 1px solid var(--vscode-panel-border);
+            max-height: 40vh;
+            overflow-y: auto;
+            font-size: 12px;
+          }
+          
+          .plan:empty {
+            display: none;
+          }
+          
+          .plan-header {
+            font-weight: bold;
+            margin-bottom: 4px;
+          }
+          
+          .plan-summary {
+            color: var(--vscode-descriptionForeground);
+            margin-bottom: 4px;
+          }
+          
+          .plan-steps {
+            margin: 4px 0;
+            padding-left: 20px;
+          }
+          
+          .plan-step {
+            margin: 2px 0;
+          }
+          
+          .plan-step-input {
+            width: calc(100% - 40px);
+            padding: 2px 4px;
+            border: 1px solid var(--vscode-input-border);
+            background: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            font-family: var(--vscode-font-family);
+          }
+          
+          .plan-step-icon {
+            margin-right: 4px;
+          }
+          
+          .plan-step.status-done,
+          .plan-step.status-skipped {
+            color: var(--vscode-descriptionForeground);
+            text-decoration: line-through;
+          }
+          
+          .plan-step.status-in_progress {
+            font-weight: bold;
+          }
+          
+          .plan-actions {
+            display: flex;
+            justify-content: flex-end;
+            margin-top: 6px;
+          }
+          
+          .plan-actions button {
+            padding: 4px 12px;
+          }
+          
+          .plan button.secondary {
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+          }
+          
+          .plan .plan-icon-button {
+            margin-left: 4px;
+            padding: 2px 6px;
+            background: transparent;
+            color: var(--vscode-foreground);
+          }
+          
           .input-container {
             display: flex;
+            position: relative;
             padding: 10px;
             border-top: 1px solid var(--vscode-panel-border);
           }
           
+          /* Autocompletion of slash commands, above the input */
+          .suggestions {
+            display: none;
+            position: absolute;
+            left: 10px;
+            right: 10px;
+            bottom: 100%;
+            max-height: 200px;
+            overflow-y: auto;
+            background: var(--vscode-editorSuggestWidget-background);
+            border: 1px solid var(--vscode-editorSuggestWidget-border);
+            border-radius: 4px;
+            font-size: 12px;
+          }
+          
+          .suggestion {
+            padding: 4px 8px;
+            cursor: pointer;
+          }
+          
+          .suggestion.selected {
+            background: var(--vscode-editorSuggestWidget-selectedBackground);
+            color: var(--vscode-editorSuggestWidget-selectedForeground);
+          }
+          
+          .suggestion-description {
+            margin-left: 8px;
+            opacity: 0.7;
+          }
+          
           textarea {
             flex: 1;
             padding: 8px;
@@ -353,12 +1182,31 @@ export class ChatView {
             background: var(--vscode-button-hoverBackground);
           }
           
+          #stopButton {
+            display: none;
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+          }
+          
+          #stopButton:hover {
+            background: var(--vscode-button-secondaryHoverBackground);
+          }
+          
           .actions {
             display: flex;
             justify-content: flex-end;
+            align-items: center;
+            gap: 8px;
             padding: 8px;
           }
           
+          #agentMode {
+            padding: 4px;
+            background: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border);
+          }
+          
           code {
             font-family: var(--vscode-editor-font-family);
             background: var(--vscode-textCodeBlock-background);
@@ -534,7 +1382,10 @@ export class ChatView {
           </div>
           <div class="header">
             <h2>Quest1 Code Assistant</h2>
+            <div class="context-usage" id="contextUsage">${this.getContextUsageHtml()}</div>
+            <div class="context-usage" id="runUsage">${this.getRunUsageHtml()}</div>
             <div class="actions">
+              <select id="agentMode" title="Ask: read-only answers. Edit: file changes you approve. Autonomous: changes and commands allowed by the command policy">${this.getAgentModeOptionsHtml()}</select>
               <button id="clearChat">Clear Chat</button>
             </div>
           </div>
@@ -549,9 +1400,13 @@ export class ChatView {
             </div>
           </div>
           
+          <div class="plan" id="plan">${this.getPlanHtml()}</div>
+          
           <div class="input-container">
-            <textarea id="userInput" placeholder="Type your message here..." rows="3"></textarea>
+            <div class="suggestions" id="suggestions"></div>
+            <textarea id="userInput" placeholder="Type your message here, / for commands or @ to attach context..." rows="3"></textarea>
             <button id="sendButton">Send</button>
+            <button id="stopButton" title="Stop the assistant">Stop</button>
           </div>
         </div>
         
@@ -560,6 +1415,7 @@ export class ChatView {
           const messagesContainer = document.getElementById('messages');
           const userInput = document.getElementById('userInput');
           const sendButton = document.getElementById('sendButton');
+          const stopButton = document.getElementById('stopButton');
           const clearButton = document.getElementById('clearChat');
           
           // Scroll to bottom of messages
@@ -568,14 +1424,130 @@ export class ChatView {
           // Send message when Send button is clicked
           sendButton.addEventListener('click', sendMessage);
           
+          // Stop the running request when Stop button is clicked
+          stopButton.addEventListener('click', () => {
+            stopButton.disabled = true;
+            vscode.postMessage({
+              command: 'stopGeneration'
+            });
+          });
+          
+          // Suggest slash commands while the input only holds a command name,
+          // and @-mentions while one is typed at the cursor
+          const suggestions = document.getElementById('suggestions');
+          let slashCommands = ${JSON.stringify(this.getSlashCommandSuggestions()).replace(/</g, '\\u003c')};
+          let suggestionItems = [];
+          let selectedSuggestion = 0;
+          // Part of the input a suggestion replaces
+          let suggestionRange = { start: 0, end: 0 };
+          // Mention suggestions come from the extension, only the latest request is shown
+          let mentionRequest = { id: 0, start: 0, end: 0 };
+          
+          function updateSuggestions() {
+            const slashMatch = userInput.value.match(/^\\/(\\S*)$/);
+            if (slashMatch) {
+              const items = slashCommands
+                .filter(command => command.name.startsWith(slashMatch[1]))
+                .map(command => ({ label: '/' + command.name, description: command.description, insertText: '/' + command.name + ' ' }));
+              showSuggestions(items, 0, userInput.value.length);
+              return;
+            }
+            
+            const cursor = userInput.selectionStart;
+            const mentionMatch = userInput.value.substring(0, cursor).match(/(^|\\s)(@([\\w-]*)(?::("[^"]*"?|\\S*))?)$/);
+            if (mentionMatch) {
+              const hasKind = mentionMatch[4] !== undefined;
+              mentionRequest = { id: mentionRequest.id + 1, start: cursor - mentionMatch[2].length, end: cursor };
+              vscode.postMessage({
+                command: 'requestMentionSuggestions',
+                requestId: mentionRequest.id,
+                kind: hasKind ? mentionMatch[3] : undefined,
+                query: hasKind ? mentionMatch[4].replace(/"/g, '') : mentionMatch[3]
+              });
+              return;
+            }
+            
+            mentionRequest = { id: mentionRequest.id + 1, start: 0, end: 0 };
+            showSuggestions([], 0, 0);
+          }
+          
+          function showSuggestions(items, start, end) {
+            suggestionItems = items;
+            suggestionRange = { start: start, end: end };
+            selectedSuggestion = 0;
+            renderSuggestions();
+          }
+          
+          function renderSuggestions() {
+            suggestions.innerHTML = '';
+            suggestionItems.forEach((suggestion, index) => {
+              const item = document.createElement('div');
+              item.className = 'suggestion' + (index === selectedSuggestion ? ' selected' : '');
+              item.innerHTML = '<span class="suggestion-name"></span><span class="suggestion-description"></span>';
+              item.querySelector('.suggestion-name').textContent = suggestion.label;
+              item.querySelector('.suggestion-description').textContent = suggestion.description || '';
+              // Keep the focus in the input
+              item.addEventListener('mousedown', event => {
+                event.preventDefault();
+                applySuggestion(index);
+              });
+              suggestions.appendChild(item);
+            });
+            suggestions.style.display = suggestionItems.length ? 'block' : 'none';
+            suggestions.querySelector('.selected')?.scrollIntoView({ block: 'nearest' });
+          }
+          
+          function applySuggestion(index) {
+            const insertText = suggestionItems[index].insertText;
+            const value = userInput.value;
+            userInput.value = value.substring(0, suggestionRange.start) + insertText + value.substring(suggestionRange.end);
+            const cursor = suggestionRange.start + insertText.length;
+            userInput.setSelectionRange(cursor, cursor);
+            userInput.focus();
+            // Continue with the path or name after choosing "@file:", "@folder:" or "@symbol:"
+            if (insertText.endsWith(':')) {
+              updateSuggestions();
+            } else {
+              showSuggestions([], 0, 0);
+            }
+          }
+          
+          userInput.addEventListener('input', updateSuggestions);
+          
           // Send message when Enter key is pressed (without Shift)
           userInput.addEventListener('keydown', event => {
+            // Navigate the suggestions while they are shown
+            if (suggestionItems.length) {
+              if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+                event.preventDefault();
+                const step = event.key === 'ArrowDown' ? 1 : -1;
+                selectedSuggestion = (selectedSuggestion + step + suggestionItems.length) % suggestionItems.length;
+                renderSuggestions();
+                return;
+              }
+              if (event.key === 'Tab' || (event.key === 'Enter' && !event.shiftKey)) {
+                event.preventDefault();
+                applySuggestion(selectedSuggestion);
+                return;
+              }
+              if (event.key === 'Escape') {
+                showSuggestions([], 0, 0);
+                return;
+              }
+            }
+            
             if (event.key === 'Enter' && !event.shiftKey) {
               event.preventDefault();
               sendMessage();
             }
           });
           
+          // Switch between Ask, Edit and Autonomous mode
+          const agentModeSelect = document.getElementById('agentMode');
+          agentModeSelect.addEventListener('change', () => {
+            vscode.postMessage({ command: 'setAgentMode', mode: agentModeSelect.value });
+          });
+          
           // Clear chat history
           clearButton.addEventListener('click', () => {
             vscode.postMessage({
@@ -583,6 +1555,42 @@ export class ChatView {
             });
           });
           
+          // Revert the file changes of a run
+          messagesContainer.addEventListener('click', event => {
+            const action = event.target.getAttribute('data-action');
+            if (action === 'revertRun' || action === 'revertToMessage') {
+              vscode.postMessage({ command: action, index: Number(event.target.getAttribute('data-index')) });
+            }
+          });
+          
+          // Edit, approve or reject a proposed plan
+          const planContainer = document.getElementById('plan');
+          planContainer.addEventListener('click', event => {
+            const action = event.target.getAttribute('data-action');
+            switch (action) {
+              case 'addStep': {
+                const step = document.createElement('li');
+                step.className = 'plan-step';
+                step.innerHTML = '<input class="plan-step-input" type="text">' +
+                  '<button class="plan-icon-button" data-action="removeStep" title="Remove step">✕</button>';
+                planContainer.querySelector('.plan-steps').appendChild(step);
+                step.querySelector('input').focus();
+                break;
+              }
+              case 'removeStep':
+                event.target.closest('.plan-step').remove();
+                break;
+              case 'approvePlan': {
+                const steps = Array.from(planContainer.querySelectorAll('.plan-step-input')).map(input => input.value);
+                vscode.postMessage({ command: 'approvePlan', steps: steps });
+                break;
+              }
+              case 'rejectPlan':
+                vscode.postMessage({ command: 'rejectPlan' });
+                break;
+            }
+          });
+          
           // Toggle context files panel
           document.getElementById('contextFilesHeader').addEventListener('click', function() {
             const content = document.getElementById('contextFilesContent');
@@ -606,22 +1614,19 @@ export class ChatView {
                 document.getElementById('processingIndicator').classList.add('active');
                 // Scroll to show the processing indicator
                 messagesContainer.scrollTop = messagesContainer.scrollHeight;
-                // Disable the input and send button during processing
-                userInput.disabled = true;
-                sendButton.disabled = true;
+                // Disable the input and show the stop button during processing
+                setRunning(true);
                 break;
                 
               case 'hideProcessing':
                 document.getElementById('processingIndicator').classList.remove('active');
                 // Re-enable the input and send button
-                userInput.disabled = false;
-                sendButton.disabled = false;
+                setRunning(false);
                 break;
               
               case 'startStreaming':
                 // Start a streaming assistant message, creating an element with the specified ID
-                userInput.disabled = true;
-                sendButton.disabled = true;
+                setRunning(true);
                 
                 // We don't need to create a new element here as the message is already created
                 // in the HTML by the server-side code, but we need to identify it
@@ -640,124 +1645,30 @@ export class ChatView {
                 break;
                 
               case 'updateStreamingContent':
-                // Update the content of a streaming message
-                console.log('%c[WebView] updateStreamingContent received', 'color: green; font-weight: bold');
-                console.log('Message ID:', message.id, 'Content length:', message.content ? message.content.length : 0);
-                console.log('Content preview:', message.content ? message.content.substring(0, 50) + '...' : 'none');
-                
-                if (message.id && message.content) {
-                  // Dump all messages for debugging
-                  console.log('All message elements:');
-                  document.querySelectorAll('.message').forEach(function(el, idx) {
-                    console.log('- Message ' + idx + ':', el.getAttribute('data-id') || 'no data-id');
-                  });
-                  
-                  // Find the streaming message element
+                // Replace the content of a streaming message with the HTML rendered by the extension
+                if (message.id && message.html !== undefined) {
                   const streamingMessage = document.querySelector('.message[data-id="' + message.id + '"] .content');
-                  console.log('Found streaming message element:', streamingMessage ? 'YES' : 'NO');
                   
                   if (streamingMessage) {
-                    // Enhanced approach for handling streaming content
-                    console.log('[STREAMING] Received chunk, content length:', message.content.length);
-                    
-                    // Special handling for tree_view content
-                    const plainContent = message.content;
-                    let isTreeViewContent = false;
-                    
-                    // Check if content appears to be a tree structure (contains directory tree formatting)
-                    if (plainContent.includes('───') || 
-                        plainContent.includes('└──') || 
-                        plainContent.includes('├──') || 
-                        (plainContent.includes('/') && plainContent.includes('directories') && plainContent.includes('files'))) {
-                      isTreeViewContent = true;
-                      console.log('[STREAMING] Detected tree view content');
-                    }
-                    
-                    // Configure markdown-it with appropriate options
-                    const md = new markdownit({
-                      highlight: highlightCode,
-                      breaks: true,
-                      linkify: true,
-                      html: true
-                    });
-                    
-                    // Add special handlers for markdown-it
-                    md.use((md) => {
-                      // Store the original code block renderer
-                      const defaultRender = md.renderer.rules.code_block || function(tokens, idx, options, env, self) {
-                        return self.renderToken(tokens, idx, options);
-                      };
-                      
-                      // Enhanced code block rendering
-                      md.renderer.rules.code_block = function(tokens, idx, options, env, self) {
-                        console.log('[MARKDOWN] Processing code block');
-                        return defaultRender(tokens, idx, options, env, self);
-                      };
-                    });
-                    
-                    // Process content based on its type
-                    let htmlContent = '';
-                    
-                    if (isTreeViewContent) {
-                      // Special handling for tree view content
-                      console.log('[STREAMING] Processing tree view content specially');
-                      
-                      // Wrap the tree view in a pre tag for proper formatting
-                      htmlContent = '<pre class="tree-view">' + 
-                        plainContent
-                          .replace(/&/g, '&amp;')
-                          .replace(/</g, '&lt;')
-                          .replace(/>/g, '&gt;')
-                          .replace(/"/g, '&quot;')
-                          .replace(/'/g, '&#039;')
-                          // Optional: highlight directory names
-                          .replace(/([^\s]+)\//g, '<strong>$1/</strong>')
-                        + '</pre>';
-                    } else {
-                      // Standard markdown rendering for non-tree content
-                      htmlContent = md.render(plainContent);
-                    }
-                    
-                    console.log('[STREAMING] Rendered HTML content length:', htmlContent.length);
-                    
-                    // Update the content but keep the cursor
-                    streamingMessage.innerHTML = htmlContent;
-                    console.log('innerHTML updated with new content');
+                    streamingMessage.innerHTML = message.html;
                     
                     // Re-add the cursor
                     const cursor = document.createElement('span');
                     cursor.className = 'streaming-cursor';
                     cursor.textContent = '▌';
                     streamingMessage.appendChild(cursor);
-                    console.log('Cursor added to content');
                     
                     // Scroll to the bottom to follow the new content
                     messagesContainer.scrollTop = messagesContainer.scrollHeight;
                   } else {
-                    console.error('%c[ERROR] Could not find streaming message element with ID: ' + message.id, 'color: red; font-weight: bold');
-                    console.log('DOM structure:');
-                    console.log(document.body.innerHTML);
-                    
-                    // Try a more general selector to see if the element exists but with different attributes
-                    const allMessages = document.querySelectorAll('.message');
-                    console.log('Found ' + allMessages.length + ' message elements:');
-                    allMessages.forEach(function(el, idx) {
-                      console.log('Message ' + idx + ':', {
-                        'data-id': el.getAttribute('data-id'),
-                        'class': el.className,
-                        'innerHTML': el.innerHTML.substring(0, 50) + '...'
-                      });
-                    });
+                    console.error('Could not find streaming message element with ID: ' + message.id);
                   }
-                } else {
-                  console.error('Missing required data in updateStreamingContent:', { id: message.id, hasContent: !!message.content });
                 }
                 break;
                 
               case 'endStreaming':
                 // End streaming and finalize the message
-                userInput.disabled = false;
-                sendButton.disabled = false;
+                setRunning(false);
                 
                 // Remove any streaming cursors
                 const cursors = document.querySelectorAll('.streaming-cursor');
@@ -777,9 +1688,45 @@ export class ChatView {
               case 'updateContextFiles':
                 updateContextFiles(message.files);
                 break;
+                
+              case 'updatePlan':
+                planContainer.innerHTML = message.html;
+                break;
+                
+              case 'updateContextUsage':
+                document.getElementById('contextUsage').innerHTML = message.html;
+                break;
+                
+              case 'updateRunUsage':
+                document.getElementById('runUsage').innerHTML = message.html;
+                break;
+                
+              case 'updateAgentMode':
+                agentModeSelect.value = message.mode;
+                break;
+                
+              case 'updateSlashCommands':
+                slashCommands = message.commands;
+                updateSuggestions();
+                break;
+                
+              case 'mentionSuggestions':
+                if (message.requestId === mentionRequest.id) {
+                  showSuggestions(message.items, mentionRequest.start, mentionRequest.end);
+                }
+                break;
             }
           });
           
+          // Swap the send button for the stop button while a request is running
+          function setRunning(running) {
+            userInput.disabled = running;
+            sendButton.disabled = running;
+            sendButton.style.display = running ? 'none' : '';
+            stopButton.disabled = false;
+            stopButton.style.display = running ? 'block' : 'none';
+          }
+          
           function sendMessage() {
             const text = userInput.value.trim();
             if (text) {
@@ -875,6 +1822,10 @@ export class ChatView {
   public dispose() {
     ChatView.currentPanel = undefined;
 
+    // Stop any request still running for this panel
+    this.finishPlanReview?.(undefined);
+    this.cancellationSource?.cancel();
+
     // Clean up our resources
     this.panel.dispose();
 
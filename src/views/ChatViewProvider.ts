@@ -1,10 +1,16 @@
 import * as vscode from 'vscode';
 import { OpenAIService } from '../openai-service';
+import { ChatView } from './ChatView';
+import { IConversationStore } from '../services/interfaces';
 
 export class ChatViewProvider implements vscode.WebviewViewProvider {
+  private view: vscode.WebviewView | undefined;
+  private searchQuery = '';
+
   constructor(
     private readonly extensionUri: vscode.Uri,
-    private readonly openAIService: OpenAIService
+    private readonly openAIService: OpenAIService,
+    private readonly conversationStore: IConversationStore
   ) {}
 
   resolveWebviewView(
@@ -20,6 +26,14 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     };
 
     webviewView.webview.html = this.getHtmlForWebview();
+    this.view = webviewView;
+
+    // Keep the history list in sync with the saved conversations
+    const storeListener = this.conversationStore.onDidChange(() => this.refreshConversations());
+    webviewView.onDidDispose(() => {
+      storeListener.dispose();
+      this.view = undefined;
+    });
 
     // Handle messages from the webview
     webviewView.webview.onDidReceiveMessage(async (message) => {
@@ -31,14 +45,38 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
           vscode.commands.executeCommand('quest1CodeAssistant.open');
           break;
           
+        case 'ready':
+          await this.refreshConversations();
+          break;
+          
+        case 'newConversation':
+          ChatView.createOrShow(this.extensionUri, this.openAIService);
+          ChatView.currentPanel?.startNewConversation();
+          break;
+          
+        case 'openConversation':
+          ChatView.createOrShow(this.extensionUri, this.openAIService, message.id);
+          break;
+          
+        case 'renameConversation':
+          await this.renameConversation(message.id, message.title);
+          break;
+          
+        case 'deleteConversation':
+          await this.deleteConversation(message.id, message.title);
+          break;
+          
+        case 'searchConversations':
+          this.searchQuery = message.query || '';
+          await this.refreshConversations();
+          break;
+          
         case 'sendMessage':
           try {
-            // Check API key configuration
-            const apiKey = vscode.workspace.getConfiguration('quest1CodeAssistant').get<string>('openaiApiKey');
-            console.log('Using API key (first few chars):', apiKey?.substring(0, 5) + '...');
-            
-            if (!apiKey || apiKey.trim() === '') {
-              throw new Error('OpenAI API key not configured. Please set it in extension settings.');
+            // Check the LLM provider configuration
+            const validation = this.openAIService.validateApiKey();
+            if (!validation.valid) {
+              throw new Error(validation.message);
             }
             
             // Forward user message to OpenAI service
@@ -75,6 +113,72 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     });
   }
 
+  /**
+   * Send the saved conversations matching the current search to the webview
+   */
+  private async refreshConversations(): Promise<void> {
+    if (!this.view) {
+      return;
+    }
+    
+    try {
+      const conversations = await this.conversationStore.search(this.searchQuery);
+      this.view.webview.postMessage({
+        command: 'updateConversations',
+        conversations: conversations.map(conversation => ({
+          ...conversation,
+          updated: new Date(conversation.updatedAt).toLocaleString()
+        }))
+      });
+    } catch (error) {
+      console.error('Error listing conversations:', error);
+    }
+  }
+
+  /**
+   * Ask for a new title and rename a saved conversation
+   */
+  private async renameConversation(id: string, currentTitle: string): Promise<void> {
+    const title = await vscode.window.showInputBox({
+      prompt: 'Rename conversation',
+      value: currentTitle
+    });
+    if (!title || !title.trim()) {
+      return;
+    }
+    
+    try {
+      await this.conversationStore.rename(id, title.trim());
+    } catch (error) {
+      vscode.window.showErrorMessage(`Could not rename the conversation: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Delete a saved conversation after confirmation
+   */
+  private async deleteConversation(id: string, title: string): Promise<void> {
+    const choice = await vscode.window.showWarningMessage(
+      `Delete the conversation "${title}"?`,
+      { modal: true },
+      'Delete'
+    );
+    if (choice !== 'Delete') {
+      return;
+    }
+    
+    try {
+      await this.conversationStore.delete(id);
+      
+      // Don't keep saving a deleted conversation from the open panel
+      if (ChatView.currentPanel?.getConversationId() === id) {
+        ChatView.currentPanel.startNewConversation();
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Could not delete the conversation: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
   private getHtmlForWebview(): string {
     const nonce = this.getNonce();
 
@@ -114,6 +218,72 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
           button:hover {
             background: var(--vscode-button-hoverBackground);
           }
+          .history-header {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            margin-top: 16px;
+          }
+          .history-header h4 {
+            margin: 0;
+          }
+          .history-header button {
+            margin-top: 0;
+            padding: 4px 8px;
+          }
+          #search {
+            margin-top: 8px;
+            padding: 4px 6px;
+            border: 1px solid var(--vscode-input-border);
+            background: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            outline: none;
+          }
+          .conversation-list {
+            flex: 1;
+            overflow-y: auto;
+            margin-top: 8px;
+          }
+          .conversation-item {
+            display: flex;
+            align-items: center;
+            padding: 4px;
+            border-radius: 2px;
+            cursor: pointer;
+          }
+          .conversation-item:hover {
+            background: var(--vscode-list-hoverBackground);
+          }
+          .conversation-info {
+            flex: 1;
+            min-width: 0;
+          }
+          .conversation-title {
+            white-space: nowrap;
+            overflow: hidden;
+            text-overflow: ellipsis;
+          }
+          .conversation-date {
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+          }
+          .conversation-item .icon-button {
+            margin: 0 0 0 4px;
+            padding: 2px 6px;
+            background: transparent;
+            color: var(--vscode-foreground);
+            visibility: hidden;
+          }
+          .conversation-item:hover .icon-button {
+            visibility: visible;
+          }
+          .conversation-item .icon-button:hover {
+            background: var(--vscode-toolbar-hoverBackground);
+          }
+          .empty {
+            color: var(--vscode-descriptionForeground);
+            font-style: italic;
+          }
         </style>
       </head>
       <body>
@@ -121,6 +291,13 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
           <h3>Quest1 Code Assistant</h3>
           <p>AI-powered coding assistant to help with your development tasks.</p>
           <button id="open-chat-button">Open Chat Panel</button>
+          
+          <div class="history-header">
+            <h4>History</h4>
+            <button id="new-chat-button" title="Start a new conversation">New Chat</button>
+          </div>
+          <input id="search" type="text" placeholder="Search conversations...">
+          <div class="conversation-list" id="conversationList"></div>
         </div>
         
         <script nonce="${nonce}">
@@ -132,11 +309,72 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             });
           });
           
+          document.getElementById('new-chat-button').addEventListener('click', () => {
+            vscode.postMessage({ command: 'newConversation' });
+          });
+          
+          // Search as the user types, waiting for a short pause
+          let searchTimer;
+          document.getElementById('search').addEventListener('input', event => {
+            clearTimeout(searchTimer);
+            searchTimer = setTimeout(() => {
+              vscode.postMessage({ command: 'searchConversations', query: event.target.value });
+            }, 200);
+          });
+          
+          function escapeHtml(text) {
+            return text
+              .replace(/&/g, '&amp;')
+              .replace(/</g, '&lt;')
+              .replace(/>/g, '&gt;')
+              .replace(/"/g, '&quot;')
+              .replace(/'/g, '&#039;');
+          }
+          
+          // Render the saved conversations
+          function updateConversations(conversations) {
+            const list = document.getElementById('conversationList');
+            
+            if (conversations.length === 0) {
+              list.innerHTML = '<div class="empty">No conversations found</div>';
+              return;
+            }
+            
+            list.innerHTML = conversations.map(function(conversation, index) {
+              return '<div class="conversation-item" data-index="' + index + '">' +
+                '<div class="conversation-info">' +
+                  '<div class="conversation-title" title="' + escapeHtml(conversation.title) + '">' + escapeHtml(conversation.title) + '</div>' +
+                  '<div class="conversation-date">' + escapeHtml(conversation.updated) + ' · ' + conversation.messageCount + ' messages</div>' +
+                '</div>' +
+                '<button class="icon-button" data-action="rename" title="Rename">✎</button>' +
+                '<button class="icon-button" data-action="delete" title="Delete">🗑</button>' +
+              '</div>';
+            }).join('');
+            
+            list.querySelectorAll('.conversation-item').forEach(function(item) {
+              const conversation = conversations[Number(item.getAttribute('data-index'))];
+              item.addEventListener('click', function(event) {
+                const action = event.target.getAttribute('data-action');
+                if (action === 'rename') {
+                  vscode.postMessage({ command: 'renameConversation', id: conversation.id, title: conversation.title });
+                } else if (action === 'delete') {
+                  vscode.postMessage({ command: 'deleteConversation', id: conversation.id, title: conversation.title });
+                } else {
+                  vscode.postMessage({ command: 'openConversation', id: conversation.id });
+                }
+              });
+            });
+          }
+          
           // Listen for messages from the extension
           window.addEventListener('message', event => {
             const message = event.data;
             
             switch (message.command) {
+              case 'updateConversations':
+                updateConversations(message.conversations);
+                break;
+                
               case 'receiveMessage':
                 // Handle received message
                 console.log('Received response:', message.text);
@@ -148,6 +386,8 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                 break;
             }
           });
+          
+          vscode.postMessage({ command: 'ready' });
         </script>
       </body>
       </html>
@@ -0,0 +1,42 @@
+import * as vscode from 'vscode';
+import { IUsageTracker } from '../services/interfaces';
+import { UsageSummary } from '../services/types/Usage';
+import { formatCost } from '../services/UsageTracker';
+
+/**
+ * Status bar item showing what today's requests cost, with the run and session totals in the tooltip
+ */
+export class UsageStatusBar implements vscode.Disposable {
+  private readonly item: vscode.StatusBarItem;
+  private readonly listener: vscode.Disposable;
+
+  constructor(usageTracker: IUsageTracker) {
+    this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+    this.item.command = 'quest1CodeAssistant.open';
+    this.update(usageTracker.getSummary());
+    this.item.show();
+
+    this.listener = usageTracker.onDidUpdateUsage(summary => this.update(summary));
+  }
+
+  private update(summary: UsageSummary): void {
+    const { run, session, today } = summary;
+    const maxCostPerDay = vscode.workspace.getConfiguration('quest1CodeAssistant').get<number>('maxCostPerDay', 0);
+
+    this.item.text = `$(pulse) ${formatCost(today.cost)}${maxCostPerDay > 0 ? ` / ${formatCost(maxCostPerDay)}` : ''}`;
+    this.item.tooltip = [
+      'Quest1 usage',
+      `Last run: ${run.promptTokens + run.completionTokens} tokens, ${formatCost(run.cost)}`,
+      `This session: ${session.promptTokens + session.completionTokens} tokens, ${formatCost(session.cost)}`,
+      `Today: ${today.promptTokens + today.completionTokens} tokens (${today.cachedTokens} cached), ${formatCost(today.cost)}`
+    ].join('\n');
+    this.item.backgroundColor = maxCostPerDay > 0 && today.cost >= maxCostPerDay
+      ? new vscode.ThemeColor('statusBarItem.warningBackground')
+      : undefined;
+  }
+
+  public dispose(): void {
+    this.listener.dispose();
+    this.item.dispose();
+  }
+}